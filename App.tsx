@@ -8,8 +8,14 @@ import {
   LogEntry,
   QuickSendItem,
   Rule,
+  RuleGroup,
+  RuleMarks,
+  LineFilter,
   FileSendMode,
-  CommMode
+  FileSendOptions,
+  FileReceiveOptions,
+  CommMode,
+  TextEncoding
 } from './types';
 
 // 蓝牙设备类型定义
@@ -42,6 +48,30 @@ import {
   stringToUint8Array, 
   hexToUint8Array 
 } from './utils/converters';
+import { ModemIO, createByteQueue } from './utils/modem';
+import { StreamDecoder, createDecoder } from './utils/encoding';
+import { ExportDirection, collectLogBytes, logsToPcapng, logsToJsonl, logsToCsv, parseSessionLog } from './utils/logExport';
+import { groupLogsByTimeout } from './utils/logGroup';
+import { ReplayState, loadCapture, createReplayer } from './utils/replay';
+import { pickRecordDir, createFileRecorder } from './utils/fileRecorder';
+import { SearchQuery, buildSearchPattern, filterMatchedLines } from './utils/search';
+import { SearchView, createSearchCache } from './utils/searchCache';
+import { compileLineFilters, applyLineFilters } from './utils/lineFilter';
+import { EnterMode, KeyInput, applyLocalEcho } from './utils/keymap';
+import { ControlCharStyle } from './utils/controlChars';
+import { HexDumpRowSize } from './utils/hexDump';
+import { createAutoResponder, createAlertMonitor } from './utils/ruleActions';
+import { createRuleStatsTracker, RuleStats } from './utils/ruleStats';
+import { createRuleEngine, rulesMatchKey } from './utils/ruleEngine';
+import { playAlertSound, showAlertNotification, flashTitle } from './utils/alerts';
+import { ruleLabel } from './utils/ruleMatch';
+import { applyRuleGroups } from './utils/ruleGroups';
+import {
+  SessionMeta, CleanupPolicy, createSessionRecorder, loadSessionEntries, recoverInterruptedSessions, applyCleanupPolicy
+} from './utils/sessionStore';
+import { ymodemSend, ymodemReceive } from './utils/ymodem';
+import { xmodemSend, xmodemReceive } from './utils/xmodem';
+import { zmodemSend, zmodemReceive, createZModemDetector } from './utils/zmodem';
 
 // Standard components
 import Sidebar from './components/Sidebar';
@@ -49,6 +79,14 @@ import Terminal from './components/Terminal';
 import Sender from './components/Sender';
 import QuickSendList from './components/QuickSendList';
 import RuleList from './components/RuleList';
+import ExportDialog, { RawExportFormat } from './components/ExportDialog';
+import ReplayBar from './components/ReplayBar';
+import SessionHistory from './components/SessionHistory';
+import SearchBar from './components/SearchBar';
+import LineFilterList from './components/LineFilterList';
+import InteractiveBar from './components/InteractiveBar';
+import ChartPanel from './components/ChartPanel';
+import PlotterPanel from './components/PlotterPanel';
 
 interface SerialSignals {
   dataTerminalReady?: boolean;
@@ -60,6 +98,19 @@ interface SerialSignals {
   ringIndicator?: boolean;
 }
 
+/**
+ * 待写入的日志：timestamp 为采集时间（默认当前时间，回放时沿用抓包中的时间），
+ * echo 为交互终端按键的回显文本，isReplay 表示回放数据（不触发自动响应与告警）
+ */
+interface LogInput {
+  type: LogEntry['type'];
+  data: Uint8Array;
+  text: string;
+  timestamp?: Date;
+  echo?: string;
+  isReplay?: boolean;
+}
+
 interface SerialPort {
   readonly readable: ReadableStream<Uint8Array> | null;
   readonly writable: WritableStream<Uint8Array> | null;
@@ -94,6 +145,20 @@ const App: React.FC = () => {
     const saved = localStorage.getItem('is_show_timestamp');
     return saved ? saved === 'true' : false;
   });
+  const [isRenderAnsi, setIsRenderAnsi] = useState(() => localStorage.getItem('is_render_ansi') !== 'false');
+  const [controlCharStyle, setControlCharStyle] = useState<ControlCharStyle>(() => (localStorage.getItem('control_char_style') as ControlCharStyle) || 'off');
+  const [hexDumpBytesPerRow, setHexDumpBytesPerRow] = useState<HexDumpRowSize>(() => (Number(localStorage.getItem('hex_dump_bytes_per_row')) as HexDumpRowSize) || 16);
+  const [isHexDumpPerPacket, setIsHexDumpPerPacket] = useState(() => localStorage.getItem('hex_dump_per_packet') !== 'false');
+  // 交互终端：按键直接发送
+  const [isInteractive, setIsInteractive] = useState(false);
+  const [enterMode, setEnterMode] = useState<EnterMode>(() => (localStorage.getItem('interactive_enter_mode') as EnterMode) || 'cr');
+  const [isLocalEcho, setIsLocalEcho] = useState(() => localStorage.getItem('interactive_local_echo') === 'true');
+  // 提取值曲线：面板打开时注册数据入口，addLog 直接推入（不经过 React 状态）
+  const [isChartOpen, setIsChartOpen] = useState(false);
+  const chartFeedRef = useRef<((log: LogEntry) => void) | null>(null);
+  // 串口绘图器（Arduino 格式）：同样由 addLog 直接推入 RX 数据
+  const [isPlotterOpen, setIsPlotterOpen] = useState(false);
+  const plotterFeedRef = useRef<((log: LogEntry) => void) | null>(null);
   const [isPaused, setIsPaused] = useState(false); // 新增暂停状态
   const [maxBufferSize, setMaxBufferSize] = useState(() => {
     const saved = localStorage.getItem('max_buffer_size');
@@ -139,7 +204,8 @@ const App: React.FC = () => {
       parity: Parity.None,
       bufferSize: 255,
       dtr: true,
-      rts: false
+      rts: false,
+      encoding: TextEncoding.UTF8
     };
     const saved = localStorage.getItem('serial_config');
     if (saved) {
@@ -154,6 +220,8 @@ const App: React.FC = () => {
   });
   
   const [logChunks, setLogChunks] = useState<LogEntry[][]>([[]]);
+  const logChunksRef = useRef(logChunks); // 已渲染的最新日志（供 effect 读取）
+  logChunksRef.current = logChunks;
   const BASE_VISIBLE_CHUNKS = 2; // 默认渲染块数（只保留最新几块，上滚时再动态加载）
   const [visibleChunkCount, setVisibleChunkCount] = useState(BASE_VISIBLE_CHUNKS);
   const CHUNK_SIZE = 10 * 1024; // 每个块 10KB
@@ -188,7 +256,7 @@ const App: React.FC = () => {
   });
   const [isDraggingLeftSidebar, setIsDraggingLeftSidebar] = useState(false);
   const [isDraggingRightSidebar, setIsDraggingRightSidebar] = useState(false);
-  const [rightSidebarTab, setRightSidebarTab] = useState<'quick' | 'colorExtract'>('quick');
+  const [rightSidebarTab, setRightSidebarTab] = useState<'quick' | 'colorExtract' | 'lineFilter'>('quick');
   // 染色 & 提取 合并 tab 内部的子切换
   const [rules, setRules] = useState<Rule[]>(() => {
     const saved = localStorage.getItem('rules');
@@ -197,6 +265,39 @@ const App: React.FC = () => {
     }
     return [];
   });
+  // 规则分组：整组启用 / 停用，停用分组内的规则视为停用（规则自身的开关不变）
+  const [ruleGroups, setRuleGroups] = useState<RuleGroup[]>(() => {
+    const saved = localStorage.getItem('rule_groups');
+    if (saved) {
+      try { return JSON.parse(saved) as RuleGroup[]; } catch { /* 解析失败用空列表 */ }
+    }
+    return [];
+  });
+  const activeRules = useMemo(() => applyRuleGroups(rules, ruleGroups), [rules, ruleGroups]);
+  // 规则自动响应：addLog 收到 RX 时推入其匹配结果，命中后经 sendData 发送（在 React 渲染之外执行，故用 ref 取最新值）
+  const autoResponderRef = useRef(createAutoResponder());
+  const rulesRef = useRef(activeRules);
+  rulesRef.current = activeRules;
+  const autoRespondRef = useRef<(rule: Rule) => void>(() => {});
+  // 规则告警：同样由 addLog 推入，本次会话内各规则的告警次数
+  const alertMonitorRef = useRef(createAlertMonitor());
+  const raiseAlertRef = useRef<(rule: Rule, text: string) => void>(() => {});
+  const [alertCounts, setAlertCounts] = useState<Record<string, number>>({});
+  // 规则匹配引擎：addLog 时为每条 RX/TX 日志算好染色区间与提取结果，终端与规则列表直接读取
+  const ruleEngineRef = useRef(createRuleEngine());
+  const ruleMatchKey = useMemo(() => rulesMatchKey(activeRules, config.encoding), [activeRules, config.encoding]);
+  // 规则命中统计：addLog 逐包增量更新，界面每秒取一次快照
+  const ruleStatsRef = useRef(createRuleStatsTracker());
+  const [ruleStats, setRuleStats] = useState<Record<string, RuleStats>>({});
+  // 行过滤（grep 模式）条件，与规则一同保存
+  const [lineFilters, setLineFilters] = useState<LineFilter[]>(() => {
+    const saved = localStorage.getItem('line_filters');
+    if (saved) {
+      try { return JSON.parse(saved) as LineFilter[]; } catch { /* 解析失败用空列表 */ }
+    }
+    return [];
+  });
+  const [isLineFilterEnabled, setIsLineFilterEnabled] = useState(() => localStorage.getItem('line_filter_enabled') !== 'false');
 
   const [quickSendItems, setQuickSendItems] = useState<QuickSendItem[]>(() => {
     const saved = localStorage.getItem('quick_send_list');
@@ -206,12 +307,31 @@ const App: React.FC = () => {
   const readerRef = useRef<ReadableStreamDefaultReader | null>(null);
   const keepReadingRef = useRef(true);
   const terminalEndRef = useRef<HTMLDivElement>(null);
-  const decoderRef = useRef(new TextDecoder("utf-8", { fatal: false }));
+  const decoderRef = useRef<StreamDecoder>(createDecoder(config.encoding));
+  // WebSocket 等回调在 React 渲染之外执行，通过 ref 读取最新的编码设置
+  const encodingRef = useRef(config.encoding);
+  encodingRef.current = config.encoding;
   const isPausedRef = useRef(false); // 使用ref来跟踪暂停状态，确保在异步函数中能获取最新值
   const maxBufferSizeRef = useRef(maxBufferSize); // 使用ref来跟踪maxBufferSize的最新值
   const sendQueueRef = useRef<{data: Uint8Array, text: string, mode: DisplayMode}[]>([]); // 发送队列
   const isSendingRef = useRef(false); // 是否正在发送
   const isDisconnectingRef = useRef(false); // 是否正在断开中（防止重复触发）
+  // 文件传输协议占用 RX 流时的接收回调：设置后 RX 数据交给协议层，不再写入日志
+  const rxInterceptorRef = useRef<((data: Uint8Array) => void) | null>(null);
+  // 会话持久化（IndexedDB）：连接期间的记录器
+  const sessionRecorderRef = useRef<ReturnType<typeof createSessionRecorder> | null>(null);
+  // 录制到文件：新数据定期写成分段文件，内存窗口之前的旧块可从磁盘分页读回
+  const fileRecorderRef = useRef<ReturnType<typeof createFileRecorder> | null>(null);
+  const [recordTarget, setRecordTarget] = useState<string | null>(null);
+  // 从磁盘读回的旧块：覆盖磁盘块序号 [start, start + chunks.length)
+  const [diskChunks, setDiskChunks] = useState<{ start: number; chunks: LogEntry[][] }>({ start: 0, chunks: [] });
+  // ZModem 自动检测：设备执行 sz / rz 时在 RX 流中出现的起始帧头
+  const zmodemDetectorRef = useRef(createZModemDetector());
+  const [zmodemRequest, setZmodemRequest] = useState<'receive' | 'send' | null>(null);
+  // ZModem 中断传输的已收数据（key: 文件名|大小），同名文件再次接收时断点续传
+  const zmodemPartialsRef = useRef(new Map<string, Uint8Array>());
+  // BIN / PCAPNG 导出对话框：当前格式（null = 未打开）
+  const [rawExportFormat, setRawExportFormat] = useState<RawExportFormat | null>(null);
 
   // 用于统计每秒\n的计数器
   const newlineCountRef = useRef(0);
@@ -232,6 +352,46 @@ const App: React.FC = () => {
     totalTxBytesRef.current = totalTxBytes;
   }, [totalTxBytes]);
 
+  // 切换字符编码后，之后收到的数据按新编码解码（已显示的日志保持不变）
+  useEffect(() => {
+    decoderRef.current = createDecoder(config.encoding);
+  }, [config.encoding]);
+
+  // 断开后丢弃自动响应 / 告警的跨包残留与限频记录；新连接开始新的告警计数
+  useEffect(() => {
+    if (isConnected) {
+      setAlertCounts({});
+    } else {
+      autoResponderRef.current.reset();
+      alertMonitorRef.current.reset();
+    }
+  }, [isConnected]);
+
+  // 规则匹配字段或编码变化：用新引擎把内存中的日志重新匹配一次（只在修改时执行，之后新引擎继续增量匹配）。
+  // 匹配在 updater 之外完成，updater 只按 id 换上新结果；期间新到的日志已由 addLog 按新配置匹配，保持不变
+  useEffect(() => {
+    const chunks = logChunksRef.current;
+    if (chunks.every(chunk => chunk.every(log => (log.type !== 'rx' && log.type !== 'tx') || log.marks?.key === ruleMatchKey))) return;
+    const engine = createRuleEngine();
+    const annotated = new Map<string, RuleMarks>();
+    for (const chunk of chunks) {
+      for (const log of chunk) {
+        if (log.type === 'rx' || log.type === 'tx') annotated.set(log.id, engine.push(log.text, rulesRef.current, encodingRef.current));
+      }
+    }
+    ruleEngineRef.current = engine;
+    setLogChunks(prev => prev.map(chunk => chunk.map(log => {
+      const marks = annotated.get(log.id);
+      return marks ? { ...log, marks } : log;
+    })));
+  }, [ruleMatchKey]);
+
+  // 规则统计快照：每秒刷新（命中速率随时间衰减，无新数据时也需要更新）
+  useEffect(() => {
+    const timer = window.setInterval(() => setRuleStats(ruleStatsRef.current.snapshot(Date.now())), 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
   // 同步isPaused状态到ref
   useEffect(() => {
     isPausedRef.current = isPaused;
@@ -275,6 +435,30 @@ const App: React.FC = () => {
     localStorage.setItem('is_show_timestamp', isShowTimestamp.toString());
   }, [isShowTimestamp]);
 
+  useEffect(() => {
+    localStorage.setItem('is_render_ansi', isRenderAnsi.toString());
+  }, [isRenderAnsi]);
+
+  useEffect(() => {
+    localStorage.setItem('control_char_style', controlCharStyle);
+  }, [controlCharStyle]);
+
+  useEffect(() => {
+    localStorage.setItem('hex_dump_bytes_per_row', hexDumpBytesPerRow.toString());
+  }, [hexDumpBytesPerRow]);
+
+  useEffect(() => {
+    localStorage.setItem('hex_dump_per_packet', isHexDumpPerPacket.toString());
+  }, [isHexDumpPerPacket]);
+
+  useEffect(() => {
+    localStorage.setItem('interactive_enter_mode', enterMode);
+  }, [enterMode]);
+
+  useEffect(() => {
+    localStorage.setItem('interactive_local_echo', isLocalEcho.toString());
+  }, [isLocalEcho]);
+
   useEffect(() => {
     localStorage.setItem('quick_send_list', JSON.stringify(quickSendItems));
   }, [quickSendItems]);
@@ -295,6 +479,18 @@ const App: React.FC = () => {
     localStorage.setItem('rules', JSON.stringify(rules));
   }, [rules]);
 
+  useEffect(() => {
+    localStorage.setItem('rule_groups', JSON.stringify(ruleGroups));
+  }, [ruleGroups]);
+
+  useEffect(() => {
+    localStorage.setItem('line_filters', JSON.stringify(lineFilters));
+  }, [lineFilters]);
+
+  useEffect(() => {
+    localStorage.setItem('line_filter_enabled', isLineFilterEnabled.toString());
+  }, [isLineFilterEnabled]);
+
   // 更新频率统计的定时器
   useEffect(() => {
     const frequencyTimer = setInterval(() => {
@@ -322,109 +518,254 @@ const App: React.FC = () => {
     return total;
   };
 
+  // 将日志按 CHUNK_SIZE 切块（与 addLog 的分块规则一致）
+  const chunkLogs = (logs: LogEntry[]): LogEntry[][] => {
+    const chunks: LogEntry[][] = [[]];
+    let size = 0;
+    for (const log of logs) {
+      if (size >= CHUNK_SIZE && chunks[chunks.length - 1].length > 0) {
+        chunks.push([]);
+        size = 0;
+      }
+      chunks[chunks.length - 1].push(log);
+      size += log.data.length;
+    }
+    return chunks;
+  };
+
   // 计算当前缓冲区使用量（基于所有块，仅日志块变化时重算，避免拖拽侧栏时每次渲染全量扫描）
   const currentBufferSize = useMemo(() => calcChunksSize(logChunks), [logChunks]);
 
+  // 终端显示的日志块：本地回显只影响显示，交互终端的按键始终按 TX 记录
+  const terminalChunks = useMemo(() => logChunks.map(c => applyLocalEcho(c, isLocalEcho)), [logChunks, isLocalEcho]);
+
   // 派生可见日志
   const visibleLogs = useMemo(() => {
-    const startIdx = Math.max(0, logChunks.length - visibleChunkCount);
-    return logChunks.slice(startIdx).flat();
-  }, [logChunks, visibleChunkCount]);
-
-  // 按空闲时间分组：将间隔 <= groupTimeoutMs 的连续数据包合并为一条
-  const displayLogs = useMemo(() => {
-    if (!isGroupByTimeout) return visibleLogs;
+    const startIdx = Math.max(0, terminalChunks.length - visibleChunkCount);
+    const memoryLogs = terminalChunks.slice(startIdx).flat();
+    return diskChunks.chunks.length > 0 ? [...applyLocalEcho(diskChunks.chunks.flat(), isLocalEcho), ...memoryLogs] : memoryLogs;
+  }, [terminalChunks, visibleChunkCount, diskChunks, isLocalEcho]);
+
+  // 行过滤：位于分组之后、终端之前，按行显示 / 隐藏
+  const compiledLineFilters = useMemo(
+    () => isLineFilterEnabled ? compileLineFilters(lineFilters, config.encoding) : null,
+    [lineFilters, isLineFilterEnabled, config.encoding]
+  );
 
-    const mergeGroup = (group: LogEntry[]): LogEntry => {
-      const first = group[0];
-      let mergedText = group.map(l => l.text).join('');
-      // 确保每组以换行结尾，在 inline 模式下能正确分行
-      if (!mergedText.endsWith('\n')) mergedText += '\n';
-      if (group.length === 1 && mergedText === first.text) return first; // 无需修改
-      // 拼接实际字节数组（HEX 模式需要）
-      const totalLen = group.reduce((s, l) => s + l.data.length, 0);
-      const mergedData = new Uint8Array(totalLen);
-      let offset = 0;
-      for (const l of group) {
-        mergedData.set(l.data, offset);
-        offset += l.data.length;
-      }
-      return { ...first, text: mergedText, data: mergedData, byteCount: totalLen };
-    };
+  // 搜索：在整个缓冲区（全部 logChunks，按分组设置合并、行过滤后）中查找，终端显示的是其中可见的后缀部分
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [searchFocusToken, setSearchFocusToken] = useState(0);
+  const [searchQuery, setSearchQuery] = useState<SearchQuery>({ query: '', mode: 'text', caseSensitive: false });
+  const [isSearchFilter, setIsSearchFilter] = useState(false);
+  const [searchIndex, setSearchIndex] = useState(-1);
+  const [searchNavToken, setSearchNavToken] = useState(0);
+  const searchPattern = useMemo(() => isSearchOpen && searchQuery.query !== '' ? buildSearchPattern(searchQuery, config.encoding) : null, [isSearchOpen, searchQuery, config.encoding]);
+  const searchView = useMemo<SearchView>(
+    () => ({ groupTimeoutMs: isGroupByTimeout ? groupTimeoutMs : null, lineFilters: compiledLineFilters }),
+    [isGroupByTimeout, groupTimeoutMs, compiledLineFilters]
+  );
+  // 新数据到达时只查找新增部分，不重新扫描整个缓冲区
+  const searchCacheRef = useRef(createSearchCache());
+  const searchResult = useMemo(() => {
+    if (searchPattern === null || typeof searchPattern === 'string') {
+      searchCacheRef.current.clear();
+      return null;
+    }
+    return searchCacheRef.current.update(terminalChunks.flat(), searchPattern, searchView, config.encoding);
+  }, [searchPattern, searchView, terminalChunks, config.encoding]);
 
-    const result: LogEntry[] = [];
-    let group: LogEntry[] = [];
+  // 新查询默认定位到最后（最新）一个匹配
+  const searchMatchCount = searchResult?.ranges.length ?? 0;
+  useEffect(() => {
+    setSearchIndex(searchResult && searchResult.ranges.length > 0 ? searchResult.ranges.length - 1 : -1);
+    setSearchNavToken(t => t + 1);
+  }, [searchPattern, isSearchFilter]);
+  useEffect(() => {
+    if (searchIndex >= searchMatchCount) setSearchIndex(searchMatchCount - 1);
+    else if (searchIndex < 0 && searchMatchCount > 0) setSearchIndex(searchMatchCount - 1);
+  }, [searchMatchCount]);
+
+  const gotoSearchMatch = (delta: number) => {
+    if (searchMatchCount === 0) return;
+    setSearchIndex(prev => (prev + delta + searchMatchCount) % searchMatchCount);
+    setSearchNavToken(t => t + 1);
+  };
 
-    for (const log of visibleLogs) {
-      if (log.type !== 'rx' && log.type !== 'tx') {
-        if (group.length > 0) { result.push(mergeGroup(group)); group = []; }
-        result.push(log);
-        continue;
-      }
-      if (group.length === 0) {
-        group.push(log);
-      } else {
-        const gap = log.timestamp.getTime() - group[group.length - 1].timestamp.getTime();
-        if (gap <= groupTimeoutMs) {
-          group.push(log);
-        } else {
-          result.push(mergeGroup(group));
-          group = [log];
-        }
-      }
+  // 跳转目标所在块未渲染时扩大渲染窗口
+  useEffect(() => {
+    if (!searchResult || searchIndex < 0 || isSearchFilter) return;
+    const match = searchResult.ranges[searchIndex];
+    if (!match) return;
+    const { textStarts, rawStarts } = searchResult;
+    let lo = 0;
+    let hi = textStarts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (textStarts[mid] <= match.start) lo = mid; else hi = mid - 1;
+    }
+    let rawIndex = rawStarts[lo];
+    let chunkIdx = 0;
+    while (chunkIdx < terminalChunks.length - 1 && rawIndex >= terminalChunks[chunkIdx].length) {
+      rawIndex -= terminalChunks[chunkIdx].length;
+      chunkIdx++;
     }
-    if (group.length > 0) result.push(mergeGroup(group));
-    return result;
+    const needed = terminalChunks.length - chunkIdx;
+    setVisibleChunkCount(prev => Math.max(prev, needed));
+  }, [searchNavToken, searchIndex]);
+
+  // 按空闲时间分组：将间隔 <= groupTimeoutMs 的连续数据包合并为一条
+  const groupedLogs = useMemo(() => {
+    if (!isGroupByTimeout) return visibleLogs;
+    return groupLogsByTimeout(visibleLogs, groupTimeoutMs);
   }, [visibleLogs, isGroupByTimeout, groupTimeoutMs]);
 
+  // 终端最终显示的日志、搜索高亮（区间换算到显示文本坐标）及行过滤隐藏的行数
+  const { displayLogs, searchHighlights, hiddenLineCount } = useMemo(() => {
+    if (!searchResult) {
+      if (!compiledLineFilters) return { displayLogs: groupedLogs, searchHighlights: null, hiddenLineCount: 0 };
+      const filtered = applyLineFilters(groupedLogs, compiledLineFilters);
+      return { displayLogs: filtered.logs, searchHighlights: null, hiddenLineCount: filtered.hidden };
+    }
+    const { display, rawStarts, textStarts, ranges, hiddenLines } = searchResult;
+    if (isSearchFilter) {
+      const filtered = filterMatchedLines(display, ranges);
+      return {
+        displayLogs: filtered.logs,
+        searchHighlights: { ranges: filtered.ranges, current: searchIndex, focusToken: searchNavToken },
+        hiddenLineCount: hiddenLines
+      };
+    }
+    // 可见部分 = 全部显示条目中从「包含可见起点的条目」开始的后缀（搜索期间不显示从磁盘读回的旧块）
+    const startIdx = Math.max(0, terminalChunks.length - visibleChunkCount);
+    let visibleRawStart = 0;
+    for (let i = 0; i < startIdx; i++) visibleRawStart += terminalChunks[i].length;
+    let d = 0;
+    while (d + 1 < display.length && rawStarts[d + 1] <= visibleRawStart) d++;
+    const base = display.length > 0 ? textStarts[d] : 0;
+    let first = 0;
+    while (first < ranges.length && ranges[first].start < base) first++;
+    return {
+      displayLogs: display.slice(d),
+      searchHighlights: {
+        ranges: ranges.slice(first).map(r => ({ start: r.start - base, end: r.end - base })),
+        current: searchIndex >= first ? searchIndex - first : -1,
+        focusToken: searchNavToken
+      },
+      hiddenLineCount: hiddenLines
+    };
+  }, [searchResult, groupedLogs, compiledLineFilters, isSearchFilter, searchIndex, searchNavToken, terminalChunks, visibleChunkCount]);
+
   const totalLogCount = useMemo(() => {
     let count = 0;
     for (const chunk of logChunks) count += chunk.length;
     return count;
   }, [logChunks]);
 
-  const hasMoreChunks = visibleChunkCount < logChunks.length;
-  const hiddenChunksCount = Math.max(0, logChunks.length - visibleChunkCount);
+  // 导出对话框的“全部缓冲区”范围：对话框打开时才展开全部日志
+  const allLogsForExport = useMemo(() => rawExportFormat ? logChunks.flat() : [], [rawExportFormat, logChunks]);
 
-  // 加载更多块（用户上滚时调用）
-  const loadMoreChunks = useCallback(() => {
-    setVisibleChunkCount(prev => prev + 2);
-  }, []);
+  // 录制到文件时，内存第一块在磁盘上的序号（之前的块已被缓冲区上限淘汰，只能从磁盘读回）
+  const memoryStartOnDisk = useMemo(() => {
+    const first = logChunks[0]?.[0];
+    return recordTarget && first ? fileRecorderRef.current?.indexOf(first.id) ?? -1 : -1;
+  }, [logChunks, recordTarget]);
+  const olderChunksOnDisk = memoryStartOnDisk > 0 ? (diskChunks.chunks.length > 0 ? diskChunks.start : memoryStartOnDisk) : 0;
+
+  const hasMoreChunks = visibleChunkCount < logChunks.length || olderChunksOnDisk > 0;
+  const hiddenChunksCount = Math.max(0, logChunks.length - visibleChunkCount) + olderChunksOnDisk;
+
+  // 从磁盘读取 [from, to) 的块
+  const readDiskChunks = async (from: number, to: number): Promise<LogEntry[][] | null> => {
+    const recorder = fileRecorderRef.current;
+    if (!recorder) return null;
+    try {
+      const chunks: LogEntry[][] = [];
+      for (let i = from; i < to; i++) chunks.push(await recorder.readChunk(i));
+      return chunks;
+    } catch (err: any) {
+      addLog('error', new Uint8Array(), `读取录制文件失败: ${err.message}`);
+      return null;
+    }
+  };
+
+  // 加载更多块（用户上滚时调用）：先展开内存中的块，全部展开后再从磁盘往前翻
+  const loadMoreChunks = useCallback(async () => {
+    if (visibleChunkCount < logChunks.length) {
+      setVisibleChunkCount(prev => prev + 2);
+      return;
+    }
+    if (olderChunksOnDisk <= 0) return;
+    const from = Math.max(0, olderChunksOnDisk - 2);
+    const chunks = await readDiskChunks(from, olderChunksOnDisk);
+    if (chunks) setDiskChunks(prev => ({ start: from, chunks: [...chunks, ...(prev.chunks.length > 0 ? prev.chunks : [])] }));
+  }, [visibleChunkCount, logChunks.length, olderChunksOnDisk]);
+
+  // 查看磁盘旧块期间内存又淘汰了块：补读中间缺失的部分，保持连续
+  useEffect(() => {
+    if (diskChunks.chunks.length === 0 || memoryStartOnDisk < 0) return;
+    const end = diskChunks.start + diskChunks.chunks.length;
+    if (end >= memoryStartOnDisk) return;
+    readDiskChunks(end, memoryStartOnDisk).then(chunks => {
+      if (chunks) setDiskChunks(prev => prev.start + prev.chunks.length === end ? { start: prev.start, chunks: [...prev.chunks, ...chunks] } : prev);
+    });
+  }, [memoryStartOnDisk, diskChunks]);
 
   // 用户滚回底部 → 卸载已加载的旧区域（渲染窗口还原到默认，释放 DOM/计算开销；原始数据仍受 maxBufferSize 上限保护，上滚可再次加载）
   const handleReachedBottom = useCallback(() => {
     setVisibleChunkCount(prev => (prev > BASE_VISIBLE_CHUNKS ? BASE_VISIBLE_CHUNKS : prev));
+    setDiskChunks(prev => (prev.chunks.length > 0 ? { start: 0, chunks: [] } : prev));
   }, []);
 
-  const addLog = useCallback((type: LogEntry['type'], data: Uint8Array, newText: string) => {
-    // 更新累计字节统计
-    if (type === 'rx') {
-      setTotalRxBytes(prev => prev + data.length);
-      const newlineCount = (newText.match(/\n/g) || []).length;
-      newlineCountRef.current += newlineCount;
-    } else if (type === 'tx') {
-      setTotalTxBytes(prev => prev + data.length);
-    }
+  // 写入一批日志：只更新一次日志块（回放定位等一次推送大量条目时避免逐条复制全部块）
+  const addLogs = useCallback((items: LogInput[]) => {
+    if (items.length === 0) return;
+    let rxBytes = 0;
+    let txBytes = 0;
+    const newLogs = items.map(({ type, data, text: newText, timestamp, echo }) => {
+      // 更新累计字节统计
+      if (type === 'rx') {
+        rxBytes += data.length;
+        const newlineCount = (newText.match(/\n/g) || []).length;
+        newlineCountRef.current += newlineCount;
+      } else if (type === 'tx') {
+        txBytes += data.length;
+      }
 
-    setLogChunks(prev => {
       const newLog: LogEntry = {
         id: Math.random().toString(36).substr(2, 9),
-        timestamp: new Date(),
+        timestamp: timestamp ?? new Date(),
         type,
         data,
         text: newText,
         byteCount: data.length
       };
+      if (echo !== undefined) newLog.echo = echo;
+      if (type === 'rx' || type === 'tx') {
+        newLog.marks = ruleEngineRef.current.push(newText, rulesRef.current, encodingRef.current);
+      }
+      // 会话持久化：同步写入 IndexedDB 记录器（内部攒批）
+      sessionRecorderRef.current?.append(newLog);
+      fileRecorderRef.current?.append(newLog);
+      chartFeedRef.current?.(newLog);
+      plotterFeedRef.current?.(newLog);
+      return newLog;
+    });
+    if (rxBytes > 0) setTotalRxBytes(prev => prev + rxBytes);
+    if (txBytes > 0) setTotalTxBytes(prev => prev + txBytes);
 
+    setLogChunks(prev => {
       const chunks = prev.map(c => [...c]);
-      const lastChunk = chunks[chunks.length - 1];
-      const lastChunkSize = lastChunk.reduce((sum, log) => sum + log.data.length, 0);
-
-      // 如果最后一个块 >= 10KB 且非空，新开一个块
-      if (lastChunkSize >= CHUNK_SIZE && lastChunk.length > 0) {
-        chunks.push([newLog]);
-      } else {
-        chunks[chunks.length - 1] = [...lastChunk, newLog];
+      let lastChunkSize = chunks[chunks.length - 1].reduce((sum, log) => sum + log.data.length, 0);
+      for (const newLog of newLogs) {
+        const lastChunk = chunks[chunks.length - 1];
+        // 如果最后一个块 >= 10KB 且非空，新开一个块
+        if (lastChunkSize >= CHUNK_SIZE && lastChunk.length > 0) {
+          chunks.push([newLog]);
+          lastChunkSize = newLog.data.length;
+        } else {
+          lastChunk.push(newLog);
+          lastChunkSize += newLog.data.length;
+        }
       }
 
       // 缓冲区清理：从头部删除整块直到低于限制
@@ -437,8 +778,38 @@ const App: React.FC = () => {
 
       return chunks;
     });
+
+    newLogs.forEach((newLog, i) => {
+      // 统计与规则动作直接使用引擎算好的匹配结果，不再各自扫描
+      const marks = newLog.marks;
+      if (marks) {
+        ruleStatsRef.current.push(marks, rulesRef.current, encodingRef.current, newLog.timestamp.getTime());
+      }
+
+      // 规则动作在本条日志之后执行，使自动响应 / 告警的记录排在触发它的 RX 之后；回放的数据不触发
+      if (newLog.type === 'rx' && !items[i].isReplay && marks && marks.hits.length > 0) {
+        const now = Date.now();
+        for (const rule of autoResponderRef.current.push(marks.hits, rulesRef.current, now)) {
+          const delay = rule.action!.delayMs ?? 0;
+          if (delay > 0) {
+            setTimeout(() => autoRespondRef.current(rule), delay);
+          } else {
+            autoRespondRef.current(rule);
+          }
+        }
+        for (const { rule, text } of alertMonitorRef.current.push(marks.hits, rulesRef.current, now)) {
+          raiseAlertRef.current(rule, text);
+        }
+      }
+    });
   }, []);
 
+  const addLog = useCallback(
+    (type: LogEntry['type'], data: Uint8Array, text: string, options: Omit<LogInput, 'type' | 'data' | 'text'> = {}) =>
+      addLogs([{ type, data, text, ...options }]),
+    [addLogs]
+  );
+
   const disconnect = async () => {
     if (commMode === CommMode.Bluetooth) {
       // 蓝牙断开
@@ -545,6 +916,11 @@ const App: React.FC = () => {
           if (isPausedRef.current) return;
           const value = event.target.value;
           const data = new Uint8Array(value.buffer);
+          if (rxInterceptorRef.current) {
+            rxInterceptorRef.current(data);
+            return;
+          }
+          detectZModem(data);
           const textChunk = decoderRef.current.decode(data, { stream: true });
           addLog('rx', data, textChunk);
         });
@@ -594,15 +970,19 @@ const App: React.FC = () => {
             text = decoderRef.current.decode(data, { stream: true });
           } else if (typeof event.data === 'string') {
             text = event.data;
-            // 文本转为字节数组
-            const encoder = new TextEncoder();
-            data = encoder.encode(text);
+            // 文本帧按所选编码转为字节，与发送路径一致
+            data = stringToUint8Array(text, encodingRef.current);
           } else {
             // Blob或其他类型
             text = '[二进制数据]';
             data = new Uint8Array(0);
           }
-          
+
+          if (rxInterceptorRef.current) {
+            rxInterceptorRef.current(data);
+            return;
+          }
+          detectZModem(data);
           addLog('rx', data, text);
         };
 
@@ -782,7 +1162,7 @@ const App: React.FC = () => {
   };
 
   const readLoop = async (selectedPort: SerialPort) => {
-    decoderRef.current = new TextDecoder("utf-8", { fatal: false });
+    decoderRef.current = createDecoder(config.encoding);
     while (selectedPort.readable && keepReadingRef.current) {
       const reader = selectedPort.readable.getReader();
       readerRef.current = reader;
@@ -790,10 +1170,14 @@ const App: React.FC = () => {
         while (true) {
           const { value, done } = await reader.read();
           if (done) break;
+          if (value && rxInterceptorRef.current) {
+            rxInterceptorRef.current(value);
+            continue;
+          }
           // 使用ref检查暂停状态，确保获取最新值
           if (value && !isPausedRef.current) {
+            detectZModem(value);
             const textChunk = decoderRef.current.decode(value, { stream: true });
-            console.log('收到数据:', textChunk);
             addLog('rx', value, textChunk);
           }
         }
@@ -829,9 +1213,9 @@ const App: React.FC = () => {
       return;
     }
 
-    const data = mode === DisplayMode.Hex ? hexToUint8Array(input) : stringToUint8Array(input);
+    const data = mode === DisplayMode.Hex ? hexToUint8Array(input) : stringToUint8Array(input, config.encoding);
     // 将数据解码为文本，确保log.text始终是文本格式
-    const textToSend = uint8ArrayToString(data);
+    const textToSend = uint8ArrayToString(data, config.encoding);
     // 先添加发送日志，确保在回环数据之前显示
     addLog('tx', data, textToSend);
     
@@ -842,16 +1226,47 @@ const App: React.FC = () => {
     processSendQueue();
   };
 
-  const exportLogs = (format: 'txt' | 'bin') => {
-    if (totalLogCount === 0) return;
-    let blob: Blob;
-    let filename = `serial_log_${new Date().getTime()}`;
+  // 规则自动响应：先记一条 info 日志说明由哪条规则触发，再走正常发送流程（延迟发送期间断开或暂停则放弃）
+  autoRespondRef.current = (rule: Rule) => {
+    const action = rule.action;
+    if (!action || !isConnected || isPaused) return;
+    const payload = action.payloadMode === DisplayMode.Text && action.addNewline ? action.payload + '\r\n' : action.payload;
+    const shown = action.payloadMode === DisplayMode.Hex
+      ? `HEX ${action.payload}`
+      : JSON.stringify(payload);
+    addLog('info', new Uint8Array(), `自动响应「${ruleLabel(rule)}」: 发送 ${shown}`);
+    sendData(payload, action.payloadMode).catch((e: any) => {
+      addLog('error', new Uint8Array(), `自动响应「${ruleLabel(rule)}」失败: ${e.message}`);
+    });
+  };
 
-    // 只导出RX和TX数据，不包含系统日志信息
-    const content = logChunks.flat().filter(l => l.type === 'rx' || l.type === 'tx').map(l => l.text).join('');
-    blob = new Blob([content], { type: 'text/plain' });
-    filename += format === 'txt' ? '.txt' : '.bin';
+  // 规则告警：计数 + 按规则配置提示音 / 桌面通知 / 标题闪烁；暂停记录时立即生效，保留命中前后的现场
+  raiseAlertRef.current = (rule: Rule, text: string) => {
+    const alert = rule.alert;
+    if (!alert) return;
+    const label = ruleLabel(rule);
+    setAlertCounts(prev => ({ ...prev, [rule.id]: (prev[rule.id] ?? 0) + 1 }));
+    if (alert.sound) playAlertSound();
+    if (alert.notify) showAlertNotification(`规则告警：${label}`, text.length > 200 ? `${text.slice(0, 200)}…` : text, rule.id);
+    if (alert.flashTitle) flashTitle(`⚠ ${label}`);
+    if (alert.pause && isConnected && !isPausedRef.current) {
+      isPausedRef.current = true;
+      setIsPaused(true);
+      addLog('info', new Uint8Array(), `规则告警「${label}」命中，串口数据已暂停`);
+    }
+  };
 
+  // 交互终端：每次按键经发送队列立即发出（保证顺序），并始终按 TX 记录实际发送的字节；
+  // 本地回显只决定终端是否显示这些记录（关闭时设备回显的内容已在 RX 中，避免重复显示）
+  const sendKeyInput = (input: KeyInput) => {
+    if (!isConnected || isPaused) return;
+    addLog('tx', input.data, uint8ArrayToString(input.data, config.encoding), { echo: input.echo });
+    sendQueueRef.current.push({ data: input.data, text: uint8ArrayToString(input.data, config.encoding), mode: DisplayMode.Hex });
+    processSendQueue();
+  };
+
+  // 触发浏览器下载
+  const downloadBlob = (blob: Blob, filename: string) => {
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
@@ -860,6 +1275,249 @@ const App: React.FC = () => {
     URL.revokeObjectURL(url);
   };
 
+  const exportLogs = () => {
+    if (totalLogCount === 0) return;
+    // 只导出RX和TX数据，不包含系统日志信息；按当前编码从原始字节重新解码（收发方向各用一个流式解码器，避免多字节字符被截断）
+    const decoders = { rx: createDecoder(config.encoding), tx: createDecoder(config.encoding) };
+    const content = logChunks.flat()
+      .filter(l => l.type === 'rx' || l.type === 'tx')
+      .map(l => decoders[l.type as 'rx' | 'tx'].decode(l.data, { stream: true }))
+      .join('');
+    downloadBlob(new Blob([content], { type: 'text/plain' }), `serial_log_${new Date().getTime()}.txt`);
+  };
+
+  // 结构化导出（JSONL / CSV）：每个数据包一条，含时间戳、方向、字节数、HEX 和文本；
+  // 开启按超时分组时按分组后的结果导出（只合并同方向的连续数据包，文本与字节保持原样）
+  const exportSession = (format: 'jsonl' | 'csv') => {
+    if (totalLogCount === 0) return;
+    const logs = isGroupByTimeout ? groupLogsByTimeout(logChunks.flat(), groupTimeoutMs, { lineBreak: false }) : logChunks.flat();
+    const filename = `serial_log_${new Date().getTime()}.${format}`;
+    if (format === 'jsonl') {
+      downloadBlob(new Blob([logsToJsonl(logs)], { type: 'application/x-ndjson' }), filename);
+    } else {
+      downloadBlob(new Blob([logsToCsv(logs)], { type: 'text/csv' }), filename);
+    }
+  };
+
+  // 用给定日志替换终端内容（超出缓冲区上限时丢弃最早的块），返回丢弃的条数。
+  // 规则引擎的跨包残留与命中统计一并清空，避免原内容的未完成匹配延续到替换后的数据
+  const replaceLogs = (logs: LogEntry[]): number => {
+    fileRecorderRef.current?.cut();
+    ruleEngineRef.current.reset();
+    ruleStatsRef.current.reset();
+    setRuleStats({});
+    setDiskChunks({ start: 0, chunks: [] });
+    let chunks = chunkLogs(logs);
+    while (chunks.length > 1 && calcChunksSize(chunks) > maxBufferSizeRef.current) chunks = chunks.slice(1);
+    const kept = chunks.flat();
+    setLogChunks(chunks);
+    setVisibleChunkCount(BASE_VISIBLE_CHUNKS);
+    setTotalRxBytes(kept.reduce((s, l) => s + (l.type === 'rx' ? l.data.length : 0), 0));
+    setTotalTxBytes(kept.reduce((s, l) => s + (l.type === 'tx' ? l.data.length : 0), 0));
+    return logs.length - kept.length;
+  };
+
+  // 导入 JSONL / CSV 会话文件：替换当前终端内容，供离线查看（超出缓冲区上限的旧数据会被丢弃）
+  const sessionFileInputRef = useRef<HTMLInputElement>(null);
+  const importSession = async (file: File) => {
+    let logs: LogEntry[];
+    try {
+      logs = parseSessionLog(await file.text());
+    } catch (err: any) {
+      addLog('error', new Uint8Array(), `导入失败: ${err.message}`);
+      return;
+    }
+    setViewingSession(null);
+    const dropped = replaceLogs(logs);
+    addLog('info', new Uint8Array(), `已导入 ${file.name}，共 ${logs.length} 条${dropped > 0 ? `（超出缓冲区上限，丢弃最早的 ${dropped} 条）` : ''}`);
+  };
+
+  // 载入抓包回放：条目按抓包时间戳经 addLogs 推送，终端、规则染色与提取与实时数据一致（不触发自动响应与告警）
+  const captureFileInputRef = useRef<HTMLInputElement>(null);
+  const replayerRef = useRef<ReturnType<typeof createReplayer> | null>(null);
+  const [replayState, setReplayState] = useState<ReplayState | null>(null);
+  const [replayFileName, setReplayFileName] = useState('');
+
+  const clearLogs = () => {
+    fileRecorderRef.current?.cut();
+    setDiskChunks({ start: 0, chunks: [] });
+    setLogChunks([[]]);
+    setVisibleChunkCount(BASE_VISIBLE_CHUNKS);
+    setTotalRxBytes(0);
+    setTotalTxBytes(0);
+    ruleStatsRef.current.reset();
+    setRuleStats({});
+    ruleEngineRef.current.reset();
+  };
+
+  const closeReplay = () => {
+    replayerRef.current?.stop();
+    replayerRef.current = null;
+    setReplayState(null);
+  };
+
+  const loadCaptureFile = async (file: File) => {
+    if (isConnected) {
+      addLog('error', new Uint8Array(), '载入抓包失败: 请先断开连接');
+      return;
+    }
+    let entries;
+    try {
+      entries = await loadCapture(file, config.baudRate, config.encoding);
+    } catch (err: any) {
+      addLog('error', new Uint8Array(), `载入抓包失败: ${err.message}`);
+      return;
+    }
+    if (entries.length === 0) {
+      addLog('error', new Uint8Array(), `载入抓包失败: ${file.name} 没有数据`);
+      return;
+    }
+    closeReplay();
+    clearLogs();
+    setViewingSession(null);
+    replayerRef.current = createReplayer(entries, {
+      onEntries: (batch) => addLogs(batch.map(e => ({ type: e.type, data: e.data, text: e.text, timestamp: e.timestamp, isReplay: true }))),
+      onReset: clearLogs,
+      onState: setReplayState
+    });
+    setReplayFileName(file.name);
+    setReplayState({ position: 0, total: entries.length, playing: false, speed: 1 });
+    replayerRef.current.play();
+  };
+
+  // 连接设备后结束回放，避免回放数据与实时数据混在一起
+  useEffect(() => {
+    if (isConnected) closeReplay();
+  }, [isConnected]);
+
+  useEffect(() => () => replayerRef.current?.stop(), []);
+
+  // 会话持久化：开启后每次连接新建一个 IndexedDB 会话，断开时结束并按清理策略删除旧会话
+  const [isPersistEnabled, setIsPersistEnabled] = useState(() => localStorage.getItem('session_persist_enabled') === 'true');
+  const [cleanupPolicy, setCleanupPolicy] = useState<CleanupPolicy>(() => {
+    const saved = localStorage.getItem('session_cleanup_policy');
+    const defaults: CleanupPolicy = { maxSessions: 50, maxAgeDays: 30, maxTotalMB: 500 };
+    if (saved) {
+      try { return { ...defaults, ...JSON.parse(saved) }; } catch { /* 解析失败用默认值 */ }
+    }
+    return defaults;
+  });
+  const cleanupPolicyRef = useRef(cleanupPolicy);
+  cleanupPolicyRef.current = cleanupPolicy;
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  // 只读查看的历史会话（truncated = 超出缓冲区上限、只载入了最近部分）
+  const [viewingSession, setViewingSession] = useState<{ meta: SessionMeta; truncated: number } | null>(null);
+
+  useEffect(() => {
+    localStorage.setItem('session_persist_enabled', isPersistEnabled.toString());
+  }, [isPersistEnabled]);
+
+  useEffect(() => {
+    localStorage.setItem('session_cleanup_policy', JSON.stringify(cleanupPolicy));
+  }, [cleanupPolicy]);
+
+  // 启动时修复上次崩溃 / 刷新遗留的未结束会话
+  useEffect(() => {
+    recoverInterruptedSessions().catch(() => { /* 不支持 IndexedDB 时忽略 */ });
+  }, []);
+
+  useEffect(() => {
+    if (isConnected && isPersistEnabled && !sessionRecorderRef.current) {
+      const parityChar = { [Parity.None]: 'N', [Parity.Even]: 'E', [Parity.Odd]: 'O' }[config.parity];
+      const settings = commMode === CommMode.Serial
+        ? `${config.baudRate} ${config.dataBits}${parityChar}${config.stopBits}`
+        : commMode === CommMode.WebSocket ? wsUrl : bluetoothServiceUUID;
+      const recorder = createSessionRecorder({ commMode, settings }, (err) => {
+        addLog('error', new Uint8Array(), `会话持久化已停止: ${err.message}`);
+      });
+      sessionRecorderRef.current = recorder;
+      setActiveSessionId(recorder.id);
+    } else if ((!isConnected || !isPersistEnabled) && sessionRecorderRef.current) {
+      const recorder = sessionRecorderRef.current;
+      sessionRecorderRef.current = null;
+      setActiveSessionId(null);
+      recorder.finish()
+        .then(() => applyCleanupPolicy(cleanupPolicyRef.current))
+        .catch(() => { /* 写入错误已由记录器报告 */ });
+    }
+  }, [isConnected, isPersistEnabled]);
+
+  // 关闭页面前尽量写入尚未落盘的数据
+  useEffect(() => {
+    const onBeforeUnload = () => {
+      sessionRecorderRef.current?.flush();
+      fileRecorderRef.current?.flush();
+    };
+    window.addEventListener('beforeunload', onBeforeUnload);
+    return () => window.removeEventListener('beforeunload', onBeforeUnload);
+  }, []);
+
+  const openSession = async (meta: SessionMeta) => {
+    let logs: LogEntry[];
+    try {
+      logs = await loadSessionEntries(meta.id);
+    } catch (err: any) {
+      addLog('error', new Uint8Array(), `打开历史会话失败: ${err.message}`);
+      return;
+    }
+    closeReplay();
+    setViewingSession({ meta, truncated: replaceLogs(logs) });
+    setIsHistoryOpen(false);
+  };
+
+  const closeViewingSession = () => {
+    setViewingSession(null);
+    clearLogs();
+  };
+
+  // 连接后退出只读查看，终端从空白开始显示实时数据
+  useEffect(() => {
+    if (isConnected && viewingSession) closeViewingSession();
+  }, [isConnected]);
+
+  // 录制到文件：开始时先写入内存中已有的块，之后新数据定期写成分段文件
+  const startFileRecording = async () => {
+    let target;
+    try {
+      target = await pickRecordDir();
+    } catch (err: any) {
+      if (err.name !== 'AbortError') addLog('error', new Uint8Array(), `无法开始录制: ${err.message}`);
+      return;
+    }
+    const recorder = createFileRecorder(target.dir, (err) => {
+      addLog('error', new Uint8Array(), `录制到文件失败，已停止: ${err.message}`);
+      stopFileRecording();
+    });
+    recorder.seed(logChunks);
+    fileRecorderRef.current = recorder;
+    setRecordTarget(target.label);
+    addLog('info', new Uint8Array(), `开始录制到 ${target.label}`);
+  };
+
+  const stopFileRecording = async () => {
+    const recorder = fileRecorderRef.current;
+    if (!recorder) return;
+    fileRecorderRef.current = null;
+    setRecordTarget(null);
+    setDiskChunks({ start: 0, chunks: [] });
+    await recorder.stop();
+    const { segmentCount, bytesWritten } = recorder.getStats();
+    addLog('info', new Uint8Array(), `录制结束，共写入 ${segmentCount} 个分段文件 (${(bytesWritten / 1024).toFixed(1)} KB)`);
+  };
+
+  // 导出 BIN / PCAPNG：直接使用原始字节（LogEntry.data），按方向过滤，保证与收发的数据逐字节一致
+  const exportRaw = (logs: LogEntry[], direction: ExportDirection, linkType: number) => {
+    const suffix = direction === 'both' ? '' : `_${direction}`;
+    const filename = `serial_log_${new Date().getTime()}${suffix}`;
+    if (rawExportFormat === 'pcapng') {
+      downloadBlob(new Blob([logsToPcapng(logs, linkType, direction)], { type: 'application/octet-stream' }), `${filename}.pcapng`);
+    } else {
+      downloadBlob(new Blob([collectLogBytes(logs, direction)], { type: 'application/octet-stream' }), `${filename}.bin`);
+    }
+    setRawExportFormat(null);
+  };
+
   // 一键复制功能
   const copyLogs = () => {
     if (totalLogCount === 0) return;
@@ -890,14 +1548,148 @@ const App: React.FC = () => {
     });
   };
 
+  // 按当前通讯模式直接写出原始字节（供文件传输协议使用，不经过发送队列、不记录日志）
+  const writeRawBytes = async (data: Uint8Array) => {
+    if (commMode === CommMode.Bluetooth) {
+      const characteristic = bluetoothTxCharacteristicRef.current;
+      if (!characteristic) throw new Error('蓝牙未连接');
+      // 蓝牙MTU限制，按 20 字节分包写出
+      for (let i = 0; i < data.length; i += 20) {
+        await characteristic.writeValue(data.slice(i, i + 20));
+      }
+    } else if (commMode === CommMode.WebSocket) {
+      if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) throw new Error('WebSocket 未连接');
+      wsRef.current.send(data);
+    } else {
+      if (!port || !port.writable) throw new Error('串口未连接');
+      const writer = port.writable.getWriter();
+      try {
+        await writer.write(data);
+      } finally {
+        writer.releaseLock();
+      }
+    }
+  };
+
+  // 检测到 ZModem 起始帧头时提示用户（展开发送区并切到 ZModem 模式，由用户确认收/发）
+  const detectZModem = (data: Uint8Array) => {
+    const request = zmodemDetectorRef.current(data);
+    if (!request) return;
+    setZmodemRequest(request);
+    setIsSenderCollapsed(false);
+    addLog('info', new Uint8Array(), request === 'receive' ? '检测到设备发起 ZModem 发送 (sz)' : '检测到设备等待 ZModem 接收 (rz)');
+  };
+
+  // 协议传输期间接管 RX 流：收发的协议字节只计入字节统计，不写入日志（日志中的 TX / RX 条目与导出保持和线路上的数据一致）
+  const attachModemIO = (): ModemIO => {
+    const queue = createByteQueue();
+    rxInterceptorRef.current = (data) => {
+      queue.push(data);
+      setTotalRxBytes(prev => prev + data.length);
+    };
+    return {
+      write: async (data) => {
+        await writeRawBytes(data);
+        setTotalTxBytes(prev => prev + data.length);
+      },
+      read: queue.read,
+      purge: queue.purge
+    };
+  };
+
+  // 协议方式发送文件（X/Y/ZModem）：传输期间接管 RX 流，应答字节交给协议层处理
+  const sendFileByModem = async (file: File, options: FileSendOptions) => {
+    const data = new Uint8Array(await file.arrayBuffer());
+    setZmodemRequest(null);
+    const io = attachModemIO();
+    const protocolName = {
+      [FileSendMode.YModem]: 'YModem',
+      [FileSendMode.XModem]: 'XModem',
+      [FileSendMode.XModemCRC]: 'XModem-CRC',
+      [FileSendMode.XModem1K]: 'XModem-1K',
+      [FileSendMode.ZModem]: 'ZModem'
+    }[options.mode as Exclude<FileSendMode, FileSendMode.Raw>];
+
+    addLog('info', new Uint8Array(), `开始 ${protocolName} 发送: ${file.name} (${data.length} 字节)，等待接收方就绪...`);
+
+    const modemOptions = {
+      timeoutMs: options.timeoutMs,
+      retries: options.retries,
+      onProgress: options.onProgress,
+      onLog: (msg: string) => addLog('info', new Uint8Array(), msg)
+    };
+    try {
+      if (options.mode === FileSendMode.YModem) {
+        await ymodemSend(io, { name: file.name, data }, modemOptions);
+      } else if (options.mode === FileSendMode.ZModem) {
+        await zmodemSend(io, { name: file.name, data }, modemOptions);
+      } else {
+        const variant = options.mode === FileSendMode.XModem ? 'checksum' : options.mode === FileSendMode.XModemCRC ? 'crc' : '1k';
+        await xmodemSend(io, data, variant, modemOptions);
+      }
+      addLog('info', new Uint8Array(), '文件发送完毕');
+    } catch (err: any) {
+      addLog('error', new Uint8Array(), `文件发送中断: ${err.message}`);
+    } finally {
+      rxInterceptorRef.current = null;
+    }
+  };
+
+  // 协议方式接收文件（X/Y/ZModem）：传输期间接管 RX 流，结束后恢复正常日志并下载收到的文件
+  const handleFileReceive = async (options: FileReceiveOptions) => {
+    if (isPaused) {
+      addLog('error', new Uint8Array(), '文件接收失败: 已暂停');
+      return;
+    }
+    if (options.mode === FileSendMode.Raw) return;
+
+    setZmodemRequest(null);
+    const io = attachModemIO();
+    const modemOptions = {
+      timeoutMs: options.timeoutMs,
+      retries: options.retries,
+      onProgress: options.onProgress,
+      onReceived: options.onReceived,
+      onLog: (msg: string) => addLog('info', new Uint8Array(), msg)
+    };
+    addLog('info', new Uint8Array(), '等待发送方开始传输...');
+
+    try {
+      let files: { name: string; data: Uint8Array }[];
+      if (options.mode === FileSendMode.YModem) {
+        files = await ymodemReceive(io, modemOptions);
+      } else if (options.mode === FileSendMode.ZModem) {
+        files = await zmodemReceive(io, { ...modemOptions, partials: zmodemPartialsRef.current });
+      } else {
+        const variant = options.mode === FileSendMode.XModem ? 'checksum' : options.mode === FileSendMode.XModemCRC ? 'crc' : '1k';
+        const data = await xmodemReceive(io, variant, modemOptions);
+        files = [{ name: `xmodem_${new Date().getTime()}.bin`, data }];
+      }
+      for (const f of files) {
+        addLog('info', new Uint8Array(), `已接收文件: ${f.name} (${f.data.length} 字节)`);
+        downloadBlob(new Blob([f.data], { type: 'application/octet-stream' }), f.name);
+      }
+      addLog('info', new Uint8Array(), files.length > 0 ? `文件接收完毕，共 ${files.length} 个` : '发送方未发送任何文件');
+    } catch (err: any) {
+      addLog('error', new Uint8Array(), `文件接收中断: ${err.message}`);
+    } finally {
+      rxInterceptorRef.current = null;
+    }
+  };
+
   // 处理文件流发送
-  const handleFileSend = async (file: File, options: { mode: FileSendMode, throttleBytes: number, throttleMs: number, onProgress: (p: number) => void }) => {
+  const handleFileSend = async (file: File, options: FileSendOptions) => {
     // 如果暂停状态，不允许发送文件
     if (isPaused) {
       addLog('error', new Uint8Array(), '文件发送失败: 已暂停');
       return;
     }
 
+    if (options.mode !== FileSendMode.Raw) {
+      await sendFileByModem(file, options);
+      return;
+    }
+
     if (commMode === CommMode.Bluetooth) {
       // 蓝牙模式发送文件
       if (!bluetoothTxCharacteristicRef.current) {
@@ -1191,6 +1983,13 @@ const App: React.FC = () => {
   // 键盘快捷键： [ 折叠/展开左侧栏， ] 折叠/展开右侧栏
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      // Ctrl+F：打开终端搜索（替代浏览器查找，可搜索未渲染的块）
+      if ((e.ctrlKey || e.metaKey) && !e.altKey && e.key.toLowerCase() === 'f') {
+        e.preventDefault();
+        setIsSearchOpen(true);
+        setSearchFocusToken(t => t + 1);
+        return;
+      }
       // 带有修饰键时不响应（如 Ctrl+C 复制、Ctrl+V 粘贴）
       if (e.ctrlKey || e.altKey || e.metaKey) return;
       // 不在输入框中响应快捷键
@@ -1215,14 +2014,11 @@ const App: React.FC = () => {
         }
       } else if (e.key === 'c') {
         e.preventDefault();
-        setLogChunks([[]]);
-        setVisibleChunkCount(BASE_VISIBLE_CHUNKS);
-        setTotalRxBytes(0);
-        setTotalTxBytes(0);
+        clearLogs();
       } else if (e.key === 'Tab') {
         e.preventDefault();
         setDisplayMode(prev => {
-          const modes = [DisplayMode.Text, DisplayMode.Hex, DisplayMode.SplitView];
+          const modes = [DisplayMode.Text, DisplayMode.Hex, DisplayMode.SplitView, DisplayMode.HexDump];
           const idx = modes.indexOf(prev);
           return modes[(idx + 1) % modes.length];
         });
@@ -1245,6 +2041,10 @@ const App: React.FC = () => {
           isGroupByTimeout={isGroupByTimeout} setIsGroupByTimeout={setIsGroupByTimeout}
           groupTimeoutMs={groupTimeoutMs} setGroupTimeoutMs={setGroupTimeoutMs}
           isShowTimestamp={isShowTimestamp} setIsShowTimestamp={setIsShowTimestamp}
+          isRenderAnsi={isRenderAnsi} setIsRenderAnsi={setIsRenderAnsi}
+          controlCharStyle={controlCharStyle} setControlCharStyle={setControlCharStyle}
+          hexDumpBytesPerRow={hexDumpBytesPerRow} setHexDumpBytesPerRow={setHexDumpBytesPerRow}
+          isHexDumpPerPacket={isHexDumpPerPacket} setIsHexDumpPerPacket={setIsHexDumpPerPacket}
           maxBufferSize={maxBufferSize} setMaxBufferSize={setMaxBufferSize}
           currentBufferSize={currentBufferSize}
           commMode={commMode} setCommMode={setCommMode}
@@ -1255,6 +2055,8 @@ const App: React.FC = () => {
           dtrSignal={config.dtr} rtsSignal={config.rts}
           onSetDTR={setDTR} onSetRTS={setRTS}
           rules={rules} setRules={setRules}
+          ruleGroups={ruleGroups} setRuleGroups={setRuleGroups}
+          lineFilters={lineFilters} setLineFilters={setLineFilters}
           quickSendItems={quickSendItems} setQuickSendItems={setQuickSendItems}
           onConnect={connect} onDisconnect={disconnect}
           isReconnecting={isReconnecting}
@@ -1296,15 +2098,116 @@ const App: React.FC = () => {
               <button onClick={() => setDisplayMode(DisplayMode.Text)} className={`px-3 py-1 text-xs rounded-md transition-colors ${displayMode === DisplayMode.Text ? 'bg-white shadow-sm text-blue-600 font-bold' : 'text-gray-500'}`}>文本</button>
               <button onClick={() => setDisplayMode(DisplayMode.Hex)} className={`px-3 py-1 text-xs rounded-md transition-colors ${displayMode === DisplayMode.Hex ? 'bg-white shadow-sm text-blue-600 font-bold' : 'text-gray-500'}`}>HEX</button>
               <button onClick={() => setDisplayMode(DisplayMode.SplitView)} className={`px-3 py-1 text-xs rounded-md transition-colors ${displayMode === DisplayMode.SplitView ? 'bg-white shadow-sm text-blue-600 font-bold' : 'text-gray-500'}`}>同窗</button>
+              <button onClick={() => setDisplayMode(DisplayMode.HexDump)} className={`px-3 py-1 text-xs rounded-md transition-colors ${displayMode === DisplayMode.HexDump ? 'bg-white shadow-sm text-blue-600 font-bold' : 'text-gray-500'}`} title="HEX Dump：定宽字节行 + 偏移 + ASCII 列">Dump</button>
             </div>
             
+            <button
+              onClick={() => { setIsSearchOpen(true); setSearchFocusToken(t => t + 1); }}
+              className={`px-3 py-1.5 border rounded-md text-xs shadow-sm transition-colors ${isSearchOpen ? 'bg-blue-50 border-blue-300 text-blue-600' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+              title="搜索整个缓冲区 ( Ctrl+F )"
+            >
+              <i className="fas fa-search mr-1"></i> 搜索
+            </button>
+
+            <button
+              onClick={() => setIsInteractive(prev => !prev)}
+              className={`px-3 py-1.5 border rounded-md text-xs shadow-sm transition-colors ${isInteractive ? 'bg-blue-50 border-blue-300 text-blue-600' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+              title="交互终端：终端获取键盘焦点，逐键发送（用于 U-Boot / busybox / MicroPython 等设备 shell）"
+            >
+              <i className="fas fa-keyboard mr-1"></i> 交互
+            </button>
+
+            <button
+              onClick={() => setIsChartOpen(prev => !prev)}
+              className={`px-3 py-1.5 border rounded-md text-xs shadow-sm transition-colors ${isChartOpen ? 'bg-blue-50 border-blue-300 text-blue-600' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+              title="把规则提取的数值绘制为实时曲线"
+            >
+              <i className="fas fa-chart-line mr-1"></i> 图表
+            </button>
+
+            <button
+              onClick={() => setIsPlotterOpen(prev => !prev)}
+              className={`px-3 py-1.5 border rounded-md text-xs shadow-sm transition-colors ${isPlotterOpen ? 'bg-blue-50 border-blue-300 text-blue-600' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+              title="串口绘图器：按 Arduino Serial Plotter 格式（label:value / 分隔的数值）直接绘制 RX 数据"
+            >
+              <i className="fas fa-wave-square mr-1"></i> 绘图器
+            </button>
+
+            <button
+              onClick={() => { setRightSidebarTab('lineFilter'); setRightSidebarCollapsed(false); }}
+              className={`px-3 py-1.5 border rounded-md text-xs shadow-sm transition-colors ${compiledLineFilters ? 'bg-amber-50 border-amber-300 text-amber-700' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+              title="行过滤（grep）：只显示 / 隐藏匹配的行"
+            >
+              <i className="fas fa-filter mr-1"></i> 过滤
+              {compiledLineFilters && <span className="ml-1">· 隐藏 {hiddenLineCount} 行</span>}
+            </button>
+
             <div className="flex bg-white border rounded-md overflow-hidden shadow-sm">
-              <button onClick={() => exportLogs('txt')} className="px-3 py-1.5 text-xs text-gray-600 hover:bg-gray-50 border-r border-gray-100">
+              <button onClick={exportLogs} className="px-3 py-1.5 text-xs text-gray-600 hover:bg-gray-50 border-r border-gray-100">
                 <i className="fas fa-file-alt mr-1"></i> 导出 TXT
               </button>
-              <button onClick={() => exportLogs('bin')} className="px-3 py-1.5 text-xs text-gray-600 hover:bg-gray-50">
+              <button onClick={() => totalLogCount > 0 && setRawExportFormat('bin')} className="px-3 py-1.5 text-xs text-gray-600 hover:bg-gray-50 border-r border-gray-100">
                 <i className="fas fa-file-code mr-1"></i> 导出 BIN
               </button>
+              <button onClick={() => totalLogCount > 0 && setRawExportFormat('pcapng')} className="px-3 py-1.5 text-xs text-gray-600 hover:bg-gray-50 border-r border-gray-100" title="每个 RX/TX 数据包一个 PCAPNG 分组，可用 Wireshark 打开">
+                <i className="fas fa-network-wired mr-1"></i> PCAPNG
+              </button>
+              <button onClick={() => exportSession('jsonl')} className="px-3 py-1.5 text-xs text-gray-600 hover:bg-gray-50 border-r border-gray-100" title="每个数据包一行 JSON：时间戳、方向、字节数、HEX、文本">
+                <i className="fas fa-stream mr-1"></i> JSONL
+              </button>
+              <button onClick={() => exportSession('csv')} className="px-3 py-1.5 text-xs text-gray-600 hover:bg-gray-50 border-r border-gray-100" title="CSV 表格：时间戳、方向、字节数、HEX、文本">
+                <i className="fas fa-file-csv mr-1"></i> CSV
+              </button>
+              <button onClick={() => sessionFileInputRef.current?.click()} className="px-3 py-1.5 text-xs text-gray-600 hover:bg-gray-50" title="导入 JSONL / CSV 会话文件到终端（替换当前内容）">
+                <i className="fas fa-file-import mr-1"></i> 导入
+              </button>
+              <input
+                type="file"
+                ref={sessionFileInputRef}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) importSession(file);
+                  e.target.value = '';
+                }}
+                className="hidden"
+                accept=".jsonl,.csv"
+              />
+            </div>
+
+            <div className="flex bg-white border rounded-md overflow-hidden shadow-sm">
+              <button
+                onClick={() => captureFileInputRef.current?.click()}
+                disabled={isConnected}
+                className="px-3 py-1.5 text-xs text-gray-600 hover:bg-gray-50 disabled:opacity-30 disabled:cursor-not-allowed"
+                title="载入 JSONL / CSV / BIN 抓包并按原始时间间隔回放（需先断开连接）"
+              >
+                <i className="fas fa-film mr-1"></i> 载入抓包
+              </button>
+              <button
+                onClick={recordTarget ? stopFileRecording : startFileRecording}
+                className={`px-3 py-1.5 text-xs border-l border-gray-100 flex items-center ${recordTarget ? 'text-red-600 bg-red-50 hover:bg-red-100' : 'text-gray-600 hover:bg-gray-50'}`}
+                title={recordTarget ? `正在录制到 ${recordTarget}，点击停止` : '录制到文件：所有数据每 5 秒写成一个分段文件（不受缓冲区上限影响），上滚可读回被淘汰的旧数据'}
+              >
+                <i className={`fas ${recordTarget ? 'fa-stop-circle' : 'fa-dot-circle'} mr-1`}></i> {recordTarget ? '停止录制' : '录制到文件'}
+              </button>
+              <button
+                onClick={() => setIsHistoryOpen(true)}
+                className="px-3 py-1.5 text-xs text-gray-600 hover:bg-gray-50 border-l border-gray-100 flex items-center"
+                title={activeSessionId ? '历史会话（当前连接正在写入 IndexedDB）' : '历史会话'}
+              >
+                <i className="fas fa-history mr-1"></i> 历史会话
+                {activeSessionId && <span className="ml-1 w-1.5 h-1.5 rounded-full bg-red-500 animate-pulse"></span>}
+              </button>
+              <input
+                type="file"
+                ref={captureFileInputRef}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) loadCaptureFile(file);
+                  e.target.value = '';
+                }}
+                className="hidden"
+              />
             </div>
             
             {/* 一键复制按钮 */}
@@ -1317,12 +2220,7 @@ const App: React.FC = () => {
             </button>
 
             <button
-              onClick={() => {
-                setLogChunks([[]]);
-                setVisibleChunkCount(BASE_VISIBLE_CHUNKS);
-                setTotalRxBytes(0);
-                setTotalTxBytes(0);
-              }}
+              onClick={clearLogs}
               className="px-4 py-1.5 bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 rounded-md text-xs transition-colors shadow-sm"
               title="清空屏幕 ( c )"
             >
@@ -1345,6 +2243,66 @@ const App: React.FC = () => {
 
         <div className="flex-1 overflow-hidden flex flex-col" style={{ height: `${splitPosition}%` }}>
           <div className="flex-1 overflow-hidden p-2 flex flex-col">
+            {viewingSession && (
+              <div className="flex items-center gap-2 px-3 py-1.5 mb-2 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-700 select-none">
+                <i className="fas fa-lock"></i>
+                <span className="flex-1 truncate">
+                  只读查看历史会话：{new Date(viewingSession.meta.startedAt).toLocaleString()} · {viewingSession.meta.settings}
+                  {viewingSession.truncated > 0 && `（超出缓冲区上限，仅显示最近部分，省略 ${viewingSession.truncated} 条）`}
+                </span>
+                <button onClick={closeViewingSession} className="text-amber-500 hover:text-amber-700" title="关闭并清空终端">
+                  <i className="fas fa-times"></i>
+                </button>
+              </div>
+            )}
+            {isSearchOpen && (
+              <SearchBar
+                query={searchQuery}
+                onQueryChange={setSearchQuery}
+                matchCount={searchMatchCount}
+                currentIndex={searchIndex}
+                truncated={searchResult?.truncated ?? false}
+                error={typeof searchPattern === 'string' ? searchPattern : null}
+                isFilter={isSearchFilter}
+                onFilterChange={setIsSearchFilter}
+                onNext={() => gotoSearchMatch(1)}
+                onPrev={() => gotoSearchMatch(-1)}
+                onClose={() => setIsSearchOpen(false)}
+                focusToken={searchFocusToken}
+              />
+            )}
+            {isInteractive && (
+              <InteractiveBar
+                enterMode={enterMode}
+                onEnterModeChange={setEnterMode}
+                localEcho={isLocalEcho}
+                onLocalEchoChange={setIsLocalEcho}
+                isConnected={isConnected}
+                onClose={() => setIsInteractive(false)}
+              />
+            )}
+            {isChartOpen && (
+              <ChartPanel
+                rules={activeRules}
+                encoding={config.encoding}
+                feedRef={chartFeedRef}
+                onClose={() => setIsChartOpen(false)}
+              />
+            )}
+            {isPlotterOpen && (
+              <PlotterPanel feedRef={plotterFeedRef} onClose={() => setIsPlotterOpen(false)} />
+            )}
+            {replayState && (
+              <ReplayBar
+                fileName={replayFileName}
+                state={replayState}
+                onPlay={() => replayerRef.current?.play()}
+                onPause={() => replayerRef.current?.pause()}
+                onSpeedChange={(speed) => replayerRef.current?.setSpeed(speed)}
+                onSeek={(position) => replayerRef.current?.seek(position)}
+                onClose={closeReplay}
+              />
+            )}
             <Terminal
               logs={displayLogs}
               displayMode={displayMode}
@@ -1357,12 +2315,19 @@ const App: React.FC = () => {
               totalRxBytes={totalRxBytes}
               totalTxBytes={totalTxBytes}
               totalLogCount={totalLogCount}
-              hasMoreChunks={hasMoreChunks}
+              hasMoreChunks={hasMoreChunks && !(searchResult && isSearchFilter)}
               hiddenChunksCount={hiddenChunksCount}
               onLoadMore={loadMoreChunks}
               onReachedBottom={handleReachedBottom}
-              rules={rules}
+              rules={activeRules}
+              searchHighlights={searchHighlights}
+              isRenderAnsi={isRenderAnsi}
+              interactive={isInteractive ? { enterMode, onInput: sendKeyInput } : null}
               isConnected={isConnected}
+              encoding={config.encoding}
+              controlCharStyle={controlCharStyle}
+              hexDumpBytesPerRow={hexDumpBytesPerRow}
+              isHexDumpPerPacket={isHexDumpPerPacket}
             />
           </div>
         </div>
@@ -1375,7 +2340,7 @@ const App: React.FC = () => {
         
 
         <div className={`bg-white shadow-sm m-2 mb-2 select-none ${isDragging ? '' : 'transition-all duration-200'}`} style={isSenderCollapsed ? { height: '36px' } : { height: `${100 - splitPosition}%`, minHeight: '80px' }}>
-          <Sender onSend={sendData} onFileSend={handleFileSend} isConnected={isConnected && !isPaused} isReconnecting={isReconnecting} isCollapsed={isSenderCollapsed} onToggleCollapse={() => setIsSenderCollapsed(prev => !prev)} />
+          <Sender onSend={sendData} onFileSend={handleFileSend} onFileReceive={handleFileReceive} zmodemRequest={zmodemRequest} onZModemDismiss={() => setZmodemRequest(null)} isConnected={isConnected && !isPaused} isReconnecting={isReconnecting} isCollapsed={isSenderCollapsed} onToggleCollapse={() => setIsSenderCollapsed(prev => !prev)} encoding={config.encoding} />
         </div>
       </main>
 
@@ -1420,6 +2385,7 @@ const App: React.FC = () => {
                 <div className="flex bg-gray-200 p-0.5 rounded-md">
                   <button onClick={() => setRightSidebarTab('quick')} className={`text-[10px] px-2 py-1 rounded transition-colors ${rightSidebarTab === 'quick' ? 'bg-white shadow-sm text-blue-600 font-bold' : 'text-gray-500'}`}>快捷发送</button>
                   <button onClick={() => setRightSidebarTab('colorExtract')} className={`text-[10px] px-2 py-1 rounded transition-colors ${rightSidebarTab === 'colorExtract' ? 'bg-white shadow-sm text-blue-600 font-bold' : 'text-gray-500'}`}>染色 & 提取</button>
+                  <button onClick={() => setRightSidebarTab('lineFilter')} className={`text-[10px] px-2 py-1 rounded transition-colors ${rightSidebarTab === 'lineFilter' ? 'bg-white shadow-sm text-blue-600 font-bold' : 'text-gray-500'}`}>行过滤</button>
                 </div>
               </div>
             </div>
@@ -1430,17 +2396,60 @@ const App: React.FC = () => {
                 isCollapsed={false}
                 onToggleCollapse={() => {}}
                 hideHeader
+                encoding={config.encoding}
               />
-            ) : (
+            ) : rightSidebarTab === 'colorExtract' ? (
               <RuleList
                 rules={rules}
                 onUpdate={setRules}
+                groups={ruleGroups}
+                onUpdateGroups={setRuleGroups}
                 logs={displayLogs}
+                encoding={config.encoding}
+                alertCounts={alertCounts}
+                onResetAlertCount={(id) => setAlertCounts(prev => ({ ...prev, [id]: 0 }))}
+                stats={ruleStats}
+                onResetStats={(id) => {
+                  ruleStatsRef.current.reset(id);
+                  setRuleStats(ruleStatsRef.current.snapshot(Date.now()));
+                }}
+              />
+            ) : (
+              <LineFilterList
+                filters={lineFilters}
+                onUpdate={setLineFilters}
+                enabled={isLineFilterEnabled}
+                onEnabledChange={setIsLineFilterEnabled}
+                hiddenLineCount={hiddenLineCount}
               />
             )}
           </aside>
         )}
       </div>
+
+      {isHistoryOpen && (
+        <SessionHistory
+          enabled={isPersistEnabled}
+          onEnabledChange={setIsPersistEnabled}
+          policy={cleanupPolicy}
+          onPolicyChange={setCleanupPolicy}
+          activeSessionId={activeSessionId}
+          viewingSessionId={viewingSession?.meta.id ?? null}
+          canOpen={!isConnected}
+          onOpen={openSession}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
+
+      {rawExportFormat && (
+        <ExportDialog
+          format={rawExportFormat}
+          allLogs={allLogsForExport}
+          visibleLogs={visibleLogs}
+          onExport={exportRaw}
+          onClose={() => setRawExportFormat(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,304 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LogEntry, Rule, TextEncoding } from '../types';
+import { ruleLabel } from '../utils/ruleMatch';
+import { ChartSeries, ChartView, drawChart, pixelToX, plotWidth } from '../utils/chartCanvas';
+
+interface ChartPanelProps {
+  rules: Rule[];
+  encoding: TextEncoding;
+  /** App 在每条 RX/TX 日志写入时调用（在 React 渲染之外推入数据，数值取自 LogEntry.marks） */
+  feedRef: React.MutableRefObject<((log: LogEntry) => void) | null>;
+  onClose: () => void;
+}
+
+const WINDOWS = [
+  { value: 10, label: '10s' },
+  { value: 30, label: '30s' },
+  { value: 60, label: '1min' },
+  { value: 300, label: '5min' }
+];
+const FALLBACK_COLORS = ['#3b82f6', '#ef4444', '#22c55e', '#f59e0b', '#a855f7', '#06b6d4', '#ec4899'];
+const MAX_POINTS = 100000; // 每条曲线保留的点数上限，超出时丢弃最早的 10%
+
+interface SeriesData {
+  xs: number[];
+  ys: number[];
+}
+
+// 曲线颜色取规则文字色；白色 / 未设置时改用背景色或默认色板
+const seriesColor = (rule: Rule, index: number) => {
+  const color = rule.color && rule.color.toLowerCase() !== '#ffffff' ? rule.color : rule.bgColor;
+  return color || FALLBACK_COLORS[index % FALLBACK_COLORS.length];
+};
+
+const ruleSignature = (rule: Rule, encoding: TextEncoding) =>
+  [rule.matchMode, rule.pattern, rule.flags, rule.group, rule.leftKey, rule.leftKeyMode, rule.rightKey, rule.rightKeyMode, encoding].join('|');
+
+const formatTime = (x: number, step: number) => {
+  const d = new Date(x);
+  const hms = d.toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' });
+  return step < 1000 ? `${hms}.${String(d.getMilliseconds()).padStart(3, '0')}` : hms;
+};
+
+/**
+ * 规则提取值实时曲线：每条规则一条曲线，X 轴为日志时间戳。
+ * 数据存放在 ref 中，由 requestAnimationFrame 绘制到 canvas，不触发 React 重渲染；
+ * 滚轮缩放、拖拽平移（自动暂停跟随），双击或点「实时」恢复滚动窗口
+ */
+const ChartPanel: React.FC<ChartPanelProps> = ({ rules, encoding, feedRef, onClose }) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>(() => {
+    try {
+      return JSON.parse(localStorage.getItem('chart_rule_ids') || '[]');
+    } catch {
+      return [];
+    }
+  });
+  const [windowSec, setWindowSec] = useState(() => Number(localStorage.getItem('chart_window_sec')) || 30);
+  const [isFollowing, setIsFollowing] = useState(true);
+  const [latest, setLatest] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    localStorage.setItem('chart_rule_ids', JSON.stringify(selectedIds));
+  }, [selectedIds]);
+
+  useEffect(() => {
+    localStorage.setItem('chart_window_sec', windowSec.toString());
+  }, [windowSec]);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dataRef = useRef(new Map<string, SeriesData>());
+  const sigsRef = useRef(new Map<string, string>());
+  const seriesRef = useRef<ChartSeries[]>([]);
+  const viewRef = useRef<ChartView>({ xMin: Date.now() - windowSec * 1000, xMax: Date.now() });
+  const followRef = useRef(isFollowing);
+  followRef.current = isFollowing;
+  const windowRef = useRef(windowSec);
+  windowRef.current = windowSec;
+  const dirtyRef = useRef(true);
+
+  // 选中的规则变化：规则内容改变时清空旧数据，更新绘制用的曲线列表
+  const activeRules = rules.filter(r => selectedIds.includes(r.id) && r.enabled !== false);
+  useEffect(() => {
+    const sigs = sigsRef.current;
+    const data = dataRef.current;
+    for (const rule of activeRules) {
+      const sig = ruleSignature(rule, encoding);
+      if (sigs.get(rule.id) === sig) continue;
+      sigs.set(rule.id, sig);
+      data.set(rule.id, { xs: [], ys: [] });
+    }
+    for (const id of [...sigs.keys()]) {
+      if (!activeRules.some(r => r.id === id)) sigs.delete(id);
+    }
+    for (const id of [...data.keys()]) {
+      if (!activeRules.some(r => r.id === id)) data.delete(id);
+    }
+    seriesRef.current = activeRules.map(rule => {
+      const d = data.get(rule.id)!;
+      return { label: ruleLabel(rule), color: seriesColor(rule, rules.indexOf(rule)), xs: d.xs, ys: d.ys };
+    });
+    dirtyRef.current = true;
+  }, [rules, selectedIds, encoding]);
+
+  // 注册数据入口：取日志中选中规则的提取数值（匹配引擎写入日志时已算好）
+  useEffect(() => {
+    feedRef.current = (log: LogEntry) => {
+      const values = log.marks?.values;
+      if (!values || values.length === 0) return;
+      const t = log.timestamp.getTime();
+      for (const { ruleId, value } of values) {
+        const d = dataRef.current.get(ruleId);
+        if (!d) continue;
+        d.xs.push(d.xs.length > 0 ? Math.max(t, d.xs[d.xs.length - 1]) : t);
+        d.ys.push(value);
+        if (d.xs.length > MAX_POINTS) {
+          const drop = d.xs.length - Math.floor(MAX_POINTS * 0.9);
+          d.xs.splice(0, drop);
+          d.ys.splice(0, drop);
+        }
+        dirtyRef.current = true;
+      }
+    };
+    return () => {
+      feedRef.current = null;
+    };
+  }, [feedRef]);
+
+  // 绘制循环：跟随模式下窗口随时间滚动，每帧重绘；暂停时只在数据或视图变化后重绘
+  useEffect(() => {
+    let frame = 0;
+    const tick = () => {
+      const canvas = canvasRef.current;
+      if (canvas && (followRef.current || dirtyRef.current)) {
+        if (followRef.current) {
+          const now = Date.now();
+          viewRef.current = { xMin: now - windowRef.current * 1000, xMax: now };
+        }
+        drawChart(canvas, seriesRef.current, viewRef.current, formatTime);
+        dirtyRef.current = false;
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, []);
+
+  // 图例中的最新值：低频刷新，避免每个数据点都触发渲染
+  useEffect(() => {
+    const timer = window.setInterval(() => {
+      const next: Record<string, number> = {};
+      for (const [id, d] of dataRef.current) {
+        if (d.ys.length > 0) next[id] = d.ys[d.ys.length - 1];
+      }
+      setLatest(next);
+    }, 250);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const pause = () => {
+    setIsFollowing(false);
+    followRef.current = false;
+  };
+
+  const resume = () => {
+    setIsFollowing(true);
+    followRef.current = true;
+    dirtyRef.current = true;
+  };
+
+  // 滚轮：以鼠标位置为中心缩放时间轴
+  const handleWheel = (e: React.WheelEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    pause();
+    const view = viewRef.current;
+    const center = pixelToX(canvas, e.nativeEvent.offsetX, view);
+    const scale = e.deltaY > 0 ? 1.2 : 1 / 1.2;
+    const span = Math.max(10, (view.xMax - view.xMin) * scale);
+    const ratio = (center - view.xMin) / (view.xMax - view.xMin);
+    viewRef.current = { xMin: center - span * ratio, xMax: center + span * (1 - ratio) };
+    dirtyRef.current = true;
+  };
+
+  // 拖拽平移
+  const dragRef = useRef<{ startX: number; view: ChartView } | null>(null);
+  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    e.preventDefault();
+    pause();
+    dragRef.current = { startX: e.clientX, view: viewRef.current };
+    const onMove = (ev: MouseEvent) => {
+      const drag = dragRef.current;
+      const canvas = canvasRef.current;
+      if (!drag || !canvas) return;
+      const shift = ((ev.clientX - drag.startX) / plotWidth(canvas)) * (drag.view.xMax - drag.view.xMin);
+      viewRef.current = { xMin: drag.view.xMin - shift, xMax: drag.view.xMax - shift };
+      dirtyRef.current = true;
+    };
+    const onUp = () => {
+      dragRef.current = null;
+      document.removeEventListener('mousemove', onMove);
+      document.removeEventListener('mouseup', onUp);
+    };
+    document.addEventListener('mousemove', onMove);
+    document.addEventListener('mouseup', onUp);
+  };
+
+  const clearData = () => {
+    for (const d of dataRef.current.values()) {
+      d.xs.length = 0;
+      d.ys.length = 0;
+    }
+    setLatest({});
+    dirtyRef.current = true;
+  };
+
+  // 导出所有曲线的数据点：时间、规则、数值，按时间排序
+  const exportCsv = () => {
+    const rows: { t: number; label: string; v: number }[] = [];
+    for (const rule of activeRules) {
+      const d = dataRef.current.get(rule.id);
+      if (!d) continue;
+      const label = ruleLabel(rule);
+      for (let i = 0; i < d.xs.length; i++) rows.push({ t: d.xs[i], label, v: d.ys[i] });
+    }
+    if (rows.length === 0) return;
+    rows.sort((a, b) => a.t - b.t);
+    const quote = (s: string) => `"${s.replace(/"/g, '""')}"`;
+    const csv = ['timestamp,series,value', ...rows.map(r => `${new Date(r.t).toISOString()},${quote(r.label)},${r.v}`)].join('\n');
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `serial_chart_${Date.now()}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const toggleRule = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+  };
+
+  return (
+    <div className="flex flex-col h-64 shrink-0 mb-2 bg-white border border-gray-200 rounded-lg shadow-sm text-xs select-none">
+      <div className="flex items-center gap-2 px-2 py-1 border-b border-gray-100">
+        <i className="fas fa-chart-line text-blue-500 pl-1"></i>
+        <div className="flex-1 flex items-center gap-1 overflow-x-auto custom-scrollbar min-w-0">
+          {rules.length === 0 && <span className="text-gray-400">在「染色 & 提取」中添加规则后选择要绘制的曲线</span>}
+          {rules.map((rule, i) => {
+            const selected = selectedIds.includes(rule.id);
+            const color = seriesColor(rule, i);
+            return (
+              <button
+                key={rule.id}
+                onClick={() => toggleRule(rule.id)}
+                disabled={rule.enabled === false}
+                title={rule.enabled === false ? '规则已停用' : selected ? '点击隐藏该曲线' : '点击绘制该规则的提取值'}
+                className={`shrink-0 flex items-center gap-1 px-1.5 py-0.5 rounded border text-[10px] font-mono max-w-[180px] ${selected ? 'bg-white border-gray-300 text-gray-700' : 'bg-gray-50 border-transparent text-gray-400'} disabled:opacity-40`}
+              >
+                <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: selected ? color : '#d1d5db' }}></span>
+                <span className="truncate">{ruleLabel(rule)}</span>
+                {selected && latest[rule.id] !== undefined && <span className="text-gray-500">= {latest[rule.id]}</span>}
+              </button>
+            );
+          })}
+        </div>
+        <div className="flex bg-gray-100 p-0.5 rounded shrink-0" title="滚动窗口长度">
+          {WINDOWS.map(w => (
+            <button
+              key={w.value}
+              onClick={() => { setWindowSec(w.value); resume(); }}
+              className={`px-1.5 py-0.5 rounded text-[10px] ${windowSec === w.value ? 'bg-white shadow-sm text-blue-600 font-bold' : 'text-gray-500'}`}
+            >
+              {w.label}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={isFollowing ? pause : resume}
+          className={`shrink-0 px-2 py-0.5 rounded border text-[10px] ${isFollowing ? 'border-gray-300 text-gray-600 hover:bg-gray-50' : 'border-blue-300 bg-blue-50 text-blue-600'}`}
+          title={isFollowing ? '暂停滚动（数据继续记录）' : '回到实时滚动窗口'}
+        >
+          <i className={`fas ${isFollowing ? 'fa-pause' : 'fa-play'} mr-1`}></i>{isFollowing ? '暂停' : '实时'}
+        </button>
+        <button onClick={exportCsv} className="shrink-0 text-gray-400 hover:text-blue-600 px-1" title="导出曲线数据 CSV">
+          <i className="fas fa-file-csv"></i>
+        </button>
+        <button onClick={clearData} className="shrink-0 text-gray-400 hover:text-red-500 px-1" title="清空曲线">
+          <i className="fas fa-trash-alt"></i>
+        </button>
+        <button onClick={onClose} className="shrink-0 text-gray-400 hover:text-gray-600 px-1" title="关闭图表">
+          <i className="fas fa-times"></i>
+        </button>
+      </div>
+      <canvas
+        ref={canvasRef}
+        className="flex-1 w-full min-h-0 cursor-crosshair"
+        onWheel={handleWheel}
+        onMouseDown={handleMouseDown}
+        onDoubleClick={resume}
+        title="滚轮缩放，拖拽平移，双击回到实时"
+      />
+    </div>
+  );
+};
+
+export default ChartPanel;
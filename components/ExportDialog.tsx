@@ -0,0 +1,118 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { LogEntry } from '../types';
+import { ExportDirection, ExportRange, countLogBytes, PCAP_USER_DLT_BASE, PCAP_USER_DLT_COUNT } from '../utils/logExport';
+
+export type RawExportFormat = 'bin' | 'pcapng';
+
+interface ExportDialogProps {
+  format: RawExportFormat;
+  allLogs: LogEntry[];      // 缓冲区内全部日志
+  visibleLogs: LogEntry[];  // 终端当前渲染范围内的日志
+  onExport: (logs: LogEntry[], direction: ExportDirection, linkType: number) => void;
+  onClose: () => void;
+}
+
+const DIRECTIONS: { value: ExportDirection; label: string }[] = [
+  { value: 'both', label: '收发全部' },
+  { value: 'rx', label: '仅 RX' },
+  { value: 'tx', label: '仅 TX' }
+];
+
+const RANGES: { value: ExportRange; label: string; title: string }[] = [
+  { value: 'all', label: '全部缓冲区', title: '导出缓冲区中仍保留的全部数据' },
+  { value: 'visible', label: '当前可见范围', title: '只导出终端当前已加载（上滚加载的部分也算）的数据' }
+];
+
+const formatBytes = (n: number) => n < 1024 ? `${n} B` : n < 1024 * 1024 ? `${(n / 1024).toFixed(1)} KB` : `${(n / 1024 / 1024).toFixed(2)} MB`;
+
+const TITLES: Record<RawExportFormat, string> = {
+  bin: '导出 BIN（原始字节）',
+  pcapng: '导出 PCAPNG（Wireshark）'
+};
+
+/** 原始字节导出选项（BIN / PCAPNG）：按方向、范围选择数据，PCAPNG 另可选链路类型 */
+const ExportDialog: React.FC<ExportDialogProps> = ({ format, allLogs, visibleLogs, onExport, onClose }) => {
+  const [direction, setDirection] = useState<ExportDirection>(() => {
+    const saved = localStorage.getItem('bin_export_direction');
+    return saved === 'rx' || saved === 'tx' ? saved : 'both';
+  });
+  const [range, setRange] = useState<ExportRange>(() => {
+    return localStorage.getItem('bin_export_range') === 'visible' ? 'visible' : 'all';
+  });
+  // Wireshark 中通过 DLT_USER 表把该链路类型绑定到协议解析器
+  const [linkType, setLinkType] = useState(() => {
+    const saved = Number(localStorage.getItem('pcap_link_type'));
+    return saved >= PCAP_USER_DLT_BASE && saved < PCAP_USER_DLT_BASE + PCAP_USER_DLT_COUNT ? saved : PCAP_USER_DLT_BASE;
+  });
+
+  useEffect(() => {
+    localStorage.setItem('bin_export_direction', direction);
+    localStorage.setItem('bin_export_range', range);
+    localStorage.setItem('pcap_link_type', linkType.toString());
+  }, [direction, range, linkType]);
+
+  const logs = range === 'all' ? allLogs : visibleLogs;
+  const byteCount = useMemo(() => countLogBytes(logs, direction), [logs, direction]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-2xl p-4 w-72 space-y-3" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h3 className="text-xs font-bold text-gray-700">{TITLES[format]}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" title="关闭">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+
+        <div className="space-y-1">
+          <div className="text-[10px] text-gray-500">数据方向</div>
+          <div className="flex bg-gray-100 p-0.5 rounded text-[11px]">
+            {DIRECTIONS.map(d => (
+              <button key={d.value} onClick={() => setDirection(d.value)} className={`flex-1 py-1 rounded ${direction === d.value ? 'bg-white shadow-sm font-bold text-blue-600' : 'text-gray-500'}`}>{d.label}</button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <div className="text-[10px] text-gray-500">导出范围</div>
+          <div className="flex bg-gray-100 p-0.5 rounded text-[11px]">
+            {RANGES.map(r => (
+              <button key={r.value} onClick={() => setRange(r.value)} title={r.title} className={`flex-1 py-1 rounded ${range === r.value ? 'bg-white shadow-sm font-bold text-blue-600' : 'text-gray-500'}`}>{r.label}</button>
+            ))}
+          </div>
+        </div>
+
+        {format === 'pcapng' && (
+          <div className="space-y-1">
+            <div className="text-[10px] text-gray-500">链路类型</div>
+            <select
+              value={linkType}
+              onChange={e => setLinkType(Number(e.target.value))}
+              className="w-full px-2 py-1 text-[11px] border border-gray-300 rounded outline-none focus:ring-1 focus:ring-blue-500"
+            >
+              {Array.from({ length: PCAP_USER_DLT_COUNT }, (_, i) => (
+                <option key={i} value={PCAP_USER_DLT_BASE + i}>DLT_USER{i} ({PCAP_USER_DLT_BASE + i})</option>
+              ))}
+            </select>
+            <div className="text-[10px] text-gray-400 leading-relaxed">
+              Wireshark：编辑 → 首选项 → Protocols → DLT_USER 中为该类型指定解析器；方向写入 epb_flags
+            </div>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between border-t border-gray-100 pt-2">
+          <span className="text-[10px] text-gray-400">共 {formatBytes(byteCount)}</span>
+          <button
+            onClick={() => onExport(logs, direction, linkType)}
+            disabled={byteCount === 0}
+            className="px-4 py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded-md text-xs shadow-sm disabled:opacity-30 disabled:cursor-not-allowed"
+          >
+            <i className="fas fa-download mr-1"></i> 导出
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { EnterMode } from '../utils/keymap';
+
+interface InteractiveBarProps {
+  enterMode: EnterMode;
+  onEnterModeChange: (mode: EnterMode) => void;
+  localEcho: boolean;
+  onLocalEchoChange: (echo: boolean) => void;
+  isConnected: boolean;
+  onClose: () => void;
+}
+
+const ENTER_MODES: { value: EnterMode; label: string }[] = [
+  { value: 'cr', label: 'CR (\\r)' },
+  { value: 'lf', label: 'LF (\\n)' },
+  { value: 'crlf', label: 'CRLF (\\r\\n)' }
+];
+
+/** 交互终端设置栏：回车映射、本地回显 */
+const InteractiveBar: React.FC<InteractiveBarProps> = ({
+  enterMode, onEnterModeChange, localEcho, onLocalEchoChange, isConnected, onClose
+}) => (
+  <div className="flex items-center gap-3 px-2 py-1 mb-2 bg-white border border-blue-200 rounded-lg shadow-sm text-xs select-none">
+    <i className="fas fa-keyboard text-blue-500 pl-1"></i>
+    <span className={`flex-1 truncate ${isConnected ? 'text-gray-600' : 'text-gray-400'}`}>
+      {isConnected ? '交互模式：终端获得焦点时，每次按键立即发送（Ctrl+C 等控制键、方向键发送对应控制字符 / 转义序列）' : '交互模式：连接后可在终端中直接输入'}
+    </span>
+    <label className="flex items-center gap-1 text-[10px] text-gray-500 shrink-0">
+      回车发送
+      <select
+        value={enterMode}
+        onChange={e => onEnterModeChange(e.target.value as EnterMode)}
+        className="px-1 py-0.5 border border-gray-300 rounded text-[10px] outline-none"
+      >
+        {ENTER_MODES.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+      </select>
+    </label>
+    <label className="shrink-0 flex items-center text-[10px] text-gray-500 cursor-pointer" title="设备不回显输入时开启：在终端中显示键入的字符">
+      <input type="checkbox" checked={localEcho} onChange={e => onLocalEchoChange(e.target.checked)} className="mr-1 rounded text-blue-600" />
+      本地回显
+    </label>
+    <button onClick={onClose} className="shrink-0 text-gray-400 hover:text-gray-600 px-1" title="退出交互模式">
+      <i className="fas fa-times"></i>
+    </button>
+  </div>
+);
+
+export default InteractiveBar;
@@ -0,0 +1,144 @@
+import React from 'react';
+import { LineFilter } from '../types';
+import { compileLineFilter } from '../utils/lineFilter';
+
+interface LineFilterListProps {
+  filters: LineFilter[];
+  onUpdate: (filters: LineFilter[]) => void;
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  hiddenLineCount: number;
+}
+
+const MODES: { value: LineFilter['mode']; label: string; title: string }[] = [
+  { value: 'text', label: 'Aa', title: '文本' },
+  { value: 'hex', label: 'HEX', title: 'HEX 字节序列（如 AA 55 01）' },
+  { value: 'regex', label: '.*', title: '正则表达式' }
+];
+
+/** 行过滤（grep 模式）：包含项决定显示哪些行，排除项隐藏命中的行，按行而非数据包匹配 */
+const LineFilterList: React.FC<LineFilterListProps> = ({ filters, onUpdate, enabled, onEnabledChange, hiddenLineCount }) => {
+  const addFilter = (action: LineFilter['action']) => {
+    onUpdate([...filters, {
+      id: Math.random().toString(36).substr(2, 9),
+      enabled: true,
+      action,
+      pattern: '',
+      mode: 'text',
+      caseSensitive: false
+    }]);
+  };
+
+  const updateFilter = (id: string, updates: Partial<LineFilter>) => {
+    onUpdate(filters.map(f => f.id === id ? { ...f, ...updates } : f));
+  };
+
+  const removeFilter = (id: string) => {
+    onUpdate(filters.filter(f => f.id !== id));
+  };
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className="px-3 pt-3 flex items-center justify-between text-xs">
+        <label className="flex items-center text-gray-600 cursor-pointer select-none">
+          <input type="checkbox" checked={enabled} onChange={e => onEnabledChange(e.target.checked)} className="mr-2 rounded text-blue-600" />
+          启用行过滤
+        </label>
+        {enabled && hiddenLineCount > 0 && <span className="text-[10px] text-amber-600">已隐藏 {hiddenLineCount} 行</span>}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-2 custom-scrollbar">
+        {filters.length === 0 && (
+          <div className="text-center text-gray-400 text-xs py-8">
+            <i className="fas fa-filter text-2xl opacity-20 mb-2 block"></i>
+            暂无过滤条件：添加「包含」只显示匹配的行，添加「排除」隐藏匹配的行
+          </div>
+        )}
+
+        {filters.map(filter => {
+          const compiled = filter.pattern ? compileLineFilter(filter) : null;
+          const error = typeof compiled === 'string' ? compiled : null;
+          const isInclude = filter.action === 'include';
+          return (
+            <div
+              key={filter.id}
+              className={`p-2 bg-gray-50 rounded-lg border space-y-1.5 ${isInclude ? 'border-green-200' : 'border-red-200'} ${filter.enabled === false || !enabled ? 'opacity-60' : ''}`}
+            >
+              <div className="flex items-center gap-1.5">
+                <input
+                  type="checkbox"
+                  checked={filter.enabled !== false}
+                  onChange={(e) => updateFilter(filter.id, { enabled: e.target.checked })}
+                  title={filter.enabled !== false ? '点击停用该条件' : '点击启用该条件'}
+                  className="w-3.5 h-3.5 accent-blue-600 cursor-pointer shrink-0"
+                />
+                <button
+                  onClick={() => updateFilter(filter.id, { action: isInclude ? 'exclude' : 'include' })}
+                  title="点击切换 包含 / 排除"
+                  className={`shrink-0 px-1.5 py-0.5 rounded text-[9px] font-bold ${isInclude ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-600'}`}
+                >
+                  {isInclude ? '包含' : '排除'}
+                </button>
+                <input
+                  type="text"
+                  value={filter.pattern}
+                  onChange={(e) => updateFilter(filter.id, { pattern: e.target.value })}
+                  placeholder={filter.mode === 'hex' ? 'AA 55 01' : filter.mode === 'regex' ? '正则表达式' : '关键字，如 [WIFI]'}
+                  spellCheck={false}
+                  className={`flex-1 min-w-0 px-1.5 py-1 border rounded text-[10px] font-mono outline-none focus:ring-1 focus:ring-blue-500 ${error ? 'border-red-400' : 'border-gray-300'}`}
+                />
+                <button
+                  onClick={() => removeFilter(filter.id)}
+                  className="text-gray-400 hover:text-red-500 transition-colors shrink-0"
+                >
+                  <i className="fas fa-times text-[10px]"></i>
+                </button>
+              </div>
+              <div className="flex items-center gap-1">
+                <div className="flex bg-gray-200 p-0.5 rounded text-[9px]">
+                  {MODES.map(m => (
+                    <button
+                      key={m.value}
+                      onClick={() => updateFilter(filter.id, { mode: m.value })}
+                      title={m.title}
+                      className={`px-1 py-0.5 rounded font-mono ${filter.mode === m.value ? 'bg-white shadow-sm font-bold text-blue-600' : 'text-gray-500'}`}
+                    >
+                      {m.label}
+                    </button>
+                  ))}
+                </div>
+                {filter.mode !== 'hex' && (
+                  <button
+                    onClick={() => updateFilter(filter.id, { caseSensitive: !filter.caseSensitive })}
+                    title="区分大小写"
+                    className={`px-1 py-0.5 rounded text-[9px] ${filter.caseSensitive ? 'bg-blue-100 text-blue-600 font-bold' : 'text-gray-400 hover:text-gray-600'}`}
+                  >
+                    Cc
+                  </button>
+                )}
+                {error && <span className="text-[9px] text-red-500 truncate" title={error}>{error}</span>}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="p-3 border-t flex gap-2">
+        <button
+          onClick={() => addFilter('include')}
+          className="flex-1 py-2 border-2 border-dashed border-gray-300 rounded-lg text-xs text-gray-500 hover:border-green-400 hover:text-green-600 transition-colors"
+        >
+          <i className="fas fa-plus mr-1"></i>包含
+        </button>
+        <button
+          onClick={() => addFilter('exclude')}
+          className="flex-1 py-2 border-2 border-dashed border-gray-300 rounded-lg text-xs text-gray-500 hover:border-red-400 hover:text-red-500 transition-colors"
+        >
+          <i className="fas fa-minus mr-1"></i>排除
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LineFilterList;
@@ -0,0 +1,233 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LogEntry } from '../types';
+import { createPlotterParser } from '../utils/plotterParser';
+import { ChartSeries, drawChart } from '../utils/chartCanvas';
+import HsvPicker from './HsvPicker';
+
+interface PlotterPanelProps {
+  /** App 在每条 RX 日志写入时调用（在 React 渲染之外推入数据） */
+  feedRef: React.MutableRefObject<((log: LogEntry) => void) | null>;
+  onClose: () => void;
+}
+
+const SAMPLE_WINDOWS = [50, 100, 500, 1000, 5000];
+const TRACE_COLORS = ['#3b82f6', '#ef4444', '#22c55e', '#f59e0b', '#a855f7', '#06b6d4', '#ec4899', '#64748b'];
+const MAX_SAMPLES = 20000; // 每条曲线保留的采样数上限
+
+interface TraceInfo {
+  label: string;
+  color: string;
+  visible: boolean;
+}
+
+/**
+ * 串口绘图器（兼容 Arduino IDE Serial Plotter）：直接从 RX 流按行解析数值，无需规则。
+ * 每个标签自动生成一条曲线，X 轴为采样序号，显示最近 N 个采样
+ */
+const PlotterPanel: React.FC<PlotterPanelProps> = ({ feedRef, onClose }) => {
+  const [sampleWindow, setSampleWindow] = useState(() => Number(localStorage.getItem('plotter_sample_window')) || 500);
+  // 曲线颜色按标签持久化，下次出现同名标签时沿用
+  const [savedColors, setSavedColors] = useState<Record<string, string>>(() => {
+    try {
+      return JSON.parse(localStorage.getItem('plotter_colors') || '{}');
+    } catch {
+      return {};
+    }
+  });
+  const [traces, setTraces] = useState<TraceInfo[]>([]);
+  const [pickerLabel, setPickerLabel] = useState<string | null>(null);
+
+  useEffect(() => {
+    localStorage.setItem('plotter_sample_window', sampleWindow.toString());
+  }, [sampleWindow]);
+
+  useEffect(() => {
+    localStorage.setItem('plotter_colors', JSON.stringify(savedColors));
+  }, [savedColors]);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const parserRef = useRef(createPlotterParser());
+  const seriesRef = useRef<ChartSeries[]>([]);
+  const sampleCountRef = useRef(0);
+  const dirtyRef = useRef(true);
+  const windowRef = useRef(sampleWindow);
+  windowRef.current = sampleWindow;
+  const savedColorsRef = useRef(savedColors);
+  savedColorsRef.current = savedColors;
+  const newTraceRef = useRef(false);
+
+  // 注册数据入口：按行解析，新标签自动新建曲线
+  useEffect(() => {
+    feedRef.current = (log: LogEntry) => {
+      if (log.type !== 'rx') return;
+      for (const row of parserRef.current.push(log.text)) {
+        const x = sampleCountRef.current++;
+        for (const { label, value } of row) {
+          let series = seriesRef.current.find(s => s.label === label);
+          if (!series) {
+            const color = savedColorsRef.current[label] ?? TRACE_COLORS[seriesRef.current.length % TRACE_COLORS.length];
+            series = { label, color, xs: [], ys: [], visible: true };
+            seriesRef.current = [...seriesRef.current, series];
+            newTraceRef.current = true;
+          }
+          series.xs.push(x);
+          series.ys.push(value);
+          if (series.xs.length > MAX_SAMPLES) {
+            series.xs.splice(0, series.xs.length - MAX_SAMPLES);
+            series.ys.splice(0, series.ys.length - MAX_SAMPLES);
+          }
+        }
+        dirtyRef.current = true;
+      }
+    };
+    return () => {
+      feedRef.current = null;
+    };
+  }, [feedRef]);
+
+  // 绘制循环：有新数据时重绘；出现新曲线时同步到图例
+  useEffect(() => {
+    let frame = 0;
+    const tick = () => {
+      const canvas = canvasRef.current;
+      if (newTraceRef.current) {
+        newTraceRef.current = false;
+        setTraces(seriesRef.current.map(s => ({ label: s.label, color: s.color, visible: s.visible !== false })));
+      }
+      if (canvas && dirtyRef.current) {
+        const xMax = Math.max(sampleCountRef.current - 1, windowRef.current - 1);
+        drawChart(canvas, seriesRef.current, { xMin: xMax - windowRef.current + 1, xMax }, x => String(Math.round(x)));
+        dirtyRef.current = false;
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    // 窗口尺寸变化时重绘
+    const onResize = () => { dirtyRef.current = true; };
+    window.addEventListener('resize', onResize);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('resize', onResize);
+    };
+  }, []);
+
+  const updateTrace = (label: string, updates: Partial<TraceInfo>) => {
+    seriesRef.current = seriesRef.current.map(s => s.label === label ? { ...s, ...updates } : s);
+    setTraces(prev => prev.map(t => t.label === label ? { ...t, ...updates } : t));
+    if (updates.color) setSavedColors(prev => ({ ...prev, [label]: updates.color! }));
+    dirtyRef.current = true;
+  };
+
+  const clearTraces = () => {
+    seriesRef.current = [];
+    sampleCountRef.current = 0;
+    parserRef.current.reset();
+    setTraces([]);
+    dirtyRef.current = true;
+  };
+
+  // PNG 快照：画布背景透明，先铺白底再导出
+  const takeSnapshot = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const snapshot = document.createElement('canvas');
+    snapshot.width = canvas.width;
+    snapshot.height = canvas.height;
+    const ctx = snapshot.getContext('2d');
+    if (!ctx) return;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, snapshot.width, snapshot.height);
+    ctx.drawImage(canvas, 0, 0);
+    snapshot.toBlob(blob => {
+      if (!blob) return;
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `serial_plot_${Date.now()}.png`;
+      a.click();
+      URL.revokeObjectURL(url);
+    }, 'image/png');
+  };
+
+  const pickerTrace = pickerLabel !== null ? traces.find(t => t.label === pickerLabel) : null;
+
+  return (
+    <div className="flex flex-col h-64 shrink-0 mb-2 bg-white border border-gray-200 rounded-lg shadow-sm text-xs select-none">
+      <div className="flex items-center gap-2 px-2 py-1 border-b border-gray-100">
+        <i className="fas fa-wave-square text-blue-500 pl-1"></i>
+        <div className="flex-1 flex items-center gap-1 overflow-x-auto custom-scrollbar min-w-0">
+          {traces.length === 0 && (
+            <span className="text-gray-400 truncate">等待绘图数据：每行 label1:val1,label2:val2 或以空格 / 逗号分隔的数值</span>
+          )}
+          {traces.map(trace => (
+            <div
+              key={trace.label}
+              className={`shrink-0 flex items-center gap-1 px-1.5 py-0.5 rounded border text-[10px] font-mono ${trace.visible ? 'bg-white border-gray-300 text-gray-700' : 'bg-gray-50 border-transparent text-gray-400'}`}
+            >
+              <button
+                onClick={() => setPickerLabel(trace.label)}
+                className="w-2.5 h-2.5 rounded-full shrink-0 border border-black/10"
+                style={{ backgroundColor: trace.color, opacity: trace.visible ? 1 : 0.35 }}
+                title="选择曲线颜色"
+              />
+              <button onClick={() => updateTrace(trace.label, { visible: !trace.visible })} title={trace.visible ? '点击隐藏该曲线' : '点击显示该曲线'}>
+                {trace.label}
+              </button>
+            </div>
+          ))}
+        </div>
+        <label className="flex items-center gap-1 text-[10px] text-gray-500 shrink-0" title="显示最近的采样数">
+          采样
+          <select
+            value={sampleWindow}
+            onChange={e => { setSampleWindow(Number(e.target.value)); dirtyRef.current = true; }}
+            className="px-1 py-0.5 border border-gray-300 rounded text-[10px] outline-none"
+          >
+            {SAMPLE_WINDOWS.map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+        <button onClick={takeSnapshot} className="shrink-0 text-gray-400 hover:text-blue-600 px-1" title="保存 PNG 快照">
+          <i className="fas fa-camera"></i>
+        </button>
+        <button onClick={clearTraces} className="shrink-0 text-gray-400 hover:text-red-500 px-1" title="清空曲线">
+          <i className="fas fa-trash-alt"></i>
+        </button>
+        <button onClick={onClose} className="shrink-0 text-gray-400 hover:text-gray-600 px-1" title="关闭绘图器">
+          <i className="fas fa-times"></i>
+        </button>
+      </div>
+      <canvas ref={canvasRef} className="flex-1 w-full min-h-0" />
+
+      {/* 曲线颜色选择模态框 */}
+      {pickerTrace && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/30"
+          onClick={() => setPickerLabel(null)}
+        >
+          <div className="bg-white rounded-xl shadow-2xl p-4 w-72" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-xs font-bold text-gray-700 truncate">曲线颜色：{pickerTrace.label}</h3>
+              <button onClick={() => setPickerLabel(null)} className="text-gray-400 hover:text-gray-600" title="关闭">
+                <i className="fas fa-times"></i>
+              </button>
+            </div>
+            <div className="flex flex-wrap gap-1.5 mb-3">
+              {TRACE_COLORS.map(c => (
+                <button
+                  key={c}
+                  onClick={() => updateTrace(pickerTrace.label, { color: c })}
+                  title={c}
+                  className={`w-7 h-7 rounded-full shrink-0 cursor-pointer transition-transform hover:scale-110 ${pickerTrace.color.toLowerCase() === c ? 'ring-2 ring-offset-1 ring-gray-500' : 'border border-black/10'}`}
+                  style={{ backgroundColor: c }}
+                />
+              ))}
+            </div>
+            <HsvPicker color={pickerTrace.color} onChange={(hex) => updateTrace(pickerTrace.label, { color: hex })} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlotterPanel;
@@ -1,6 +1,6 @@
 
 import React, { useRef, useState, useEffect } from 'react';
-import { QuickSendItem, DisplayMode } from '../types';
+import { QuickSendItem, DisplayMode, TextEncoding } from '../types';
 import { stringToUint8Array, uint8ArrayToHex, hexToUint8Array, uint8ArrayToString } from '../utils/converters';
 
 interface QuickSendListProps {
@@ -12,9 +12,10 @@ interface QuickSendListProps {
   isCollapsed: boolean;
   onToggleCollapse: () => void;
   hideHeader?: boolean;
+  encoding?: TextEncoding;  // 切换 Text / HEX 时内容转换使用的字符编码
 }
 
-const QuickSendList: React.FC<QuickSendListProps> = ({ items, onSend, onUpdate, isConnected, isReconnecting = false, isCollapsed, onToggleCollapse, hideHeader = false }) => {
+const QuickSendList: React.FC<QuickSendListProps> = ({ items, onSend, onUpdate, isConnected, isReconnecting = false, isCollapsed, onToggleCollapse, hideHeader = false, encoding = TextEncoding.UTF8 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const addItem = () => {
@@ -43,9 +44,9 @@ const QuickSendList: React.FC<QuickSendListProps> = ({ items, onSend, onUpdate,
     let content = item.content;
     try {
       if (item.mode === DisplayMode.Text && newMode === DisplayMode.Hex) {
-        content = uint8ArrayToHex(stringToUint8Array(item.content));
+        content = uint8ArrayToHex(stringToUint8Array(item.content, encoding));
       } else if (item.mode === DisplayMode.Hex && newMode === DisplayMode.Text) {
-        content = uint8ArrayToString(hexToUint8Array(item.content));
+        content = uint8ArrayToString(hexToUint8Array(item.content), encoding);
       }
     } catch {
       // 非法 HEX 等转换失败时保留原内容，仅切换模式
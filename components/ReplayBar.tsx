@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { ReplayState, ReplaySpeed } from '../utils/replay';
+
+interface ReplayBarProps {
+  fileName: string;
+  state: ReplayState;
+  onPlay: () => void;
+  onPause: () => void;
+  onSpeedChange: (speed: ReplaySpeed) => void;
+  onSeek: (position: number) => void;
+  onClose: () => void;
+}
+
+const SPEEDS: { value: ReplaySpeed; label: string }[] = [
+  { value: 1, label: '1x' },
+  { value: 10, label: '10x' },
+  { value: 'max', label: 'MAX' }
+];
+
+/** 抓包回放控制条：播放 / 暂停、倍速、拖动定位 */
+const ReplayBar: React.FC<ReplayBarProps> = ({ fileName, state, onPlay, onPause, onSpeedChange, onSeek, onClose }) => {
+  // 拖动滑块时只更新预览位置，松开后再定位（避免拖动过程中反复重放）
+  const [dragPosition, setDragPosition] = useState<number | null>(null);
+  const shownPosition = dragPosition ?? state.position;
+  const isFinished = state.position >= state.total;
+
+  const commitSeek = () => {
+    if (dragPosition !== null) onSeek(dragPosition);
+    setDragPosition(null);
+  };
+
+  return (
+    <div className="flex items-center gap-3 px-3 py-1.5 mb-2 bg-indigo-50 border border-indigo-200 rounded-lg text-xs text-indigo-700 select-none">
+      <span className="flex items-center gap-1 min-w-0 max-w-[200px]" title={fileName}>
+        <i className="fas fa-film shrink-0"></i>
+        <span className="truncate">{fileName}</span>
+      </span>
+
+      <button
+        onClick={state.playing ? onPause : isFinished ? () => { onSeek(0); onPlay(); } : onPlay}
+        className="w-7 h-7 shrink-0 rounded-full bg-indigo-600 hover:bg-indigo-700 text-white flex items-center justify-center"
+        title={state.playing ? '暂停' : isFinished ? '从头回放' : '播放'}
+      >
+        <i className={`fas ${state.playing ? 'fa-pause' : isFinished ? 'fa-redo' : 'fa-play'} text-[10px]`}></i>
+      </button>
+
+      <div className="flex bg-white border border-indigo-200 p-0.5 rounded shrink-0">
+        {SPEEDS.map(s => (
+          <button
+            key={s.label}
+            onClick={() => onSpeedChange(s.value)}
+            className={`px-2 py-0.5 rounded text-[10px] ${state.speed === s.value ? 'bg-indigo-600 text-white font-bold' : 'text-indigo-500'}`}
+          >
+            {s.label}
+          </button>
+        ))}
+      </div>
+
+      <input
+        type="range"
+        min={0}
+        max={state.total}
+        value={shownPosition}
+        onChange={e => setDragPosition(Number(e.target.value))}
+        onMouseUp={commitSeek}
+        onTouchEnd={commitSeek}
+        onKeyUp={commitSeek}
+        className="flex-1 min-w-0 accent-indigo-600"
+        title="拖动定位"
+      />
+      <span className="font-mono text-[10px] shrink-0">{shownPosition} / {state.total}</span>
+
+      <button onClick={onClose} className="shrink-0 text-indigo-400 hover:text-indigo-700" title="结束回放（保留已载入的数据）">
+        <i className="fas fa-times"></i>
+      </button>
+    </div>
+  );
+};
+
+export default ReplayBar;
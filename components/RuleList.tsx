@@ -1,7 +1,13 @@
 import React, { useMemo, useRef, useState, useEffect } from 'react';
-import { Rule, DisplayMode, LogEntry } from '../types';
+import { Rule, RuleAction, RuleAlert, RuleGroup, DisplayMode, LogEntry, TextEncoding } from '../types';
 import { hexToUint8Array, uint8ArrayToString, uint8ArrayToHex, stringToUint8Array } from '../utils/converters';
 import HsvPicker from './HsvPicker';
+import { compileRuleRegExp, isRegexRule } from '../utils/ruleRegex';
+import { resolveMarks } from '../utils/ruleEngine';
+import { hasActiveAction, hasActiveAlert } from '../utils/ruleActions';
+import { requestNotificationPermission } from '../utils/alerts';
+import { RuleStats } from '../utils/ruleStats';
+import { applyRuleGroups, exportRuleGroup, groupSections, importIntoGroup, moveRuleTo, parseRuleGroup, ParsedRuleGroup } from '../utils/ruleGroups';
 
 /** 预置色板（多巴胺彩色 + 黑/白，参考 Tailwind 色系）：点击设为文字/背景色 */
 const PRESET_COLORS = [
@@ -12,111 +18,62 @@ const PRESET_COLORS = [
 interface RuleListProps {
   rules: Rule[];
   onUpdate: (rules: Rule[]) => void;
+  groups: RuleGroup[];
+  onUpdateGroups: (groups: RuleGroup[]) => void;
   logs: LogEntry[];
+  encoding?: TextEncoding;
+  alertCounts?: Record<string, number>;     // 本次会话各规则的告警次数
+  onResetAlertCount?: (ruleId: string) => void;
+  stats?: Record<string, RuleStats>;        // 整个数据流上的累计命中统计（增量更新）
+  onResetStats?: (ruleId: string) => void;
 }
 
+const formatTime = (d: Date) =>
+  d.toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' });
+const formatStat = (v: number) => String(Number(v.toPrecision(6)));
+
+/** 告警方式选项 */
+const ALERT_OPTIONS: { key: 'sound' | 'notify' | 'flashTitle' | 'pause'; label: string; title: string }[] = [
+  { key: 'sound', label: '提示音', title: '命中时播放提示音' },
+  { key: 'notify', label: '桌面通知', title: '命中时弹出浏览器通知（显示匹配内容），首次勾选需授权' },
+  { key: 'flashTitle', label: '标题闪烁', title: '页面不在前台时闪烁标签页标题' },
+  { key: 'pause', label: '暂停记录', title: '命中后暂停串口数据记录，保留故障前后的现场' }
+];
+
 interface MatchResult {
   text: string;
   timestamp: Date;
 }
 
-/** 将 key 转换为可搜索文本（Hex 模式先转换） */
-function keyToText(key: string, mode: DisplayMode): string {
-  if (!key) return '';
-  if (mode === DisplayMode.Hex) {
-    try {
-      const bytes = hexToUint8Array(key);
-      return uint8ArrayToString(bytes);
-    } catch { return ''; }
-  }
-  return key;
-}
-
-/** 查找最后一次匹配：区间模式（起始..结束）或关键词模式（仅起始） */
-function extractLastMatch(
-  text: string,
-  getTimestamp: (posInTrimmed: number) => Date | null,
-  leftKey: string,
-  leftMode: DisplayMode,
-  rightKey: string,
-  rightMode: DisplayMode
-): MatchResult | null {
-  const leftText = keyToText(leftKey, leftMode);
-  if (!leftText) return null;
-  const rightText = rightKey ? keyToText(rightKey, rightMode) : '';
-
-  let lastMatch: MatchResult | null = null;
-  let searchFrom = 0;
-
-  if (leftText && rightText) {
-    // 区间模式：每个 left 配对它最近的 right，取最后一段完整匹配
-    while (searchFrom < text.length) {
-      const leftIdx = text.indexOf(leftText, searchFrom);
-      if (leftIdx === -1) break;
-      const rightIdx = text.indexOf(rightText, leftIdx + leftText.length);
-      if (rightIdx === -1) break;
-      const endPos = rightIdx + rightText.length - 1;
-      lastMatch = {
-        text: text.slice(leftIdx, rightIdx + rightText.length),
-        timestamp: getTimestamp(endPos) ?? new Date()
-      };
-      searchFrom = rightIdx + rightText.length;
-    }
-  } else {
-    // 关键词模式：仅匹配起始字段
-    while (searchFrom < text.length) {
-      const idx = text.indexOf(leftText, searchFrom);
-      if (idx === -1) break;
-      const endPos = idx + leftText.length - 1;
-      lastMatch = {
-        text: leftText,
-        timestamp: getTimestamp(endPos) ?? new Date()
-      };
-      searchFrom = idx + leftText.length;
-    }
-  }
-
-  return lastMatch;
-}
-
-const RuleList: React.FC<RuleListProps> = ({ rules, onUpdate, logs }) => {
-  // 拼接所有 RX/TX 日志文本（只取最近 1KB）+ 构建位置→时间戳映射
-  const scanData = useMemo(() => {
-    const filtered = logs.filter(l => l.type === 'rx' || l.type === 'tx');
-    if (filtered.length === 0) {
-      return {
-        text: '',
-        hasData: false,
-        getTimestamp: (_pos: number) => null as Date | null
-      };
-    }
-
-    const parts: string[] = [];
-    const offsets: { upTo: number; ts: Date }[] = [];
-    let total = 0;
-    for (const log of filtered) {
-      parts.push(log.text);
-      total += log.text.length;
-      offsets.push({ upTo: total, ts: log.timestamp });
-    }
-
-    const full = parts.join('');
-    const SCAN_WINDOW = 5 * 1024; // 只扫描最近 5KB
-    const trimAmount = full.length > SCAN_WINDOW ? full.length - SCAN_WINDOW : 0;
-    const text = trimAmount > 0 ? full.slice(trimAmount) : full;
-
-    const getTimestamp = (posInTrimmed: number): Date | null => {
-      const posInFull = posInTrimmed + trimAmount;
-      for (let i = 0; i < offsets.length; i++) {
-        if (offsets[i].upTo > posInFull) return offsets[i].ts;
+const RuleList: React.FC<RuleListProps> = ({ rules, onUpdate, groups, onUpdateGroups, logs, encoding = TextEncoding.UTF8, alertCounts = {}, onResetAlertCount, stats = {}, onResetStats }) => {
+  // 实际生效的规则（停用分组内的规则视为停用），与终端染色使用的一致
+  const activeRules = useMemo(() => applyRuleGroups(rules, groups), [rules, groups]);
+  // 按分组分段显示（未分组在前），规则数组本身也保持这一顺序
+  const sections = useMemo(() => groupSections(rules, groups), [rules, groups]);
+  const activeById = useMemo(() => new Map(activeRules.map(r => [r.id, r])), [activeRules]);
+
+  // 每条规则最近一次提取结果：直接读取写入日志时算好的匹配结果，从最新日志往前找（暂定的匹配等下一包确定后再显示）
+  const latestHits = useMemo(() => {
+    const marks = resolveMarks(logs, activeRules, encoding);
+    const wanted = activeRules.filter(r => r.enabled !== false).length;
+    const latest: Record<string, MatchResult> = {};
+    let found = 0;
+    for (let li = logs.length - 1; li >= 0 && found < wanted; li--) {
+      const hits = marks[li]?.hits;
+      if (!hits) continue;
+      for (let hi = hits.length - 1; hi >= 0; hi--) {
+        if (hits[hi].tentative || latest[hits[hi].ruleId]) continue;
+        latest[hits[hi].ruleId] = { text: hits[hi].text, timestamp: logs[li].timestamp };
+        found++;
       }
-      return null;
+    }
+    return {
+      latest,
+      hasData: logs.some(l => l.type === 'rx' || l.type === 'tx')
     };
+  }, [logs, activeRules, encoding]);
 
-    return { text, hasData: true, getTimestamp };
-  }, [logs]);
-
-  // 每条规则最近一次命中的锁存（匹配结果不因新数据挤出扫描窗口而丢失）
+  // 每条规则最近一次命中的锁存（匹配结果不因所在日志被缓冲区淘汰而丢失）
   const latchedRef = useRef<Record<string, MatchResult>>({});
   // 记录每条规则上次的区间字段签名，字段被编辑时清除旧锁存
   const ruleSigRef = useRef<Record<string, string>>({});
@@ -126,32 +83,29 @@ const RuleList: React.FC<RuleListProps> = ({ rules, onUpdate, logs }) => {
     const latched = latchedRef.current;
     const sigs = ruleSigRef.current;
 
-    const results = rules.map(rule => {
+    const results = activeRules.map(rule => {
       if (rule.enabled === false) {
         // 停用的规则：清除锁存，不参与提取
         delete latched[rule.id];
         delete sigs[rule.id];
         return { ruleId: rule.id, match: null };
       }
-      const sig = `${rule.leftKeyMode}|${rule.leftKey}|${rule.rightKeyMode}|${rule.rightKey}`;
+      const sig = isRegexRule(rule)
+        ? `regex|${rule.pattern}|${rule.flags}|${rule.group}`
+        : `${rule.leftKeyMode}|${rule.leftKey}|${rule.rightKeyMode}|${rule.rightKey}`;
       if (sigs[rule.id] !== sig) {
         delete latched[rule.id]; // 规则字段变化 → 旧锁存失效
         sigs[rule.id] = sig;
       }
 
-      const current = extractLastMatch(
-        scanData.text,
-        scanData.getTimestamp,
-        rule.leftKey, rule.leftKeyMode,
-        rule.rightKey, rule.rightKeyMode
-      );
+      const current = latestHits.latest[rule.id] ?? null;
 
       if (current) {
         latched[rule.id] = current; // 命中 → 更新并锁存
-      } else if (!scanData.hasData) {
+      } else if (!latestHits.hasData) {
         delete latched[rule.id]; // 日志被清空 → 清除锁存
       }
-      // 未命中但数据仍在（如匹配文本被挤出1KB窗口）→ 保留上次锁存
+      // 未命中但数据仍在（如匹配所在的日志被缓冲区淘汰）→ 保留上次锁存
 
       return { ruleId: rule.id, match: latched[rule.id] ?? null };
     });
@@ -165,57 +119,60 @@ const RuleList: React.FC<RuleListProps> = ({ rules, onUpdate, logs }) => {
     }
 
     return results;
-  }, [rules, scanData]);
+  }, [activeRules, latestHits]);
 
-  // 拖拽排序（调整优先级：越靠下优先级越高，后定义的规则覆盖前面的）
+  // 拖拽排序（调整优先级：越靠下优先级越高，后定义的规则覆盖前面的），可拖入其他分组
   const listRef = useRef<HTMLDivElement>(null);
-  const dragIndexRef = useRef<number | null>(null);
-  const [draggingIndex, setDraggingIndex] = useState<number | null>(null);
+  const dragIdRef = useRef<string | null>(null);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
   // 颜色选择模态框状态：正在编辑的规则 + 目标（文字色/背景色）
   const [pickerState, setPickerState] = useState<{ ruleId: string; target: 'color' | 'bgColor' } | null>(null);
   // 用 ref 保存最新值，避免 mousemove 监听器重复注册
   const rulesRef = useRef(rules);
   rulesRef.current = rules;
+  const groupsRef = useRef(groups);
+  groupsRef.current = groups;
   const onUpdateRef = useRef(onUpdate);
   onUpdateRef.current = onUpdate;
 
-  const onHandleMouseDown = (e: React.MouseEvent, index: number) => {
+  const onHandleMouseDown = (e: React.MouseEvent, id: string) => {
     e.preventDefault(); // 防止拖拽时选中文本
-    dragIndexRef.current = index;
-    setDraggingIndex(index);
+    dragIdRef.current = id;
+    setDraggingId(id);
     document.body.style.userSelect = 'none';
   };
 
   useEffect(() => {
     const onMouseMove = (e: MouseEvent) => {
-      const from = dragIndexRef.current;
-      if (from === null) return;
+      const id = dragIdRef.current;
+      if (id === null) return;
       const list = listRef.current;
       if (!list) return;
-      const items = Array.from(list.querySelectorAll('[data-rule-id]')) as HTMLElement[];
-      let to = from;
+      // 目标分组：指针所在（或其上方最近）的分组段；段内位置不计被拖动的卡片自身
+      const sectionEls = Array.from(list.querySelectorAll('[data-section-id]')) as HTMLElement[];
+      let sectionEl = sectionEls[0];
+      for (const el of sectionEls) {
+        if (e.clientY >= el.getBoundingClientRect().top) sectionEl = el;
+      }
+      if (!sectionEl) return;
+      const items = (Array.from(sectionEl.querySelectorAll('[data-rule-id]')) as HTMLElement[])
+        .filter(el => el.dataset.ruleId !== id);
+      let index = items.length;
       for (let i = 0; i < items.length; i++) {
         const rect = items[i].getBoundingClientRect();
         if (e.clientY < rect.top + rect.height / 2) {
-          to = i;
+          index = i;
           break;
         }
-        to = i + 1;
-      }
-      to = Math.max(0, Math.min(to, rulesRef.current.length - 1));
-      if (to !== from) {
-        const next = [...rulesRef.current];
-        const [moved] = next.splice(from, 1);
-        next.splice(to, 0, moved);
-        onUpdateRef.current(next);
-        dragIndexRef.current = to;
-        setDraggingIndex(to); // 高亮跟随拖动的卡片
       }
+      const prev = rulesRef.current;
+      const next = moveRuleTo(prev, groupsRef.current, id, sectionEl.dataset.sectionId ?? '', index);
+      if (next.some((r, i) => r !== prev[i])) onUpdateRef.current(next);
     };
     const onMouseUp = () => {
-      if (dragIndexRef.current !== null) {
-        dragIndexRef.current = null;
-        setDraggingIndex(null);
+      if (dragIdRef.current !== null) {
+        dragIdRef.current = null;
+        setDraggingId(null);
         document.body.style.userSelect = '';
       }
     };
@@ -227,7 +184,7 @@ const RuleList: React.FC<RuleListProps> = ({ rules, onUpdate, logs }) => {
     };
   }, []);
 
-  const addRule = () => {
+  const addRule = (groupId = '') => {
     const newRule: Rule = {
       id: Math.random().toString(36).substr(2, 9),
       enabled: true,
@@ -239,7 +196,8 @@ const RuleList: React.FC<RuleListProps> = ({ rules, onUpdate, logs }) => {
       rightKeyMode: DisplayMode.Text,
       displayMode: DisplayMode.Text
     };
-    onUpdate([...rules, newRule]);
+    // 放到所在分组的末尾
+    onUpdate(moveRuleTo([...rules, newRule], groups, newRule.id, groupId, rules.length));
   };
 
   const removeRule = (id: string) => {
@@ -250,6 +208,68 @@ const RuleList: React.FC<RuleListProps> = ({ rules, onUpdate, logs }) => {
     onUpdate(rules.map(r => r.id === id ? { ...r, ...updates } : r));
   };
 
+  // 分组：新建 / 改名 / 整组开关 / 折叠 / 删除（组内规则移到未分组）
+  const addGroup = () => {
+    onUpdateGroups([...groups, { id: Math.random().toString(36).substr(2, 9), name: `分组 ${groups.length + 1}`, enabled: true }]);
+  };
+
+  const updateGroup = (id: string, updates: Partial<RuleGroup>) => {
+    onUpdateGroups(groups.map(g => g.id === id ? { ...g, ...updates } : g));
+  };
+
+  const removeGroup = (id: string) => {
+    onUpdateGroups(groups.filter(g => g.id !== id));
+    onUpdate(rules.map(r => r.groupId === id ? { ...r, groupId: undefined } : r));
+  };
+
+  // 单个分组导出为 JSON（与侧边栏的完整配置导出相互独立）
+  const exportGroup = (group: RuleGroup) => {
+    const blob = new Blob([exportRuleGroup(group, rules)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `serial_rule_group_${group.name.replace(/[\\/:*?"<>|\s]+/g, '_')}_${new Date().getTime()}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // 导入分组：同名分组已存在时询问合并还是替换，否则新建分组
+  const groupFileRef = useRef<HTMLInputElement>(null);
+  const [pendingImport, setPendingImport] = useState<{ group: RuleGroup; parsed: ParsedRuleGroup } | null>(null);
+  const handleGroupImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const parsed = parseRuleGroup(event.target?.result as string, file.name.replace(/\.json$/i, ''));
+      if (typeof parsed === 'string') {
+        alert(`无效的规则分组文件：${parsed}`);
+        return;
+      }
+      if (parsed.skipped.length > 0) {
+        alert(`已跳过 ${parsed.skipped.length} 条无效规则：\n${parsed.skipped.slice(0, 10).join('\n')}`);
+      }
+      const existing = groups.find(g => g.name === parsed.name);
+      if (existing) {
+        setPendingImport({ group: existing, parsed });
+        return;
+      }
+      const group: RuleGroup = { id: Math.random().toString(36).substr(2, 9), name: parsed.name, enabled: parsed.enabled };
+      const nextGroups = [...groups, group];
+      onUpdateGroups(nextGroups);
+      onUpdate(importIntoGroup(rules, nextGroups, group.id, parsed.rules, false, encoding));
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+  const applyPendingImport = (replace: boolean) => {
+    if (!pendingImport) return;
+    const { group, parsed } = pendingImport;
+    onUpdate(importIntoGroup(rules, groups, group.id, parsed.rules, replace, encoding));
+    if (replace) updateGroup(group.id, { enabled: parsed.enabled });
+    setPendingImport(null);
+  };
+
   // 切换起始/结束字段的 T/H 模式时自动转换内容（HEX 用空格分隔）
   const changeKeyMode = (
     rule: Rule,
@@ -261,9 +281,9 @@ const RuleList: React.FC<RuleListProps> = ({ rules, onUpdate, logs }) => {
     let key = rule[field];
     try {
       if (rule[modeField] === DisplayMode.Text && newMode === DisplayMode.Hex) {
-        key = uint8ArrayToHex(stringToUint8Array(rule[field]));
+        key = uint8ArrayToHex(stringToUint8Array(rule[field], encoding));
       } else if (rule[modeField] === DisplayMode.Hex && newMode === DisplayMode.Text) {
-        key = uint8ArrayToString(hexToUint8Array(rule[field]));
+        key = uint8ArrayToString(hexToUint8Array(rule[field]), encoding);
       }
     } catch {
       // 非法 HEX 等转换失败时保留原内容，仅切换模式
@@ -271,6 +291,41 @@ const RuleList: React.FC<RuleListProps> = ({ rules, onUpdate, logs }) => {
     updateRule(rule.id, { [modeField]: newMode, [field]: key } as Partial<Rule>);
   };
 
+  // 自动响应：展开编辑的规则
+  const [actionOpen, setActionOpen] = useState<Record<string, boolean>>({});
+  const updateAction = (rule: Rule, updates: Partial<RuleAction>) => {
+    updateRule(rule.id, { action: { payload: '', payloadMode: DisplayMode.Text, ...rule.action, ...updates } });
+  };
+  // 切换发送内容的 T/H 模式时同样自动转换
+  const changeActionMode = (rule: Rule, newMode: DisplayMode) => {
+    const action = rule.action;
+    if (!action || action.payloadMode === newMode) {
+      updateAction(rule, { payloadMode: newMode });
+      return;
+    }
+    let payload = action.payload;
+    try {
+      payload = newMode === DisplayMode.Hex
+        ? uint8ArrayToHex(stringToUint8Array(action.payload, encoding))
+        : uint8ArrayToString(hexToUint8Array(action.payload), encoding);
+    } catch {
+      // 转换失败时保留原内容
+    }
+    updateAction(rule, { payloadMode: newMode, payload });
+  };
+
+  // 告警：展开编辑的规则
+  const [alertOpen, setAlertOpen] = useState<Record<string, boolean>>({});
+  const updateAlert = (rule: Rule, updates: Partial<RuleAlert>) => {
+    updateRule(rule.id, { alert: { ...rule.alert, ...updates } });
+  };
+  // 勾选桌面通知时顺带申请权限（必须在用户操作中发起）
+  const [notifyDenied, setNotifyDenied] = useState(false);
+  const toggleAlertOption = async (rule: Rule, key: typeof ALERT_OPTIONS[number]['key'], checked: boolean) => {
+    updateAlert(rule, { [key]: checked });
+    if (key === 'notify' && checked) setNotifyDenied(!(await requestNotificationPermission()));
+  };
+
   const ModeToggle = ({ label, mode, onChange }: { label?: string; mode: DisplayMode; onChange: (m: DisplayMode) => void }) => (
     <div className="flex items-center gap-0.5 shrink-0">
       {label && <span className="text-[9px] text-gray-400 shrink-0">{label}:</span>}
@@ -286,8 +341,7 @@ const RuleList: React.FC<RuleListProps> = ({ rules, onUpdate, logs }) => {
     if (text === null) return '';
     if (mode === DisplayMode.Hex) {
       try {
-        const bytes = new TextEncoder().encode(text);
-        return uint8ArrayToHex(bytes);
+        return uint8ArrayToHex(stringToUint8Array(text, encoding));
       } catch { return text; }
     }
     // 文本模式：镜像终端文本列渲染。textarea 中独立 \r 也算一次换行，而终端 div 里 \r 不换行，
@@ -349,116 +403,378 @@ const RuleList: React.FC<RuleListProps> = ({ rules, onUpdate, logs }) => {
     swapRuleColors(ruleId);
   };
 
-  return (
-    <div className="flex-1 flex flex-col min-h-0">
-      <div ref={listRef} className="flex-1 overflow-y-auto p-3 space-y-2 custom-scrollbar">
-        {rules.length === 0 && (
-          <div className="text-center text-gray-400 text-xs py-8">
-            <i className="fas fa-palette text-2xl opacity-20 mb-2 block"></i>
-            暂无规则，点击下方按钮添加
+  // 单条规则卡片：编辑读写规则本身，启用状态按分组开关生效后的显示
+  const renderRule = (rule: Rule) => {
+    const active = activeById.get(rule.id) ?? rule;
+    const result = extractedResults.find(r => r.ruleId === rule.id);
+    const match = result?.match ?? null;
+    const displayText = formatDisplayText(match?.text ?? null, rule.displayMode);
+    const hasMatch = match !== null;
+    const isRegex = isRegexRule(rule);
+    const isKeywordMode = !!rule.leftKey && !rule.rightKey;
+    const compiled = isRegex && rule.pattern ? compileRuleRegExp(rule) : null;
+    const regexError = typeof compiled === 'string' ? compiled : null;
+    const st = active.enabled !== false ? stats[rule.id] : undefined;
+
+    return (
+      <div
+        key={rule.id}
+        data-rule-id={rule.id}
+        className={`p-2 bg-gray-50 rounded-lg border border-gray-200 space-y-1.5 transition-opacity ${draggingId === rule.id ? 'opacity-50' : ''} ${active.enabled === false ? 'opacity-60' : ''}`}
+      >
+        {/* 行1: 拖拽手柄 + 颜色 + 起始 + 结束 + 删除 */}
+        <div className="flex items-center gap-1.5">
+          <span
+            onMouseDown={(e) => onHandleMouseDown(e, rule.id)}
+            title="拖拽调整优先级（越靠下优先级越高），可拖入其他分组"
+            className="cursor-grab text-gray-400 hover:text-blue-500 select-none active:cursor-grabbing"
+          >
+            <i className="fas fa-grip-vertical text-[10px]"></i>
+          </span>
+          {/* 启用/停用开关：停用后不染色、不提取 */}
+          <input
+            type="checkbox"
+            checked={rule.enabled !== false}
+            onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+            title={rule.enabled === false ? '点击启用该规则' : active.enabled === false ? '所在分组已停用（规则本身仍为启用）' : '点击停用该规则（不染色不提取）'}
+            className="w-3.5 h-3.5 accent-blue-600 cursor-pointer shrink-0"
+          />
+          {/* 文字颜色：单击取色，双击与背景色对调 */}
+          <button
+            onClick={() => onColorClick(rule.id, 'color')}
+            onDoubleClick={() => onColorDoubleClick(rule.id)}
+            title={'文字颜色\n单击取色，双击与背景色对调'}
+            className="w-6 h-6 rounded cursor-pointer border border-black/10 shrink-0"
+            style={{ backgroundColor: rule.color }}
+          />
+          {/* 背景色（可选）：点击弹出色板模态框，未设置时置灰，设置后右上角出现小叉可清除 */}
+          <div className="relative shrink-0">
+            <button
+              onClick={() => onColorClick(rule.id, 'bgColor')}
+              onDoubleClick={() => onColorDoubleClick(rule.id)}
+              title={rule.bgColor ? `背景色 ${rule.bgColor}\n单击取色，双击与文字色对调` : '背景色（可选）\n单击取色，双击与文字色对调'}
+              className="block w-6 h-6 rounded cursor-pointer border border-black/10 shrink-0"
+              style={rule.bgColor ? { backgroundColor: rule.bgColor } : { opacity: 0.35, filter: 'grayscale(1)', backgroundColor: '#f6e05e' }}
+            />
+            {rule.bgColor && (
+              <span
+                onClick={() => updateRule(rule.id, { bgColor: '' })}
+                title="清除背景色"
+                className="absolute -top-1 -right-1 w-3.5 h-3.5 bg-gray-300 hover:bg-red-500 text-white rounded-full flex items-center justify-center cursor-pointer text-[8px] leading-none select-none"
+              >×</span>
+            )}
+          </div>
+          {isRegex ? (
+            <>
+              <input
+                type="text"
+                value={rule.pattern ?? ''}
+                onChange={(e) => updateRule(rule.id, { pattern: e.target.value })}
+                placeholder="正则，如 T=(-?\d+\.\d+)C"
+                title="正则表达式：染色整个匹配，提取指定捕获组"
+                className={`flex-1 min-w-0 px-1.5 py-1 border rounded text-[10px] font-mono outline-none focus:ring-1 ${regexError ? 'border-red-400 focus:ring-red-400' : 'border-gray-300 focus:ring-blue-500'}`}
+              />
+              <input
+                type="text"
+                value={rule.flags ?? ''}
+                onChange={(e) => updateRule(rule.id, { flags: e.target.value.replace(/\s/g, '') })}
+                placeholder="标志"
+                title={"标志（g 自动添加）：\ni 忽略大小写\nm 多行（^ $ 匹配每行）\ns . 匹配换行\nu Unicode"}
+                className="w-9 shrink-0 px-1 py-1 border border-gray-300 rounded text-[10px] font-mono outline-none focus:ring-1 focus:ring-blue-500"
+              />
+            </>
+          ) : (
+            <>
+              <input
+                type="text"
+                value={rule.leftKey}
+                onChange={(e) => updateRule(rule.id, { leftKey: e.target.value })}
+                placeholder="起始/关键字"
+                title="只填起始、结束留空 = 关键词模式"
+                className="flex-1 min-w-0 px-1.5 py-1 border border-gray-300 rounded text-[10px] font-mono outline-none focus:ring-1 focus:ring-blue-500"
+              />
+              <input
+                type="text"
+                value={rule.rightKey}
+                onChange={(e) => updateRule(rule.id, { rightKey: e.target.value })}
+                placeholder="结束（鼠标悬浮查看提示）"
+                title={"结束留空 = 关键词模式：\n只匹配「起始」关键字，并提取出现时间\n\n填「起始 + 结束」 = 区间模式：\n染色该区间并提取区间内容\n\n区间模式 HEX 下：\n\\r 回车 = 0D\n\\n 换行 = 0A"}
+                className="flex-1 min-w-0 px-1.5 py-1 border border-gray-300 rounded text-[10px] font-mono outline-none focus:ring-1 focus:ring-blue-500"
+              />
+            </>
+          )}
+          {/* 自动响应：命中时自动发送数据 */}
+          <button
+            onClick={() => setActionOpen(prev => ({ ...prev, [rule.id]: !prev[rule.id] }))}
+            title={hasActiveAction(active) ? '自动响应已启用（点击编辑）' : '自动响应：RX 命中该规则时自动发送数据'}
+            className={`transition-colors shrink-0 ${hasActiveAction(active) ? 'text-amber-500 hover:text-amber-600' : actionOpen[rule.id] ? 'text-blue-500' : 'text-gray-300 hover:text-gray-500'}`}
+          >
+            <i className="fas fa-bolt text-[10px]"></i>
+          </button>
+          {/* 告警：命中时提醒，角标为本次会话的告警次数 */}
+          <button
+            onClick={() => setAlertOpen(prev => ({ ...prev, [rule.id]: !prev[rule.id] }))}
+            title={hasActiveAlert(active) ? `告警已启用，本次会话已触发 ${alertCounts[rule.id] ?? 0} 次（点击编辑）` : '告警：RX 命中该规则时提醒'}
+            className={`relative transition-colors shrink-0 ${hasActiveAlert(active) ? 'text-red-500 hover:text-red-600' : alertOpen[rule.id] ? 'text-blue-500' : 'text-gray-300 hover:text-gray-500'}`}
+          >
+            <i className="fas fa-bell text-[10px]"></i>
+            {(alertCounts[rule.id] ?? 0) > 0 && (
+              <span className="absolute -top-1.5 -right-2 min-w-[12px] px-0.5 bg-red-500 text-white rounded-full text-[7px] leading-3 text-center">
+                {alertCounts[rule.id] > 99 ? '99+' : alertCounts[rule.id]}
+              </span>
+            )}
+          </button>
+          <button
+            onClick={() => removeRule(rule.id)}
+            className="text-gray-400 hover:text-red-500 transition-colors shrink-0"
+          >
+            <i className="fas fa-times text-[10px]"></i>
+          </button>
+        </div>
+        {regexError && (
+          <div className="text-[9px] text-red-500 break-all" title={regexError}>
+            <i className="fas fa-exclamation-circle mr-1"></i>{regexError}
           </div>
         )}
-
-        {rules.map((rule, index) => {
-          const result = extractedResults.find(r => r.ruleId === rule.id);
-          const match = result?.match ?? null;
-          const displayText = formatDisplayText(match?.text ?? null, rule.displayMode);
-          const hasMatch = match !== null;
-          const isKeywordMode = !!rule.leftKey && !rule.rightKey;
-
-          return (
-            <div
-              key={rule.id}
-              data-rule-id={rule.id}
-              className={`p-2 bg-gray-50 rounded-lg border border-gray-200 space-y-1.5 transition-opacity ${draggingIndex === index ? 'opacity-50' : ''} ${rule.enabled === false ? 'opacity-60' : ''}`}
-            >
-              {/* 行1: 拖拽手柄 + 颜色 + 起始 + 结束 + 删除 */}
-              <div className="flex items-center gap-1.5">
-                <span
-                  onMouseDown={(e) => onHandleMouseDown(e, index)}
-                  title="拖拽调整优先级（越靠下优先级越高）"
-                  className="cursor-grab text-gray-400 hover:text-blue-500 select-none active:cursor-grabbing"
-                >
-                  <i className="fas fa-grip-vertical text-[10px]"></i>
+        {/* 行2: 匹配方式 + mode toggles + 模式标签 + 显示模式 */}
+        <div className="flex items-center justify-between gap-1 flex-wrap">
+          <div className="flex items-center gap-0.5 flex-wrap">
+            <div className="flex bg-gray-200 p-0.5 rounded text-[9px] shrink-0" title="匹配方式：起始/结束关键字 或 正则表达式">
+              <button onClick={() => updateRule(rule.id, { matchMode: 'key' })} className={`px-1 py-0.5 rounded ${!isRegex ? 'bg-white shadow-sm font-bold text-blue-600' : 'text-gray-500'}`}>关键字</button>
+              <button onClick={() => updateRule(rule.id, { matchMode: 'regex' })} className={`px-1 py-0.5 rounded ${isRegex ? 'bg-white shadow-sm font-bold text-blue-600' : 'text-gray-500'}`}>.*</button>
+            </div>
+            {isRegex ? (
+              <label className="flex items-center gap-0.5 text-[9px] text-gray-400 shrink-0" title="提取的捕获组（0 = 整个匹配）">
+                组:
+                <input
+                  type="number"
+                  min={0}
+                  value={rule.group ?? 0}
+                  onChange={(e) => updateRule(rule.id, { group: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+                  className="w-8 px-0.5 py-0.5 border border-gray-300 rounded text-[9px] text-center outline-none focus:ring-1 focus:ring-blue-500"
+                />
+              </label>
+            ) : (
+              <>
+                <ModeToggle label="开始" mode={rule.leftKeyMode} onChange={(m) => changeKeyMode(rule, 'leftKeyMode', 'leftKey', m)} />
+                {!isKeywordMode && <ModeToggle label="结束" mode={rule.rightKeyMode} onChange={(m) => changeKeyMode(rule, 'rightKeyMode', 'rightKey', m)} />}
+              </>
+            )}
+            <ModeToggle label="提取结果" mode={rule.displayMode} onChange={(m) => updateRule(rule.id, { displayMode: m })} />
+          </div>
+          {hasMatch && (
+            <span className="text-[9px] text-gray-400 shrink-0">
+              {match.timestamp.toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit', fractionalDigits: 3 } as any)}
+            </span>
+          )}
+        </div>
+        {/* 行3: 提取结果显示区（只读输出框：可鼠标选中复制，右下角可拖拽调整大小） */}
+        <textarea
+          readOnly
+          value={active.enabled === false ? '已停用' : hasMatch ? displayText : '等待匹配...'}
+          rows={2}
+          spellCheck={false}
+          title="可选中复制；拖拽右下角调整大小"
+          className={`w-full px-1.5 py-1 rounded text-[10px] font-mono min-h-[28px] resize-y overflow-auto custom-scrollbar whitespace-pre-wrap break-all border outline-none ${active.enabled === false ? 'bg-gray-100 border-gray-200 text-gray-400' : hasMatch ? 'bg-white border-gray-300 text-gray-800' : 'bg-gray-100 border-gray-200 text-gray-400'}`}
+        />
+        {/* 命中统计：总次数、速率、首末次时间，数值提取时附 min/max/avg */}
+        {st && st.hits > 0 && (
+          <div className="flex items-start gap-1 text-[9px] text-gray-500 font-mono">
+            <div className="flex-1 min-w-0 flex flex-wrap gap-x-2">
+              <span title="累计命中次数">命中 <b className="text-gray-700">{st.hits}</b></span>
+              <span title="最近 5 秒平均命中速率">{st.rate.toFixed(1)}/s</span>
+              {st.firstSeen && <span title={`首次命中 ${st.firstSeen.toLocaleString()}`}>首 {formatTime(st.firstSeen)}</span>}
+              {st.lastSeen && <span title={`最近命中 ${st.lastSeen.toLocaleString()}`}>末 {formatTime(st.lastSeen)}</span>}
+              {st.count > 0 && (
+                <span title={`共 ${st.count} 个数值`}>
+                  min {formatStat(st.min)} · max {formatStat(st.max)} · avg {formatStat(st.avg)}
                 </span>
-                {/* 启用/停用开关：停用后不染色、不提取 */}
+              )}
+            </div>
+            {onResetStats && (
+              <button onClick={() => onResetStats(rule.id)} className="shrink-0 text-gray-400 hover:text-red-500" title="清零统计">
+                <i className="fas fa-undo-alt"></i>
+              </button>
+            )}
+          </div>
+        )}
+        {/* 可折叠: 告警方式 + 本次会话计数 */}
+        {alertOpen[rule.id] && (
+          <div className="p-1.5 bg-white rounded border border-gray-200 space-y-1">
+            <div className="flex items-center gap-2 text-[9px] text-gray-500 flex-wrap">
+              <label className="flex items-center gap-0.5 cursor-pointer shrink-0" title="启用告警">
                 <input
                   type="checkbox"
-                  checked={rule.enabled !== false}
-                  onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
-                  title={rule.enabled !== false ? '点击停用该规则（不染色不提取）' : '点击启用该规则'}
-                  className="w-3.5 h-3.5 accent-blue-600 cursor-pointer shrink-0"
-                />
-                {/* 文字颜色：单击取色，双击与背景色对调 */}
-                <button
-                  onClick={() => onColorClick(rule.id, 'color')}
-                  onDoubleClick={() => onColorDoubleClick(rule.id)}
-                  title={'文字颜色\n单击取色，双击与背景色对调'}
-                  className="w-6 h-6 rounded cursor-pointer border border-black/10 shrink-0"
-                  style={{ backgroundColor: rule.color }}
+                  checked={!!rule.alert && rule.alert.enabled !== false}
+                  onChange={(e) => updateAlert(rule, { enabled: e.target.checked })}
+                  className="w-3 h-3 accent-red-500"
                 />
-                {/* 背景色（可选）：点击弹出色板模态框，未设置时置灰，设置后右上角出现小叉可清除 */}
-                <div className="relative shrink-0">
-                  <button
-                    onClick={() => onColorClick(rule.id, 'bgColor')}
-                    onDoubleClick={() => onColorDoubleClick(rule.id)}
-                    title={rule.bgColor ? `背景色 ${rule.bgColor}\n单击取色，双击与文字色对调` : '背景色（可选）\n单击取色，双击与文字色对调'}
-                    className="block w-6 h-6 rounded cursor-pointer border border-black/10 shrink-0"
-                    style={rule.bgColor ? { backgroundColor: rule.bgColor } : { opacity: 0.35, filter: 'grayscale(1)', backgroundColor: '#f6e05e' }}
+                命中告警
+              </label>
+              {ALERT_OPTIONS.map(opt => (
+                <label key={opt.key} className="flex items-center gap-0.5 cursor-pointer shrink-0 text-gray-400" title={opt.title}>
+                  <input
+                    type="checkbox"
+                    checked={!!rule.alert?.[opt.key]}
+                    onChange={(e) => toggleAlertOption(rule, opt.key, e.target.checked)}
+                    className="w-3 h-3 accent-blue-600"
                   />
-                  {rule.bgColor && (
-                    <span
-                      onClick={() => updateRule(rule.id, { bgColor: '' })}
-                      title="清除背景色"
-                      className="absolute -top-1 -right-1 w-3.5 h-3.5 bg-gray-300 hover:bg-red-500 text-white rounded-full flex items-center justify-center cursor-pointer text-[8px] leading-none select-none"
-                    >×</span>
-                  )}
-                </div>
+                  {opt.label}
+                </label>
+              ))}
+            </div>
+            <div className="flex items-center justify-between text-[9px] text-gray-400">
+              <span>本次会话已告警 {alertCounts[rule.id] ?? 0} 次（同一规则 1 秒内合并）</span>
+              {(alertCounts[rule.id] ?? 0) > 0 && onResetAlertCount && (
+                <button onClick={() => onResetAlertCount(rule.id)} className="hover:text-red-500" title="清零告警计数">
+                  <i className="fas fa-undo-alt mr-0.5"></i>清零
+                </button>
+              )}
+            </div>
+            {rule.alert?.notify && notifyDenied && (
+              <div className="text-[9px] text-red-500">
+                <i className="fas fa-exclamation-circle mr-1"></i>浏览器未授权通知，请在地址栏的网站设置中允许
+              </div>
+            )}
+          </div>
+        )}
+        {/* 可折叠: 自动响应 —— 发送内容 + 延迟 + 限频 */}
+        {actionOpen[rule.id] && (
+          <div className="p-1.5 bg-white rounded border border-gray-200 space-y-1">
+            <div className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={!!rule.action && rule.action.enabled !== false}
+                onChange={(e) => updateAction(rule, { enabled: e.target.checked })}
+                title="启用自动响应"
+                className="w-3 h-3 accent-amber-500 cursor-pointer shrink-0"
+              />
+              <span className="text-[9px] text-gray-500 shrink-0">命中后发送</span>
+              <input
+                type="text"
+                value={rule.action?.payload ?? ''}
+                onChange={(e) => updateAction(rule, { payload: e.target.value })}
+                placeholder={rule.action?.payloadMode === DisplayMode.Hex ? '如 79 0D' : '如 root'}
+                className="flex-1 min-w-0 px-1.5 py-0.5 border border-gray-300 rounded text-[10px] font-mono outline-none focus:ring-1 focus:ring-blue-500"
+              />
+              <ModeToggle mode={rule.action?.payloadMode ?? DisplayMode.Text} onChange={(m) => changeActionMode(rule, m)} />
+            </div>
+            <div className="flex items-center gap-2 text-[9px] text-gray-400 flex-wrap">
+              {(rule.action?.payloadMode ?? DisplayMode.Text) === DisplayMode.Text && (
+                <label className="flex items-center gap-0.5 cursor-pointer" title="发送内容末尾追加 \r\n">
+                  <input
+                    type="checkbox"
+                    checked={!!rule.action?.addNewline}
+                    onChange={(e) => updateAction(rule, { addNewline: e.target.checked })}
+                    className="w-3 h-3 accent-blue-600"
+                  />
+                  加回车换行
+                </label>
+              )}
+              <label className="flex items-center gap-0.5" title="命中后延迟发送">
+                延迟
                 <input
-                  type="text"
-                  value={rule.leftKey}
-                  onChange={(e) => updateRule(rule.id, { leftKey: e.target.value })}
-                  placeholder="起始/关键字"
-                  title="只填起始、结束留空 = 关键词模式"
-                  className="flex-1 min-w-0 px-1.5 py-1 border border-gray-300 rounded text-[10px] font-mono outline-none focus:ring-1 focus:ring-blue-500"
+                  type="number"
+                  min={0}
+                  value={rule.action?.delayMs ?? 0}
+                  onChange={(e) => updateAction(rule, { delayMs: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+                  className="w-12 px-0.5 py-0.5 border border-gray-300 rounded text-[9px] text-center outline-none focus:ring-1 focus:ring-blue-500"
                 />
+                ms
+              </label>
+              <label className="flex items-center gap-0.5" title="限频：N 秒内最多触发一次（0 = 每次命中都发送）">
+                每
                 <input
-                  type="text"
-                  value={rule.rightKey}
-                  onChange={(e) => updateRule(rule.id, { rightKey: e.target.value })}
-                  placeholder="结束（鼠标悬浮查看提示）"
-                  title={"结束留空 = 关键词模式：\n只匹配「起始」关键字，并提取出现时间\n\n填「起始 + 结束」 = 区间模式：\n染色该区间并提取区间内容\n\n区间模式 HEX 下：\n\\r 回车 = 0D\n\\n 换行 = 0A"}
-                  className="flex-1 min-w-0 px-1.5 py-1 border border-gray-300 rounded text-[10px] font-mono outline-none focus:ring-1 focus:ring-blue-500"
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={rule.action?.cooldownSec ?? 0}
+                  onChange={(e) => updateAction(rule, { cooldownSec: Math.max(0, Number(e.target.value) || 0) })}
+                  className="w-10 px-0.5 py-0.5 border border-gray-300 rounded text-[9px] text-center outline-none focus:ring-1 focus:ring-blue-500"
                 />
-                <button
-                  onClick={() => removeRule(rule.id)}
-                  className="text-gray-400 hover:text-red-500 transition-colors shrink-0"
-                >
-                  <i className="fas fa-times text-[10px]"></i>
-                </button>
+                秒最多一次
+              </label>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div ref={listRef} className="flex-1 overflow-y-auto p-3 space-y-2 custom-scrollbar">
+        {rules.length === 0 && groups.length === 0 && (
+          <div className="text-center text-gray-400 text-xs py-8">
+            <i className="fas fa-palette text-2xl opacity-20 mb-2 block"></i>
+            暂无规则，点击下方按钮添加
+          </div>
+        )}
+
+        {sections.map(section => {
+          const group = groups.find(g => g.id === section.id);
+          // 没有分组时不显示分组标题，与原来的平铺列表一致
+          if (!group && groups.length === 0) {
+            return (
+              <div key="" data-section-id="" className="space-y-2">
+                {section.rules.map(rule => renderRule(rule))}
               </div>
-              {/* 行2: mode toggles + 模式标签 + 显示模式 */}
-              <div className="flex items-center justify-between gap-1 flex-wrap">
-                <div className="flex items-center gap-0.5 flex-wrap">
-                  <ModeToggle label="开始" mode={rule.leftKeyMode} onChange={(m) => changeKeyMode(rule, 'leftKeyMode', 'leftKey', m)} />
-                  {!isKeywordMode && <ModeToggle label="结束" mode={rule.rightKeyMode} onChange={(m) => changeKeyMode(rule, 'rightKeyMode', 'rightKey', m)} />}
-                  <ModeToggle label="提取结果" mode={rule.displayMode} onChange={(m) => updateRule(rule.id, { displayMode: m })} />
-                </div>
-                {hasMatch && (
-                  <span className="text-[9px] text-gray-400 shrink-0">
-                    {match.timestamp.toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit', fractionalDigits: 3 } as any)}
-                  </span>
+            );
+          }
+          const collapsed = !!group?.collapsed;
+          return (
+            <div key={section.id} data-section-id={section.id} className="space-y-2">
+              <div className={`flex items-center gap-1.5 pt-1 text-[10px] ${group?.enabled === false ? 'opacity-60' : ''}`}>
+                {group ? (
+                  <>
+                    <button
+                      onClick={() => updateGroup(group.id, { collapsed: !collapsed })}
+                      title={collapsed ? '展开分组' : '折叠分组'}
+                      className="w-3 text-gray-400 hover:text-blue-500 shrink-0"
+                    >
+                      <i className={`fas ${collapsed ? 'fa-chevron-right' : 'fa-chevron-down'} text-[9px]`}></i>
+                    </button>
+                    {/* 整组开关：停用后组内规则全部不染色、不提取、不触发动作 */}
+                    <input
+                      type="checkbox"
+                      checked={group.enabled !== false}
+                      onChange={(e) => updateGroup(group.id, { enabled: e.target.checked })}
+                      title={group.enabled !== false ? '点击停用整个分组' : '点击启用整个分组'}
+                      className="w-3.5 h-3.5 accent-blue-600 cursor-pointer shrink-0"
+                    />
+                    <input
+                      type="text"
+                      value={group.name}
+                      onChange={(e) => updateGroup(group.id, { name: e.target.value })}
+                      placeholder="分组名称"
+                      title="分组名称（导入时按名称匹配已有分组）"
+                      className="flex-1 min-w-0 px-1 py-0.5 bg-transparent font-bold text-gray-600 border border-transparent rounded hover:border-gray-300 focus:border-gray-300 focus:bg-white outline-none"
+                    />
+                  </>
+                ) : (
+                  <span className="flex-1 px-1 py-0.5 font-bold text-gray-400">未分组</span>
+                )}
+                <span className="text-gray-400 shrink-0" title="组内规则数">{section.rules.length}</span>
+                <button onClick={() => addRule(section.id)} title="在此分组中添加规则" className="text-gray-300 hover:text-blue-500 shrink-0">
+                  <i className="fas fa-plus"></i>
+                </button>
+                {group && (
+                  <>
+                    <button onClick={() => exportGroup(group)} title="导出此分组为 JSON" className="text-gray-300 hover:text-blue-500 shrink-0">
+                      <i className="fas fa-file-export"></i>
+                    </button>
+                    <button onClick={() => removeGroup(group.id)} title="删除分组（组内规则移到未分组）" className="text-gray-300 hover:text-red-500 shrink-0">
+                      <i className="fas fa-times"></i>
+                    </button>
+                  </>
                 )}
               </div>
-              {/* 行3: 提取结果显示区（只读输出框：可鼠标选中复制，右下角可拖拽调整大小） */}
-              <textarea
-                readOnly
-                value={rule.enabled === false ? '已停用' : hasMatch ? displayText : '等待匹配...'}
-                rows={2}
-                spellCheck={false}
-                title="可选中复制；拖拽右下角调整大小"
-                className={`w-full px-1.5 py-1 rounded text-[10px] font-mono min-h-[28px] resize-y overflow-auto custom-scrollbar whitespace-pre-wrap break-all border outline-none ${rule.enabled === false ? 'bg-gray-100 border-gray-200 text-gray-400' : hasMatch ? 'bg-white border-gray-300 text-gray-800' : 'bg-gray-100 border-gray-200 text-gray-400'}`}
-              />
+              {!collapsed && section.rules.map(rule => renderRule(rule))}
+              {!collapsed && section.rules.length === 0 && (
+                <div className="py-2 text-center text-[10px] text-gray-300 border border-dashed border-gray-200 rounded-lg">
+                  拖拽规则到此处
+                </div>
+              )}
             </div>
           );
         })}
@@ -471,8 +787,52 @@ const RuleList: React.FC<RuleListProps> = ({ rules, onUpdate, logs }) => {
         >
           <i className="fas fa-plus mr-1"></i>添加规则
         </button>
+        <div className="flex gap-2">
+          <button
+            onClick={addGroup}
+            className="flex-1 py-1.5 text-[10px] bg-gray-100 hover:bg-gray-200 text-gray-700 rounded border border-gray-300 transition-colors"
+          >
+            <i className="fas fa-folder-plus mr-1"></i>新建分组
+          </button>
+          <button
+            onClick={() => groupFileRef.current?.click()}
+            title="导入单个分组的 JSON 文件；已有同名分组时可选择合并或替换"
+            className="flex-1 py-1.5 text-[10px] bg-gray-100 hover:bg-gray-200 text-gray-700 rounded border border-gray-300 transition-colors"
+          >
+            <i className="fas fa-file-import mr-1"></i>导入分组
+          </button>
+          <input type="file" ref={groupFileRef} onChange={handleGroupImport} className="hidden" accept=".json" />
+        </div>
       </div>
 
+      {/* 导入分组：同名分组已存在时选择合并或替换 */}
+      {pendingImport && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/30"
+          onClick={() => setPendingImport(null)}
+        >
+          <div className="bg-white rounded-xl shadow-2xl p-4 w-72" onClick={(e) => e.stopPropagation()}>
+            <h3 className="text-xs font-bold text-gray-700 mb-2">导入分组「{pendingImport.group.name}」</h3>
+            <p className="text-[11px] text-gray-500 mb-3">
+              已存在同名分组（{rules.filter(r => r.groupId === pendingImport.group.id).length} 条规则），
+              文件中有 {pendingImport.parsed.rules.length} 条规则。
+              合并：只添加组内没有的规则；替换：清空该组后导入。
+            </p>
+            <div className="flex justify-end gap-2">
+              <button onClick={() => setPendingImport(null)} className="px-3 py-1 text-xs text-gray-500 hover:text-gray-700">
+                取消
+              </button>
+              <button onClick={() => applyPendingImport(false)} className="px-3 py-1 text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 rounded border border-gray-300">
+                合并
+              </button>
+              <button onClick={() => applyPendingImport(true)} className="px-3 py-1 text-xs bg-blue-600 hover:bg-blue-700 text-white rounded">
+                替换
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* 颜色选择模态框：预置色板 + HSV 取色器 */}
       {pickerState && (
         <div
@@ -0,0 +1,102 @@
+import React, { useEffect, useRef } from 'react';
+import { SearchMode, SearchQuery } from '../utils/search';
+
+interface SearchBarProps {
+  query: SearchQuery;
+  onQueryChange: (query: SearchQuery) => void;
+  matchCount: number;
+  currentIndex: number;   // -1 = 无匹配
+  truncated: boolean;
+  error: string | null;
+  isFilter: boolean;
+  onFilterChange: (filter: boolean) => void;
+  onNext: () => void;
+  onPrev: () => void;
+  onClose: () => void;
+  focusToken: number;     // 变化时重新聚焦输入框（再次按 Ctrl+F）
+}
+
+const MODES: { value: SearchMode; label: string; title: string }[] = [
+  { value: 'text', label: 'Aa', title: '文本' },
+  { value: 'hex', label: 'HEX', title: 'HEX 字节序列（如 AA 55 01）' },
+  { value: 'regex', label: '.*', title: '正则表达式' }
+];
+
+/** 终端搜索栏：在整个缓冲区中查找，支持文本 / HEX / 正则，Enter 下一个、Shift+Enter 上一个 */
+const SearchBar: React.FC<SearchBarProps> = ({
+  query, onQueryChange, matchCount, currentIndex, truncated, error, isFilter, onFilterChange, onNext, onPrev, onClose, focusToken
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+    inputRef.current?.select();
+  }, [focusToken]);
+
+  const counter = error
+    ? error
+    : query.query === ''
+      ? ''
+      : matchCount === 0 ? '无结果' : `${currentIndex + 1} / ${matchCount}${truncated ? '+' : ''}`;
+
+  return (
+    <div className="flex items-center gap-2 px-2 py-1 mb-2 bg-white border border-gray-200 rounded-lg shadow-sm text-xs select-none">
+      <i className="fas fa-search text-gray-400 pl-1"></i>
+      <div className="flex bg-gray-100 p-0.5 rounded shrink-0">
+        {MODES.map(m => (
+          <button
+            key={m.value}
+            onClick={() => onQueryChange({ ...query, mode: m.value })}
+            title={m.title}
+            className={`px-1.5 py-0.5 rounded text-[10px] font-mono ${query.mode === m.value ? 'bg-white shadow-sm font-bold text-blue-600' : 'text-gray-500'}`}
+          >
+            {m.label}
+          </button>
+        ))}
+      </div>
+      <input
+        ref={inputRef}
+        type="text"
+        value={query.query}
+        onChange={e => onQueryChange({ ...query, query: e.target.value })}
+        onKeyDown={e => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            if (e.shiftKey) onPrev(); else onNext();
+          } else if (e.key === 'Escape') {
+            e.preventDefault();
+            onClose();
+          }
+        }}
+        placeholder={query.mode === 'hex' ? 'AA 55 01' : query.mode === 'regex' ? '正则表达式' : '搜索整个缓冲区'}
+        spellCheck={false}
+        className="flex-1 min-w-0 px-2 py-1 font-mono border border-gray-300 rounded outline-none focus:ring-1 focus:ring-blue-500"
+      />
+      <span className={`shrink-0 text-[10px] min-w-[56px] text-right ${error ? 'text-red-500' : 'text-gray-500'}`}>{counter}</span>
+      {query.mode !== 'hex' && (
+        <button
+          onClick={() => onQueryChange({ ...query, caseSensitive: !query.caseSensitive })}
+          title="区分大小写"
+          className={`shrink-0 px-1.5 py-0.5 rounded text-[10px] ${query.caseSensitive ? 'bg-blue-100 text-blue-600 font-bold' : 'text-gray-400 hover:text-gray-600'}`}
+        >
+          Cc
+        </button>
+      )}
+      <button onClick={onPrev} disabled={matchCount === 0} className="shrink-0 text-gray-500 hover:text-blue-600 disabled:opacity-30" title="上一个 (Shift+Enter)">
+        <i className="fas fa-chevron-up"></i>
+      </button>
+      <button onClick={onNext} disabled={matchCount === 0} className="shrink-0 text-gray-500 hover:text-blue-600 disabled:opacity-30" title="下一个 (Enter)">
+        <i className="fas fa-chevron-down"></i>
+      </button>
+      <label className="shrink-0 flex items-center text-[10px] text-gray-500 cursor-pointer" title="只显示包含匹配的行">
+        <input type="checkbox" checked={isFilter} onChange={e => onFilterChange(e.target.checked)} className="mr-1 rounded text-blue-600" />
+        仅匹配行
+      </label>
+      <button onClick={onClose} className="shrink-0 text-gray-400 hover:text-gray-600 px-1" title="关闭 (Esc)">
+        <i className="fas fa-times"></i>
+      </button>
+    </div>
+  );
+};
+
+export default SearchBar;
@@ -1,18 +1,32 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { DisplayMode, FileSendMode } from '../types';
+import { DisplayMode, FileSendMode, FileSendOptions, FileReceiveOptions, TextEncoding } from '../types';
 import { stringToUint8Array, uint8ArrayToString, hexToUint8Array, uint8ArrayToHex } from '../utils/converters';
 
 interface SenderProps {
   onSend: (data: string, mode: DisplayMode) => void;
-  onFileSend: (file: File, options: { mode: FileSendMode, throttleBytes: number, throttleMs: number, onProgress: (p: number) => void }) => Promise<void>;
+  onFileSend: (file: File, options: FileSendOptions) => Promise<void>;
+  onFileReceive: (options: FileReceiveOptions) => Promise<void>;
+  zmodemRequest?: 'receive' | 'send' | null;  // RX 流中检测到的 ZModem 请求（设备执行 sz / rz）
+  onZModemDismiss?: () => void;
   isConnected: boolean;
   isReconnecting?: boolean;
   isCollapsed?: boolean;
   onToggleCollapse?: () => void;
+  encoding?: TextEncoding;  // 切换 Text / HEX 时内容转换使用的字符编码
 }
 
-const Sender: React.FC<SenderProps> = ({ onSend, onFileSend, isConnected, isReconnecting = false, isCollapsed = false, onToggleCollapse }) => {
+/** 文件发送模式切换按钮（标签 + 悬浮说明） */
+const FILE_SEND_MODES: { mode: FileSendMode; label: string; title: string }[] = [
+  { mode: FileSendMode.Raw, label: 'RAW', title: '原始字节流，可限速' },
+  { mode: FileSendMode.XModem, label: 'XM', title: 'XModem（128 字节块，校验和）' },
+  { mode: FileSendMode.XModemCRC, label: 'XM-CRC', title: 'XModem-CRC（128 字节块，CRC16）' },
+  { mode: FileSendMode.XModem1K, label: 'XM-1K', title: 'XModem-1K（1024 字节块，CRC16）' },
+  { mode: FileSendMode.YModem, label: 'YModem', title: 'YModem-1K（带文件名/大小，CRC16）' },
+  { mode: FileSendMode.ZModem, label: 'ZModem', title: 'ZModem（CRC32 流式传输，支持断点续传）' }
+];
+
+const Sender: React.FC<SenderProps> = ({ onSend, onFileSend, onFileReceive, zmodemRequest = null, onZModemDismiss, isConnected, isReconnecting = false, isCollapsed = false, onToggleCollapse, encoding = TextEncoding.UTF8 }) => {
   const [mode, setMode] = useState<DisplayMode>(DisplayMode.Text);
   const [input, setInput] = useState(() => {
     const saved = localStorage.getItem('serial-input');
@@ -38,7 +52,7 @@ const Sender: React.FC<SenderProps> = ({ onSend, onFileSend, isConnected, isReco
     if (mode === DisplayMode.Hex && input) {
       try {
         const data = hexToUint8Array(input);
-        contentToSave = uint8ArrayToString(data);
+        contentToSave = uint8ArrayToString(data, encoding);
       } catch (error) {
         // 转换失败时保持原样
         console.error('Hex转文本失败:', error);
@@ -51,8 +65,13 @@ const Sender: React.FC<SenderProps> = ({ onSend, onFileSend, isConnected, isReco
   const [fileSendMode, setFileSendMode] = useState<FileSendMode>(FileSendMode.Raw);
   const [throttleBytes, setThrottleBytes] = useState(128);
   const [throttleMs, setThrottleMs] = useState(10);
+  const [modemTimeoutMs, setModemTimeoutMs] = useState(3000);
+  const [modemRetries, setModemRetries] = useState(10);
   const [isSendingFile, setIsSendingFile] = useState(false);
   const [fileProgress, setFileProgress] = useState(0);
+  const [isReceivingFile, setIsReceivingFile] = useState(false);
+  const [receivedBytes, setReceivedBytes] = useState(0);
+  const isFileBusy = isSendingFile || isReceivingFile;
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isFileTransferVisible, setIsFileTransferVisible] = useState(() => {
@@ -65,6 +84,13 @@ const Sender: React.FC<SenderProps> = ({ onSend, onFileSend, isConnected, isReco
     localStorage.setItem('file_transfer_visible', isFileTransferVisible.toString());
   }, [isFileTransferVisible]);
 
+  // 检测到 ZModem 请求：显示文件传输区并切到 ZModem 模式
+  useEffect(() => {
+    if (!zmodemRequest) return;
+    setIsFileTransferVisible(true);
+    setFileSendMode(FileSendMode.ZModem);
+  }, [zmodemRequest]);
+
   // 全局 Ctrl+Enter 发送快捷键
   const inputRef = useRef(input);
   inputRef.current = input;
@@ -115,13 +141,13 @@ const Sender: React.FC<SenderProps> = ({ onSend, onFileSend, isConnected, isReco
     try {
       if (mode === DisplayMode.Text && newMode === DisplayMode.Hex) {
         // 从文本转Hex
-        const data = stringToUint8Array(input);
+        const data = stringToUint8Array(input, encoding);
         const hexStr = uint8ArrayToHex(data);
         setInput(hexStr);
       } else if (mode === DisplayMode.Hex && newMode === DisplayMode.Text) {
         // 从Hex转文本
         const data = hexToUint8Array(input);
-        const textStr = uint8ArrayToString(data);
+        const textStr = uint8ArrayToString(data, encoding);
         setInput(textStr);
       }
       setMode(newMode);
@@ -148,11 +174,29 @@ const Sender: React.FC<SenderProps> = ({ onSend, onFileSend, isConnected, isReco
       mode: fileSendMode,
       throttleBytes,
       throttleMs,
+      timeoutMs: modemTimeoutMs,
+      retries: modemRetries,
       onProgress: setFileProgress
     });
     setIsSendingFile(false);
   };
 
+  const handleFileReceiveClick = async () => {
+    if (!isConnected || fileSendMode === FileSendMode.Raw) return;
+
+    setIsReceivingFile(true);
+    setFileProgress(0);
+    setReceivedBytes(0);
+    await onFileReceive({
+      mode: fileSendMode,
+      timeoutMs: modemTimeoutMs,
+      retries: modemRetries,
+      onProgress: setFileProgress,
+      onReceived: setReceivedBytes
+    });
+    setIsReceivingFile(false);
+  };
+
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file || !isConnected) return;
@@ -163,6 +207,8 @@ const Sender: React.FC<SenderProps> = ({ onSend, onFileSend, isConnected, isReco
       mode: fileSendMode,
       throttleBytes,
       throttleMs,
+      timeoutMs: modemTimeoutMs,
+      retries: modemRetries,
       onProgress: setFileProgress
     });
     setIsSendingFile(false);
@@ -256,23 +302,50 @@ const Sender: React.FC<SenderProps> = ({ onSend, onFileSend, isConnected, isReco
         {/* 右侧：文件发送区（默认隐藏，由顶部「文件传输」勾选显示） */}
         {isFileTransferVisible && (
           <div className="w-72 bg-gray-50 border border-gray-200 rounded-lg shrink-0 p-3 space-y-3">
-            <div className="flex items-center justify-between">
+            <div className="space-y-1.5">
               <h3 className="text-[11px] font-bold text-gray-600">文件传输</h3>
+              {zmodemRequest && !isFileBusy && (
+                <div className="flex items-center gap-1 p-1.5 bg-emerald-50 border border-emerald-200 rounded text-[10px] text-emerald-700">
+                  <i className="fas fa-bolt shrink-0"></i>
+                  <span className="flex-1">{zmodemRequest === 'receive' ? '设备发起了 ZModem 发送 (sz)' : '设备等待接收文件 (rz)，选择文件后点击发送'}</span>
+                  {zmodemRequest === 'receive' && (
+                    <button onClick={handleFileReceiveClick} disabled={!isConnected} className="px-1.5 py-0.5 bg-emerald-600 text-white rounded hover:bg-emerald-700 disabled:opacity-30">接收</button>
+                  )}
+                  <button onClick={onZModemDismiss} className="px-1 text-emerald-500 hover:text-emerald-700" title="忽略"><i className="fas fa-times"></i></button>
+                </div>
+              )}
               <div className="flex bg-gray-200 p-0.5 rounded text-[9px]">
-                <button onClick={() => setFileSendMode(FileSendMode.Raw)} className={`px-2 py-0.5 rounded ${fileSendMode === FileSendMode.Raw ? 'bg-white shadow-sm font-bold text-blue-600' : 'text-gray-500'}`}>RAW</button>
-                <button onClick={() => setFileSendMode(FileSendMode.YModem)} className={`px-2 py-0.5 rounded ${fileSendMode === FileSendMode.YModem ? 'bg-white shadow-sm font-bold text-blue-600' : 'text-gray-500'}`}>YModem</button>
+                {FILE_SEND_MODES.map(({ mode: m, label, title }) => (
+                  <button key={m} onClick={() => setFileSendMode(m)} title={title} className={`flex-1 px-1 py-0.5 rounded whitespace-nowrap ${fileSendMode === m ? 'bg-white shadow-sm font-bold text-blue-600' : 'text-gray-500'}`}>{label}</button>
+                ))}
               </div>
             </div>
-          <div className="space-y-2">
-            <div className="flex items-center justify-between text-[10px] text-gray-500">
-              <span>每批发送 (字节)</span>
-              <input type="number" value={throttleBytes} onChange={e => setThrottleBytes(Number(e.target.value))} className="w-14 px-1 border rounded text-center" />
+          {fileSendMode === FileSendMode.Raw ? (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-[10px] text-gray-500">
+                <span>每批发送 (字节)</span>
+                <input type="number" value={throttleBytes} onChange={e => setThrottleBytes(Number(e.target.value))} className="w-14 px-1 border rounded text-center" />
+              </div>
+              <div className="flex items-center justify-between text-[10px] text-gray-500">
+                <span>延迟 (毫秒)</span>
+                <input type="number" value={throttleMs} onChange={e => setThrottleMs(Number(e.target.value))} className="w-14 px-1 border rounded text-center" />
+              </div>
             </div>
-            <div className="flex items-center justify-between text-[10px] text-gray-500">
-              <span>延迟 (毫秒)</span>
-              <input type="number" value={throttleMs} onChange={e => setThrottleMs(Number(e.target.value))} className="w-14 px-1 border rounded text-center" />
+          ) : (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-[10px] text-gray-500">
+                <span>应答超时 (毫秒)</span>
+                <input type="number" value={modemTimeoutMs} onChange={e => setModemTimeoutMs(Math.max(100, Number(e.target.value)))} className="w-14 px-1 border rounded text-center" />
+              </div>
+              <div className="flex items-center justify-between text-[10px] text-gray-500">
+                <span>每块重试次数</span>
+                <input type="number" value={modemRetries} onChange={e => setModemRetries(Math.max(0, Number(e.target.value)))} className="w-14 px-1 border rounded text-center" />
+              </div>
+              <div className="text-[10px] text-gray-400 leading-relaxed">
+                由接收方握手启动，传输期间接收数据不写入日志
+              </div>
             </div>
-          </div>
+          )}
 
           <div className="pt-1">
             <input type="file" ref={fileInputRef} onChange={handleFileSelect} className="hidden" />
@@ -300,7 +373,7 @@ const Sender: React.FC<SenderProps> = ({ onSend, onFileSend, isConnected, isReco
             <div className="flex gap-2">
               <button
                 onClick={() => fileInputRef.current?.click()}
-                disabled={(!isConnected && !isReconnecting) || isSendingFile}
+                disabled={(!isConnected && !isReconnecting) || isFileBusy}
                 className={`flex-1 py-2 rounded-md text-[11px] font-bold transition-all shadow-sm flex items-center justify-center disabled:opacity-30 disabled:cursor-not-allowed ${
                   isSendingFile ? 'bg-gray-100 text-gray-500' : 'bg-white border border-blue-500 text-blue-600 hover:bg-blue-50'
                 }`}
@@ -310,7 +383,7 @@ const Sender: React.FC<SenderProps> = ({ onSend, onFileSend, isConnected, isReco
               </button>
               <button
                 onClick={handleFileSendClick}
-                disabled={(!isConnected && !isReconnecting) || isSendingFile || !selectedFile}
+                disabled={(!isConnected && !isReconnecting) || isFileBusy || !selectedFile}
                 className={`flex-1 py-2 rounded-md text-[11px] font-bold transition-all shadow-sm flex items-center justify-center disabled:opacity-30 disabled:cursor-not-allowed ${
                   isSendingFile ? 'bg-amber-100 text-amber-700' : 'bg-blue-600 text-white hover:bg-blue-700'
                 }`}
@@ -320,7 +393,22 @@ const Sender: React.FC<SenderProps> = ({ onSend, onFileSend, isConnected, isReco
               </button>
             </div>
 
-            {isSendingFile && (
+            {/* 协议模式下可作为接收方：接收设备发来的文件并下载 */}
+            {fileSendMode !== FileSendMode.Raw && (
+              <button
+                onClick={handleFileReceiveClick}
+                disabled={!isConnected || isFileBusy}
+                title="由设备端发起发送（如 sb / sx / sz），接收完成后自动下载"
+                className={`w-full mt-2 py-2 rounded-md text-[11px] font-bold transition-all shadow-sm flex items-center justify-center disabled:opacity-30 disabled:cursor-not-allowed ${
+                  isReceivingFile ? 'bg-emerald-100 text-emerald-700' : 'bg-white border border-emerald-500 text-emerald-600 hover:bg-emerald-50'
+                }`}
+              >
+                <i className={`fas ${isReceivingFile ? 'fa-sync fa-spin' : 'fa-download'} mr-2`}></i>
+                {isReceivingFile ? `接收中 ${(receivedBytes / 1024).toFixed(1)} KB` : '接收文件'}
+              </button>
+            )}
+
+            {isFileBusy && (
               <div className="w-full bg-gray-200 rounded-full h-1 mt-2">
                 <div className="bg-amber-500 h-1 rounded-full transition-all" style={{ width: `${fileProgress}%` }}></div>
               </div>
@@ -0,0 +1,182 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { CommMode } from '../types';
+import {
+  SessionMeta, CleanupPolicy, listSessions, deleteSession, clearSessions, applyCleanupPolicy, getStorageEstimate
+} from '../utils/sessionStore';
+
+interface SessionHistoryProps {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  policy: CleanupPolicy;
+  onPolicyChange: (policy: CleanupPolicy) => void;
+  activeSessionId: string | null;   // 正在记录的会话（不可删除 / 打开）
+  viewingSessionId: string | null;  // 终端中正在查看的会话
+  canOpen: boolean;                 // 已连接时不允许打开历史会话
+  onOpen: (session: SessionMeta) => void;
+  onClose: () => void;
+}
+
+const MODE_LABELS: Record<CommMode, string> = {
+  [CommMode.Serial]: '串口',
+  [CommMode.WebSocket]: 'WebSocket',
+  [CommMode.Bluetooth]: '蓝牙'
+};
+
+const formatBytes = (n: number) => n < 1024 ? `${n} B` : n < 1024 * 1024 ? `${(n / 1024).toFixed(1)} KB` : `${(n / 1024 / 1024).toFixed(2)} MB`;
+
+const formatDuration = (ms: number) => {
+  const s = Math.round(ms / 1000);
+  if (s < 60) return `${s} 秒`;
+  if (s < 3600) return `${Math.floor(s / 60)} 分 ${s % 60} 秒`;
+  return `${Math.floor(s / 3600)} 小时 ${Math.floor((s % 3600) / 60)} 分`;
+};
+
+const POLICY_FIELDS: { key: keyof CleanupPolicy; label: string; unit: string }[] = [
+  { key: 'maxSessions', label: '最多保留', unit: '个会话' },
+  { key: 'maxAgeDays', label: '最长保留', unit: '天' },
+  { key: 'maxTotalMB', label: '总大小上限', unit: 'MB' }
+];
+
+/** 历史会话：持久化开关、配额占用、清理策略、会话列表（只读打开 / 删除） */
+const SessionHistory: React.FC<SessionHistoryProps> = ({
+  enabled, onEnabledChange, policy, onPolicyChange, activeSessionId, viewingSessionId, canOpen, onOpen, onClose
+}) => {
+  const [sessions, setSessions] = useState<SessionMeta[]>([]);
+  const [estimate, setEstimate] = useState<{ usage: number; quota: number } | null>(null);
+  const [error, setError] = useState('');
+
+  const refresh = useCallback(async () => {
+    try {
+      setSessions(await listSessions());
+      setEstimate(await getStorageEstimate());
+      setError('');
+    } catch (err: any) {
+      setError(`无法访问 IndexedDB: ${err.message}`);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    // 记录中的会话大小持续变化，定时刷新
+    const timer = setInterval(refresh, 2000);
+    return () => clearInterval(timer);
+  }, [refresh]);
+
+  const handleDelete = async (id: string) => {
+    await deleteSession(id);
+    refresh();
+  };
+
+  const handleClearAll = async () => {
+    if (!confirm('确定删除全部历史会话？')) return;
+    await clearSessions(activeSessionId ?? undefined);
+    refresh();
+  };
+
+  const handleApplyPolicy = async () => {
+    await applyCleanupPolicy(policy, activeSessionId ?? undefined);
+    refresh();
+  };
+
+  const usagePercent = estimate && estimate.quota > 0 ? Math.min(100, (estimate.usage / estimate.quota) * 100) : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-2xl p-4 w-[560px] max-h-[80vh] flex flex-col gap-3" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h3 className="text-xs font-bold text-gray-700">历史会话</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" title="关闭">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+
+        <label className="flex items-center text-xs text-gray-600 cursor-pointer select-none">
+          <input type="checkbox" checked={enabled} onChange={e => onEnabledChange(e.target.checked)} className="mr-2 rounded text-blue-600" />
+          连接期间将收发数据持续写入 IndexedDB（刷新或崩溃后可找回）
+        </label>
+
+        {/* 配额占用 */}
+        <div className="space-y-1">
+          <div className="flex justify-between text-[10px] text-gray-500">
+            <span>浏览器存储占用</span>
+            <span>{estimate ? `${formatBytes(estimate.usage)} / ${formatBytes(estimate.quota)}` : '不支持查询'}</span>
+          </div>
+          <div className="w-full bg-gray-200 rounded-full h-1.5">
+            <div
+              className={`h-1.5 rounded-full transition-all ${usagePercent > 80 ? 'bg-red-500' : usagePercent > 50 ? 'bg-amber-500' : 'bg-blue-500'}`}
+              style={{ width: `${usagePercent}%` }}
+            ></div>
+          </div>
+        </div>
+
+        {/* 清理策略：会话结束时自动执行 */}
+        <div className="flex items-center gap-3 text-[10px] text-gray-500 flex-wrap">
+          {POLICY_FIELDS.map(f => (
+            <span key={f.key} className="flex items-center gap-1">
+              {f.label}
+              <input
+                type="number"
+                min={0}
+                value={policy[f.key]}
+                onChange={e => onPolicyChange({ ...policy, [f.key]: Math.max(0, Number(e.target.value)) })}
+                className="w-12 px-1 border rounded text-center"
+              />
+              {f.unit}
+            </span>
+          ))}
+          <span className="text-gray-400">（0 = 不限，会话结束时自动清理）</span>
+          <button onClick={handleApplyPolicy} className="ml-auto px-2 py-0.5 border border-gray-300 rounded hover:bg-gray-50 text-gray-600">立即清理</button>
+        </div>
+
+        {error && <div className="text-[10px] text-red-500">{error}</div>}
+
+        <div className="flex-1 min-h-0 overflow-y-auto custom-scrollbar border rounded-lg divide-y">
+          {sessions.length === 0 ? (
+            <div className="p-6 text-center text-xs text-gray-400">暂无历史会话</div>
+          ) : sessions.map(s => {
+            const isActive = s.id === activeSessionId;
+            const isViewing = s.id === viewingSessionId;
+            return (
+              <div key={s.id} className={`flex items-center gap-3 px-3 py-2 text-[11px] ${isViewing ? 'bg-blue-50' : ''}`}>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 text-gray-700">
+                    <span className="font-bold">{new Date(s.startedAt).toLocaleString()}</span>
+                    <span className="text-gray-400">{formatDuration((s.endedAt ?? s.lastWriteAt) - s.startedAt)}</span>
+                    {isActive && <span className="px-1 rounded bg-red-100 text-red-600 text-[9px]">记录中</span>}
+                  </div>
+                  <div className="text-gray-500 truncate" title={s.settings}>
+                    {MODE_LABELS[s.commMode]} · {s.settings} · RX {formatBytes(s.rxBytes)} / TX {formatBytes(s.txBytes)} · {s.entryCount} 条
+                  </div>
+                </div>
+                <button
+                  onClick={() => onOpen(s)}
+                  disabled={isActive || !canOpen}
+                  className="px-2 py-1 rounded border border-blue-500 text-blue-600 hover:bg-blue-50 disabled:opacity-30 disabled:cursor-not-allowed"
+                  title={canOpen ? '在终端中只读打开' : '请先断开连接'}
+                >
+                  打开
+                </button>
+                <button
+                  onClick={() => handleDelete(s.id)}
+                  disabled={isActive}
+                  className="text-gray-400 hover:text-red-500 disabled:opacity-30 disabled:cursor-not-allowed"
+                  title="删除"
+                >
+                  <i className="fas fa-trash-alt"></i>
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex justify-end">
+          <button onClick={handleClearAll} disabled={sessions.length === 0} className="text-[10px] text-gray-400 hover:text-red-500 disabled:opacity-30">
+            删除全部历史会话
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionHistory;
@@ -1,5 +1,8 @@
 import React, { useEffect, useState, useRef } from 'react';
-import { SerialConfig, DataBits, StopBits, Parity, CommMode, Rule, QuickSendItem } from '../types';
+import { SerialConfig, DataBits, StopBits, Parity, CommMode, Rule, RuleGroup, QuickSendItem, LineFilter, TextEncoding } from '../types';
+import { ENCODING_LABELS } from '../utils/encoding';
+import { ControlCharStyle, CONTROL_CHAR_STYLES } from '../utils/controlChars';
+import { HexDumpRowSize, HEX_DUMP_ROW_SIZES } from '../utils/hexDump';
 
 interface SerialPort {
   readonly readable: ReadableStream<Uint8Array> | null;
@@ -24,6 +27,14 @@ interface SidebarProps {
   setGroupTimeoutMs: (val: number) => void;
   isShowTimestamp: boolean;
   setIsShowTimestamp: (val: boolean) => void;
+  isRenderAnsi: boolean;
+  setIsRenderAnsi: (val: boolean) => void;
+  controlCharStyle: ControlCharStyle;
+  setControlCharStyle: (val: ControlCharStyle) => void;
+  hexDumpBytesPerRow: HexDumpRowSize;
+  setHexDumpBytesPerRow: (val: HexDumpRowSize) => void;
+  isHexDumpPerPacket: boolean;
+  setIsHexDumpPerPacket: (val: boolean) => void;
   maxBufferSize: number;
   setMaxBufferSize: (val: number) => void;
   currentBufferSize: number;
@@ -37,9 +48,13 @@ interface SidebarProps {
   setBluetoothTxCharacteristicUUID: (val: string) => void;
   bluetoothRxCharacteristicUUID: string;
   setBluetoothRxCharacteristicUUID: (val: string) => void;
-  // 右侧栏配置（染色&提取规则、快捷发送项），供导入/导出使用
+  // 右侧栏配置（染色&提取规则、行过滤条件、快捷发送项），供导入/导出使用
   rules: Rule[];
   setRules: React.Dispatch<React.SetStateAction<Rule[]>>;
+  ruleGroups: RuleGroup[];
+  setRuleGroups: React.Dispatch<React.SetStateAction<RuleGroup[]>>;
+  lineFilters: LineFilter[];
+  setLineFilters: React.Dispatch<React.SetStateAction<LineFilter[]>>;
   quickSendItems: QuickSendItem[];
   setQuickSendItems: React.Dispatch<React.SetStateAction<QuickSendItem[]>>;
   onConnect: () => void;
@@ -130,6 +145,14 @@ const Sidebar: React.FC<SidebarProps> = ({
   setGroupTimeoutMs,
   isShowTimestamp,
   setIsShowTimestamp,
+  isRenderAnsi,
+  setIsRenderAnsi,
+  controlCharStyle,
+  setControlCharStyle,
+  hexDumpBytesPerRow,
+  setHexDumpBytesPerRow,
+  isHexDumpPerPacket,
+  setIsHexDumpPerPacket,
   maxBufferSize,
   setMaxBufferSize,
   currentBufferSize,
@@ -145,6 +168,10 @@ const Sidebar: React.FC<SidebarProps> = ({
   setBluetoothRxCharacteristicUUID,
   rules,
   setRules,
+  ruleGroups,
+  setRuleGroups,
+  lineFilters,
+  setLineFilters,
   quickSendItems,
   setQuickSendItems,
   onConnect,
@@ -405,6 +432,16 @@ const Sidebar: React.FC<SidebarProps> = ({
             </>
           )}
 
+          {/* 字符编码：决定接收数据的解码和文本发送的编码，连接中也可切换 */}
+          <div className="pt-4 border-t">
+            <label className="block text-sm font-medium text-gray-600 mb-1">字符编码</label>
+            <select name="encoding" value={config.encoding} onChange={handleChange} className="w-full bg-gray-50 border border-gray-300 rounded-md py-2 px-3 text-sm focus:ring-2 focus:ring-blue-500 outline-none">
+              {(Object.keys(ENCODING_LABELS) as TextEncoding[]).map(enc => (
+                <option key={enc} value={enc}>{ENCODING_LABELS[enc]}</option>
+              ))}
+            </select>
+          </div>
+
           <div className="pt-4 border-t">
             <label className="block text-sm font-medium text-gray-600 mb-1">最大缓冲区大小</label>
             <select value={maxBufferSize} onChange={handleBufferSizeChange} className="w-full bg-gray-50 border border-gray-300 rounded-md py-2 px-3 text-sm focus:ring-2 focus:ring-blue-500 outline-none">
@@ -444,6 +481,48 @@ const Sidebar: React.FC<SidebarProps> = ({
                 <span>显示时间戳</span>
               </label>
 
+              <label className="flex items-center text-xs text-gray-700 cursor-pointer" title="解析 ANSI 颜色 / 粗体 / 下划线，处理 \r 与清行序列；关闭时显示原始转义字符">
+                <input
+                  type="checkbox"
+                  checked={isRenderAnsi}
+                  onChange={(e) => setIsRenderAnsi(e.target.checked)}
+                  className="mr-2 rounded text-blue-600 focus:ring-0"
+                />
+                <span>解析 ANSI 转义</span>
+              </label>
+
+              <div className="flex items-center text-xs text-gray-700 min-w-0" title="在文本视图中把控制字符和无效字节显示为可见记号（开启时不解析 ANSI 转义）">
+                <span className="whitespace-nowrap">不可见字符</span>
+                <select
+                  value={controlCharStyle}
+                  onChange={(e) => setControlCharStyle(e.target.value as ControlCharStyle)}
+                  className="flex-1 min-w-0 ml-2 px-1 py-0.5 border rounded outline-none focus:ring-1 focus:ring-blue-500 text-xs bg-white"
+                >
+                  {CONTROL_CHAR_STYLES.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+                </select>
+              </div>
+
+              <div className="flex items-center text-xs text-gray-700 min-w-0" title="HEX Dump 视图的每行字节数">
+                <span className="whitespace-nowrap">Dump 每行</span>
+                <select
+                  value={hexDumpBytesPerRow}
+                  onChange={(e) => setHexDumpBytesPerRow(Number(e.target.value) as HexDumpRowSize)}
+                  className="w-14 mx-1 px-1 py-0.5 border rounded outline-none focus:ring-1 focus:ring-blue-500 text-xs bg-white shrink-0"
+                >
+                  {HEX_DUMP_ROW_SIZES.map(n => <option key={n} value={n}>{n}</option>)}
+                </select>
+                <span className="whitespace-nowrap">字节</span>
+                <label className="flex items-center ml-auto cursor-pointer whitespace-nowrap" title="每个数据包从新行开始">
+                  <input
+                    type="checkbox"
+                    checked={isHexDumpPerPacket}
+                    onChange={(e) => setIsHexDumpPerPacket(e.target.checked)}
+                    className="mr-1 rounded text-blue-600 focus:ring-0"
+                  />
+                  <span>按包分行</span>
+                </label>
+              </div>
+
               <label className="flex items-center text-xs text-gray-700 cursor-pointer">
                 <input
                   type="checkbox"
@@ -493,7 +572,13 @@ const Sidebar: React.FC<SidebarProps> = ({
                     is_group_by_timeout: isGroupByTimeout,
                     group_timeout_ms: groupTimeoutMs,
                     is_show_timestamp: isShowTimestamp,
+                    is_render_ansi: isRenderAnsi,
+                    control_char_style: controlCharStyle,
+                    hex_dump_bytes_per_row: hexDumpBytesPerRow,
+                    is_hex_dump_per_packet: isHexDumpPerPacket,
                     rules,
+                    rule_groups: ruleGroups,
+                    line_filters: lineFilters,
                     quick_send_items: quickSendItems
                   };
                   const blob = new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' });
@@ -534,7 +619,15 @@ const Sidebar: React.FC<SidebarProps> = ({
                       if (json.is_group_by_timeout !== undefined) setIsGroupByTimeout(json.is_group_by_timeout);
                       if (json.group_timeout_ms) setGroupTimeoutMs(json.group_timeout_ms);
                       if (json.is_show_timestamp !== undefined) setIsShowTimestamp(json.is_show_timestamp);
-                      if (json.rules) setRules(json.rules);
+                      if (json.is_render_ansi !== undefined) setIsRenderAnsi(json.is_render_ansi);
+                      if (json.control_char_style) setControlCharStyle(json.control_char_style);
+                      if (json.hex_dump_bytes_per_row) setHexDumpBytesPerRow(json.hex_dump_bytes_per_row);
+                      if (json.is_hex_dump_per_packet !== undefined) setIsHexDumpPerPacket(json.is_hex_dump_per_packet);
+                      if (json.rules) {
+                        setRules(json.rules);
+                        setRuleGroups(json.rule_groups ?? []); // 旧版配置没有分组，规则均为未分组
+                      }
+                      if (json.line_filters) setLineFilters(json.line_filters);
                       if (json.quick_send_items) setQuickSendItems(json.quick_send_items);
                     } catch {
                       alert('无效的配置文件');
@@ -1,16 +1,127 @@
 import React, { useEffect, useRef, useCallback, useState, useMemo } from 'react';
-import { LogEntry, DisplayMode, Rule } from '../types';
-import { hexToUint8Array, uint8ArrayToString } from '../utils/converters';
+import { LogEntry, DisplayMode, Rule, RuleMarks, TextEncoding } from '../types';
+import { stringToUint8Array } from '../utils/converters';
+import { TextRange } from '../utils/search';
+import { AnsiStyle, ansiStyleToCss, renderAnsi } from '../utils/ansi';
+import { encodeText } from '../utils/encoding';
+import { ControlCharStyle, invalidByteLabels, visualizeText } from '../utils/controlChars';
+import { HexDumpCell, buildHexDump, dumpChar } from '../utils/hexDump';
+import { resolveMarks } from '../utils/ruleEngine';
+import { EnterMode, KeyInput, ENTER_BYTES, keyToInput } from '../utils/keymap';
 
 interface ColorSegment {
   text: string;
   color?: string;
   bgColor?: string;
+  search?: 'hit' | 'current';  // 搜索命中（当前项单独标记）
+  ansi?: AnsiStyle;            // ANSI SGR 样式（规则颜色优先）
+  clearScreen?: boolean;       // ESC[2J 清屏标记
 }
 
-function highlightText(text: string, data: Uint8Array, rules: Rule[]): ColorSegment[] {
-  if (!rules.length) return [{ text }];
+/** 搜索高亮：区间位于 logs 文本拼接后的坐标系；focusToken 变化时滚动到当前项 */
+export interface SearchHighlights {
+  ranges: TextRange[];
+  current: number;  // ranges 中的当前项下标，-1 = 不在当前视图
+  focusToken: number;
+}
+
+/** 把搜索区间叠加到一条日志的染色片段上（片段按区间边界再切分） */
+function overlaySearch(segments: ColorSegment[], logStart: number, ranges: TextRange[], current: number, from: number): ColorSegment[] {
+  const logEnd = logStart + segments.reduce((s, seg) => s + seg.text.length, 0);
+  if (from >= ranges.length || ranges[from].start >= logEnd) return segments;
+  const result: ColorSegment[] = [];
+  let pos = logStart;
+  let ri = from;
+  for (const seg of segments) {
+    const segEnd = pos + seg.text.length;
+    let cursor = pos;
+    while (cursor < segEnd) {
+      while (ri < ranges.length && ranges[ri].end <= cursor) ri++;
+      const r = ranges[ri];
+      if (!r || r.start >= segEnd) {
+        result.push({ ...seg, text: seg.text.slice(cursor - pos) });
+        break;
+      }
+      if (r.start > cursor) {
+        result.push({ ...seg, text: seg.text.slice(cursor - pos, r.start - pos) });
+        cursor = r.start;
+      }
+      const end = Math.min(r.end, segEnd);
+      result.push({ ...seg, text: seg.text.slice(cursor - pos, end - pos), search: ri === current ? 'current' : 'hit' });
+      cursor = end;
+    }
+    pos = segEnd;
+  }
+  return result;
+}
+
+/** 系统消息只显示搜索高亮（不参与规则染色） */
+function renderSystemText(segments: ColorSegment[]): React.ReactNode {
+  if (!segments.some(seg => seg.search)) return segments.map(seg => seg.text).join('');
+  return segments.map((seg, si) => seg.search
+    ? <span key={si} style={segmentStyle(seg)} data-search-current={seg.search === 'current' || undefined}>{seg.text}</span>
+    : seg.text);
+}
+
+/** 片段样式：搜索高亮覆盖规则背景色，规则颜色覆盖 ANSI 颜色 */
+function segmentStyle(seg: ColorSegment): React.CSSProperties {
+  const base = seg.ansi ? ansiStyleToCss(seg.ansi) : {};
+  if (seg.search === 'current') return { ...base, color: '#000', backgroundColor: '#fb923c' };
+  if (seg.search === 'hit') return { ...base, color: seg.color || base.color, backgroundColor: '#fde68a' };
+  return { ...base, color: seg.color || base.color, backgroundColor: seg.bgColor || base.backgroundColor };
+}
+
+/** 文本列片段：清屏标记显示为占位符号（不清除历史） */
+function renderTextSegment(seg: ColorSegment, si: number): React.ReactNode {
+  if (seg.clearScreen) {
+    return <span key={si} className="text-gray-300 select-none" title="终端清屏（ESC[2J）">⌧</span>;
+  }
+  return <span key={si} style={segmentStyle(seg)} data-search-current={seg.search === 'current' || undefined}>{seg.text}</span>;
+}
 
+/** 文本列片段（不可见字符可视化）：控制字符显示为记号，U+FFFD 还原为原始字节 */
+function renderVisualSegment(seg: ColorSegment, si: number, style: ControlCharStyle, invalidLabels: string[]): React.ReactNode {
+  return (
+    <span key={si} style={segmentStyle(seg)} data-search-current={seg.search === 'current' || undefined}>
+      {visualizeText(seg.text, style, invalidLabels).map((part, pi) => part.token
+        ? <span key={pi} className="text-slate-500 bg-slate-200/70 rounded-sm">{part.text}</span>
+        : part.text)}
+    </span>
+  );
+}
+
+/** HEX Dump 列间分隔：每 8 字节多留一个空格，行末不加 */
+const dumpSeparator = (col: number, bytesPerRow: number) => col >= bytesPerRow - 1 ? '' : col % 8 === 7 ? '  ' : ' ';
+
+/** HEX Dump 字节单元：相邻且片段、方向相同的字节合并为一个 span（HEX 列或 ASCII 列） */
+function renderDumpCells(cells: HexDumpCell<ColorSegment>[], bytesPerRow: number, ascii: boolean): React.ReactNode[] {
+  const nodes: React.ReactNode[] = [];
+  let start = 0;
+  for (let i = 1; i <= cells.length; i++) {
+    if (i < cells.length && cells[i].seg === cells[start].seg && cells[i].type === cells[start].type) continue;
+    const { seg, type } = cells[start];
+    let text = '';
+    for (let j = start; j < i; j++) {
+      text += ascii ? dumpChar(cells[j].byte) : cells[j].byte.toString(16).padStart(2, '0').toUpperCase() + dumpSeparator(j, bytesPerRow);
+    }
+    nodes.push(
+      <span
+        key={start}
+        className={type === 'tx' ? 'text-blue-600' : 'text-slate-800'}
+        style={seg ? segmentStyle(seg) : undefined}
+        data-search-current={seg?.search === 'current' || undefined}
+      >{text}</span>
+    );
+    start = i;
+  }
+  return nodes;
+}
+
+/**
+ * 按规则匹配结果生成每条日志的染色片段：RX/TX 的匹配区间换算到拼接坐标（系统消息不计入），
+ * 按规则优先级合并重叠部分，再切回各条日志（跨日志的匹配自动拆分）
+ */
+function colorLogs(logs: LogEntry[], marks: (RuleMarks | undefined)[], rules: Rule[]): ColorSegment[][] {
   // 收集所有匹配区间
   interface Interval {
     start: number;
@@ -19,63 +130,31 @@ function highlightText(text: string, data: Uint8Array, rules: Rule[]): ColorSegm
     bgColor?: string;
     priority: number;
   }
-  const intervals: Interval[] = [];
+  const priorities = new Map<string, number>();
+  rules.forEach((rule, ri) => {
+    if (rule.enabled !== false) priorities.set(rule.id, ri); // 停用的规则不参与染色
+  });
 
-  for (let ri = 0; ri < rules.length; ri++) {
-    const rule = rules[ri];
-    if (rule.enabled === false) continue; // 停用的规则不参与染色
-
-    // 将 key 转换为可搜索的文本（Hex 模式先转换）
-    const keyToText = (key: string, mode: DisplayMode): string => {
-      if (!key) return '';
-      if (mode === DisplayMode.Hex) {
-        try {
-          const bytes = hexToUint8Array(key);
-          return uint8ArrayToString(bytes);
-        } catch { return ''; }
-      }
-      return key;
-    };
-
-    const leftText = keyToText(rule.leftKey, rule.leftKeyMode);
-    const rightText = keyToText(rule.rightKey, rule.rightKeyMode);
-
-    // 区间模式：left + right 均非空
-    if (leftText && rightText) {
-      let searchFrom = 0;
-      while (searchFrom < text.length) {
-        const leftIdx = text.indexOf(leftText, searchFrom);
-        if (leftIdx === -1) break;
-        const rightIdx = text.indexOf(rightText, leftIdx + leftText.length);
-        if (rightIdx === -1) break;
-        intervals.push({
-          start: leftIdx,
-          end: rightIdx + rightText.length,
-          color: rule.color,
-          bgColor: rule.bgColor,
-          priority: ri
-        });
-        searchFrom = rightIdx + rightText.length;
-      }
-    } else if (leftText) {
-      // 关键词模式：仅填起始（结束留空），按 left 作为关键词染色
-      let searchFrom = 0;
-      while (searchFrom < text.length) {
-        const idx = text.indexOf(leftText, searchFrom);
-        if (idx === -1) break;
-        intervals.push({
-          start: idx,
-          end: idx + leftText.length,
-          color: rule.color,
-          bgColor: rule.bgColor,
-          priority: ri
-        });
-        searchFrom = idx + 1;
-      }
+  const intervals: Interval[] = [];
+  const offsets: number[] = [];
+  let total = 0;
+  logs.forEach((log, li) => {
+    offsets.push(total);
+    if (log.type !== 'rx' && log.type !== 'tx') return;
+    for (const span of marks[li]?.spans ?? []) {
+      const priority = priorities.get(span.ruleId);
+      if (priority === undefined) continue;
+      const rule = rules[priority];
+      intervals.push({
+        start: Math.max(0, total + span.start),
+        end: total + span.end,
+        color: rule.color,
+        bgColor: rule.bgColor,
+        priority
+      });
     }
-  }
-
-  if (!intervals.length) return [{ text }];
+    total += log.text.length;
+  });
 
   // 按 start 排序，同 start 时高 priority 排后（后覆盖前）
   intervals.sort((a, b) => a.start - b.start || a.priority - b.priority);
@@ -83,6 +162,7 @@ function highlightText(text: string, data: Uint8Array, rules: Rule[]): ColorSegm
   // 合并重叠区间（后定义的规则覆盖前面的）
   const merged: Interval[] = [];
   for (const iv of intervals) {
+    if (iv.end <= iv.start) continue;
     if (merged.length === 0) {
       merged.push({ ...iv });
       continue;
@@ -105,20 +185,29 @@ function highlightText(text: string, data: Uint8Array, rules: Rule[]): ColorSegm
     }
   }
 
-  // 切分文本为片段
-  const segments: ColorSegment[] = [];
-  let pos = 0;
-  for (const iv of merged) {
-    if (iv.start > pos) {
-      segments.push({ text: text.slice(pos, iv.start) });
+  // 按每条日志切分文本为片段，区间跨日志边界时自动拆分
+  let mi = 0;
+  return logs.map((log, li) => {
+    if (log.type !== 'rx' && log.type !== 'tx') return [{ text: log.text }];
+    const logStart = offsets[li];
+    const logEnd = logStart + log.text.length;
+    const segments: ColorSegment[] = [];
+    let pos = logStart;
+    while (mi < merged.length && merged[mi].start < logEnd) {
+      const iv = merged[mi];
+      const s = Math.max(iv.start, logStart);
+      const e = Math.min(iv.end, logEnd);
+      if (s > pos) segments.push({ text: log.text.slice(pos - logStart, s - logStart) });
+      if (s < e) {
+        segments.push({ text: log.text.slice(s - logStart, e - logStart), color: iv.color, bgColor: iv.bgColor });
+        pos = e;
+      }
+      if (iv.end <= logEnd) mi++;
+      else break; // 该区间跨越到下一条日志，保留 mi 供下一条继续切
     }
-    segments.push({ text: text.slice(iv.start, iv.end), color: iv.color, bgColor: iv.bgColor });
-    pos = iv.end;
-  }
-  if (pos < text.length) {
-    segments.push({ text: text.slice(pos) });
-  }
-  return segments;
+    if (pos < logEnd) segments.push({ text: log.text.slice(pos - logStart) });
+    return segments;
+  });
 }
 
 /** HEX 转换；仅在 \n（或 \r\n 的 \n）处换行，与文本列浏览器的换行行为保持一致 */
@@ -161,56 +250,62 @@ interface TerminalProps {
   onReachedBottom?: () => void;
   rules?: Rule[];
   isConnected?: boolean;
+  searchHighlights?: SearchHighlights | null;
+  isRenderAnsi?: boolean;  // 解析 ANSI 转义序列（关闭时显示原始字符）
+  /** 交互模式：终端获取键盘焦点，每次按键立即发送 */
+  interactive?: { enterMode: EnterMode; onInput: (input: KeyInput) => void } | null;
+  encoding?: TextEncoding;  // 规则 HEX 关键字、HEX 显示与键盘输入使用的字符编码
+  controlCharStyle?: ControlCharStyle;  // 文本列不可见字符的显示方式
+  hexDumpBytesPerRow?: number;  // HEX Dump 每行字节数
+  isHexDumpPerPacket?: boolean;  // HEX Dump 每个数据包从新行开始
 }
 
 const Terminal: React.FC<TerminalProps> = ({
   logs, displayMode, isGroupByTimeout, isShowTimestamp, terminalEndRef,
   lineFrequency, totalRxBytes = 0, totalTxBytes = 0,
   totalLogCount, hasMoreChunks = false, hiddenChunksCount = 0, onLoadMore, onReachedBottom,
-  rules = [], isConnected = false
+  rules = [], isConnected = false, searchHighlights = null, isRenderAnsi = true, interactive = null,
+  encoding = TextEncoding.UTF8, controlCharStyle = 'off' as ControlCharStyle,
+  hexDumpBytesPerRow = 16, isHexDumpPerPacket = true
 }) => {
-  // 染色缓存（跨条目：拼接所有日志文本后统一匹配，再按每条日志切回）
+  // 染色缓存：规则匹配结果已在写入日志时算好（缺失或过期时 resolveMarks 重新计算），这里只按优先级合并区间
   const coloredLogs = useMemo(() => {
     if (rules.length === 0) {
       return logs.map(log => ({ log, segments: [{ text: log.text } as ColorSegment] }));
     }
+    const segments = colorLogs(logs, resolveMarks(logs, rules, encoding), rules);
+    return logs.map((log, li) => ({ log, segments: segments[li] }));
+  }, [logs, rules, encoding]);
 
-    const texts = logs.map(l => l.text);
-    const joined = texts.join('');
-    const joinedSegments = highlightText(joined, new Uint8Array(), rules);
+  // 叠加搜索高亮（独立于染色缓存，搜索变化时不重新计算规则匹配）
+  const displayedLogs = useMemo(() => {
+    if (!searchHighlights || searchHighlights.ranges.length === 0) return coloredLogs;
+    const { ranges, current } = searchHighlights;
+    let offset = 0;
+    let ri = 0;
+    return coloredLogs.map(({ log, segments }) => {
+      while (ri < ranges.length && ranges[ri].end <= offset) ri++;
+      const result = { log, segments: overlaySearch(segments, offset, ranges, current, ri) };
+      offset += log.text.length;
+      return result;
+    });
+  }, [coloredLogs, searchHighlights]);
 
-    // 记录每个片段在 joined 中的 [start, end)
-    const segRanges: { start: number; end: number; seg: ColorSegment }[] = [];
-    let p = 0;
-    for (const seg of joinedSegments) {
-      segRanges.push({ start: p, end: p + seg.text.length, seg });
-      p += seg.text.length;
-    }
+  // 文本列：解析 ANSI 转义（HEX 模式显示原始字节、可视化不可见字符时显示原始控制字符，均不解析；系统消息不参与）
+  const textLogs = useMemo(() => {
+    if (!isRenderAnsi || displayMode === DisplayMode.Hex || controlCharStyle !== 'off') return displayedLogs;
+    const dataLogs = displayedLogs.filter(({ log }) => log.type === 'rx' || log.type === 'tx');
+    if (!dataLogs.some(({ log }) => /[\x1b\r\b]/.test(log.text))) return displayedLogs;
+    const rendered = renderAnsi(dataLogs.map(d => d.segments));
+    let di = 0;
+    return displayedLogs.map(d => d.log.type === 'rx' || d.log.type === 'tx' ? { log: d.log, segments: rendered[di++] } : d);
+  }, [displayedLogs, isRenderAnsi, displayMode, controlCharStyle]);
 
-    // 按每条日志切回，片段跨日志边界时自动拆分
-    const result: { log: LogEntry; segments: ColorSegment[] }[] = [];
-    let logStart = 0;
-    let si = 0;
-    for (const log of logs) {
-      const logEnd = logStart + log.text.length;
-      const segs: ColorSegment[] = [];
-      if (log.text.length > 0) {
-        while (si < segRanges.length && segRanges[si].start < logEnd) {
-          const r = segRanges[si];
-          const s = Math.max(r.start, logStart);
-          const e = Math.min(r.end, logEnd);
-          if (s < e) {
-            segs.push({ text: r.seg.text.slice(s - r.start, e - r.start), color: r.seg.color, bgColor: r.seg.bgColor });
-          }
-          if (r.end <= logEnd) si++;
-          else break; // 该片段跨越到下一个日志，保留 si 供下一条继续切
-        }
-      }
-      result.push({ log, segments: segs });
-      logStart = logEnd;
-    }
-    return result;
-  }, [logs, rules]);
+  // HEX Dump：按原始字节排成定宽行（不解析 ANSI），规则染色与搜索高亮随字节显示
+  const hexDumpRows = useMemo(
+    () => displayMode === DisplayMode.HexDump ? buildHexDump(displayedLogs, hexDumpBytesPerRow, isHexDumpPerPacket, encoding) : [],
+    [displayedLogs, displayMode, hexDumpBytesPerRow, isHexDumpPerPacket, encoding]
+  );
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const sentinelRef = useRef<HTMLDivElement>(null);
   const prevScrollHeightRef = useRef(0);
@@ -253,6 +348,57 @@ const Terminal: React.FC<TerminalProps> = ({
     }
   }, [logs, terminalEndRef]);
 
+  // 搜索跳转：滚动到当前匹配项并暂停自动跟随底部。目标所在块可能下一次渲染才加载，故先记下待定位，渲染后再滚动
+  const pendingFocusRef = useRef(false);
+  useEffect(() => {
+    if (searchHighlights) pendingFocusRef.current = true;
+  }, [searchHighlights?.focusToken]);
+  useEffect(() => {
+    if (!pendingFocusRef.current || !searchHighlights || searchHighlights.current < 0) return;
+    const el = scrollContainerRef.current?.querySelector('[data-search-current]');
+    if (!el) return;
+    pendingFocusRef.current = false;
+    isAtBottomRef.current = false;
+    el.scrollIntoView({ block: 'center' });
+  }, [displayedLogs]);
+
+  // 交互模式：开启时聚焦终端；按键映射为字节发送，已处理的按键不再触发全局快捷键
+  const [hasFocus, setHasFocus] = useState(false);
+  useEffect(() => {
+    if (interactive) scrollContainerRef.current?.focus();
+  }, [!!interactive]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!interactive) return;
+    // 有选中文本时 Ctrl+C 复制
+    if (e.ctrlKey && e.key.toLowerCase() === 'c' && window.getSelection()?.toString()) return;
+    const input = keyToInput(e, interactive.enterMode, encoding);
+    if (!input) return;
+    e.preventDefault();
+    e.stopPropagation();
+    isAtBottomRef.current = true;
+    interactive.onInput(input);
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    if (!interactive) return;
+    const text = e.clipboardData.getData('text');
+    if (!text) return;
+    e.preventDefault();
+    isAtBottomRef.current = true;
+    interactive.onInput({
+      data: stringToUint8Array(text.replace(/\r?\n/g, ENTER_BYTES[interactive.enterMode]), encoding),
+      echo: text.replace(/\r?\n/g, '\r\n')
+    });
+  };
+
+  // 数据条目的文本列内容：开启可视化时每条日志单独还原无效字节（片段间按顺序共享）
+  const renderDataText = (log: LogEntry, segments: ColorSegment[]): React.ReactNode => {
+    if (controlCharStyle === 'off') return segments.map(renderTextSegment);
+    const invalidLabels = invalidByteLabels(log.data, log.text, encoding);
+    return segments.map((seg, si) => renderVisualSegment(seg, si, controlCharStyle, invalidLabels));
+  };
+
   const handleLoadMore = useCallback(() => {
     if (!onLoadMore || isLoadingMoreRef.current) return;
     isLoadingMoreRef.current = true;
@@ -287,7 +433,12 @@ const Terminal: React.FC<TerminalProps> = ({
       <div
         ref={scrollContainerRef}
         onScroll={handleScroll}
-        className={`flex-1 p-4 overflow-y-auto custom-scrollbar font-mono text-[13px] bg-slate-50/20 ${displayMode !== DisplayMode.SplitView ? 'whitespace-pre-wrap break-all' : ''}`}
+        tabIndex={interactive ? 0 : undefined}
+        onKeyDown={handleKeyDown}
+        onPaste={handlePaste}
+        onFocus={() => setHasFocus(true)}
+        onBlur={() => setHasFocus(false)}
+        className={`flex-1 p-4 overflow-y-auto custom-scrollbar font-mono text-[13px] bg-slate-50/20 outline-none ${displayMode === DisplayMode.Text || displayMode === DisplayMode.Hex ? 'whitespace-pre-wrap break-all' : ''} ${interactive && hasFocus ? 'ring-2 ring-inset ring-blue-400' : ''}`}
       >
         <div ref={sentinelRef} className="h-1 w-full" />
 
@@ -308,17 +459,17 @@ const Terminal: React.FC<TerminalProps> = ({
           <div className="flex">
             {/* 左侧：文本列（overflow-x-scroll 始终预留横向滚动条高度，保证与右侧列高度对称） */}
             <div className="flex-1 overflow-x-scroll whitespace-pre border-r border-gray-300 pr-3 min-w-0">
-              {coloredLogs.map(({ log, segments }, idx) => {
+              {textLogs.map(({ log, segments }, idx) => {
                 const isSystem = log.type !== 'rx' && log.type !== 'tx';
                 if (isSystem) {
                   return (
                     <span key={log.id} className="text-amber-600 block my-2 text-xs border-l-2 border-amber-200 pl-2">
-                      {log.text}
+                      {renderSystemText(segments)}
                     </span>
                   );
                 }
                 const isFirst = idx === 0;
-                const prevLog = idx > 0 ? coloredLogs[idx - 1].log : null;
+                const prevLog = idx > 0 ? textLogs[idx - 1].log : null;
                 const prevIsSystem = prevLog && prevLog.type !== 'rx' && prevLog.type !== 'tx';
                 const prevEndsNewline = prevLog && !prevIsSystem && prevLog.text.endsWith('\n');
                 const secondChanged = prevLog && !prevIsSystem &&
@@ -331,26 +482,24 @@ const Terminal: React.FC<TerminalProps> = ({
                         [{log.timestamp.toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit', fractionalDigits: 3 } as any)}]
                       </span>
                     )}
-                    {segments.map((seg, si) => (
-                      <span key={si} style={{ color: seg.color, backgroundColor: seg.bgColor }}>{seg.text}</span>
-                    ))}
+                    {renderDataText(log, segments)}
                   </span>
                 );
               })}
             </div>
             {/* 右侧：HEX 列 */}
             <div className="flex-1 overflow-x-scroll whitespace-pre pl-3 min-w-0">
-              {coloredLogs.map(({ log, segments }, idx) => {
+              {displayedLogs.map(({ log, segments }, idx) => {
                 const isSystem = log.type !== 'rx' && log.type !== 'tx';
                 if (isSystem) {
                   return (
                     <span key={log.id} className="text-amber-600 block my-2 text-xs border-l-2 border-amber-200 pl-2">
-                      {log.text}
+                      {renderSystemText(segments)}
                     </span>
                   );
                 }
                 const isFirst = idx === 0;
-                const prevLog = idx > 0 ? coloredLogs[idx - 1].log : null;
+                const prevLog = idx > 0 ? displayedLogs[idx - 1].log : null;
                 const prevIsSystem = prevLog && prevLog.type !== 'rx' && prevLog.type !== 'tx';
                 const prevEndsNewline = prevLog && !prevIsSystem && prevLog.text.endsWith('\n');
                 const secondChanged = prevLog && !prevIsSystem &&
@@ -364,9 +513,9 @@ const Terminal: React.FC<TerminalProps> = ({
                       </span>
                     )}
                     {segments.map((seg, si) => {
-                      const bytes = new TextEncoder().encode(seg.text);
+                      const bytes = encodeText(seg.text, encoding);
                       return (
-                        <span key={si} style={{ color: seg.color, backgroundColor: seg.bgColor }}>{bytesToHexWithBreaks(bytes)}</span>
+                        <span key={si} style={segmentStyle(seg)} data-search-current={seg.search === 'current' || undefined}>{bytesToHexWithBreaks(bytes)}</span>
                       );
                     })}
                   </span>
@@ -374,21 +523,51 @@ const Terminal: React.FC<TerminalProps> = ({
               })}
             </div>
           </div>
+        ) : displayMode === DisplayMode.HexDump ? (
+          <div className="whitespace-pre">
+            {hexDumpRows.map(row => {
+              if (row.kind === 'system') {
+                return (
+                  <span key={row.key} className="text-amber-600 block my-2 text-xs border-l-2 border-amber-200 pl-2">
+                    {renderSystemText(row.segments)}
+                  </span>
+                );
+              }
+              let padding = '';
+              for (let col = row.cells.length; col < hexDumpBytesPerRow; col++) padding += '  ' + dumpSeparator(col, hexDumpBytesPerRow);
+              return (
+                <div key={row.key}>
+                  {isShowTimestamp && (
+                    <span className="inline-block w-24 text-gray-400 text-[10px] select-none opacity-70">
+                      {row.timestamp && `[${row.timestamp.toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit', fractionalDigits: 3 } as any)}]`}
+                    </span>
+                  )}
+                  <span className="text-gray-400 select-none">{row.offset.toString(16).padStart(8, '0').toUpperCase()}  </span>
+                  {renderDumpCells(row.cells, hexDumpBytesPerRow, false)}
+                  {padding}
+                  <span className="text-gray-300 select-none">  |</span>
+                  {renderDumpCells(row.cells, hexDumpBytesPerRow, true)}
+                  {' '.repeat(hexDumpBytesPerRow - row.cells.length)}
+                  <span className="text-gray-300 select-none">|</span>
+                </div>
+              );
+            })}
+          </div>
         ) : (
           <div className="inline">
-            {coloredLogs.map(({ log, segments }, idx) => {
+            {textLogs.map(({ log, segments }, idx) => {
               const isSystem = log.type !== 'rx' && log.type !== 'tx';
               if (isSystem) {
                 return (
                   <span key={log.id} className="text-amber-600 block my-2 text-xs border-l-2 border-amber-200 pl-2">
-                    {log.text}
+                    {renderSystemText(segments)}
                   </span>
                 );
               }
 
               // 时间戳：仅在第一条、上条以 \n 结尾、或秒数变化时显示
               const isFirst = idx === 0;
-              const prevLog = idx > 0 ? coloredLogs[idx - 1].log : null;
+              const prevLog = idx > 0 ? textLogs[idx - 1].log : null;
               const prevIsSystem = prevLog && prevLog.type !== 'rx' && prevLog.type !== 'tx';
               const prevEndsNewline = prevLog && !prevIsSystem && prevLog.text.endsWith('\n');
               const secondChanged = prevLog && !prevIsSystem &&
@@ -404,14 +583,12 @@ const Terminal: React.FC<TerminalProps> = ({
                   )}
                   {displayMode === DisplayMode.Hex
                     ? segments.map((seg, si) => {
-                        const bytes = new TextEncoder().encode(seg.text);
+                        const bytes = encodeText(seg.text, encoding);
                         return (
-                          <span key={si} style={{ color: seg.color, backgroundColor: seg.bgColor }}>{bytesToHexWithBreaks(bytes)}</span>
+                          <span key={si} style={segmentStyle(seg)} data-search-current={seg.search === 'current' || undefined}>{bytesToHexWithBreaks(bytes)}</span>
                         );
                       })
-                    : segments.map((seg, si) => (
-                      <span key={si} style={{ color: seg.color, backgroundColor: seg.bgColor }}>{seg.text}</span>
-                    ))}
+                    : renderDataText(log, segments)}
                 </span>
               );
             })}
@@ -420,6 +597,15 @@ const Terminal: React.FC<TerminalProps> = ({
         <div ref={terminalEndRef} className="h-4 w-full invisible" />
       </div>
 
+      {interactive && !hasFocus && (
+        <button
+          onClick={() => scrollContainerRef.current?.focus()}
+          className="absolute top-2 right-4 px-2 py-1 text-[10px] font-sans bg-blue-500 text-white rounded shadow-sm opacity-80 hover:opacity-100"
+        >
+          <i className="fas fa-keyboard mr-1"></i>点击终端开始输入
+        </button>
+      )}
+
       <div className="bg-white px-4 py-1.5 text-[10px] text-gray-400 flex justify-between border-t border-gray-100 font-sans select-none">
         <div className="flex space-x-4">
           <span>总行数: {totalLogCount ?? logs.length}</span>
@@ -0,0 +1,130 @@
+/**
+ * 规则匹配基准：模拟 2 Mbaud（8N1 每字节 10 位，约 200 KB/s）的 RX 流，比较
+ * 增量匹配引擎（每包只扫描新数据）与旧做法（每来一包就把可见日志重新拼接扫描一遍）。
+ * 运行：npm run bench
+ */
+import { DisplayMode, Rule, TextEncoding } from '../types';
+import { createRuleEngine } from '../utils/ruleEngine';
+import { keyToText } from '../utils/ruleMatch';
+import { compileRuleRegExp, forEachRegexMatch, isRegexRule } from '../utils/ruleRegex';
+
+const BAUD = 2_000_000;
+const BYTES_PER_SEC = BAUD / 10;
+const PACKET_SIZES = [64, 512, 4096]; // 单次读取到的字节数（USB 转串口常见的包大小）
+const ENGINE_SECONDS = 10;            // 增量引擎处理的数据时长
+const LEGACY_SECONDS = 1;             // 旧做法太慢，只跑 1 秒的数据
+const VISIBLE_TEXT = 20 * 1024;       // 旧做法每包重扫的可见文本量（终端默认渲染 2 个 10KB 块）
+
+const rule = (id: string, fields: Partial<Rule>): Rule => ({
+  id,
+  color: '#e53e3e',
+  leftKey: '',
+  leftKeyMode: DisplayMode.Text,
+  rightKey: '',
+  rightKeyMode: DisplayMode.Text,
+  displayMode: DisplayMode.Text,
+  ...fields
+});
+
+const RULES: Rule[] = [
+  rule('err', { leftKey: 'ERROR' }),
+  rule('warn', { leftKey: 'WARN' }),
+  rule('fault', { leftKey: 'HardFault' }),
+  rule('assert', { leftKey: 'assert failed' }),
+  rule('ok', { leftKey: 'state=OK' }),
+  rule('crlf', { leftKey: '0D 0A', leftKeyMode: DisplayMode.Hex }),
+  rule('temp', { leftKey: 'T=', rightKey: 'C' }),
+  rule('stamp', { leftKey: '[', rightKey: ']' }),
+  rule('adc', { matchMode: 'regex', pattern: 'adc=(\\d+)', group: 1 }),
+  rule('addr', { matchMode: 'regex', pattern: '0x[0-9A-Fa-f]{8}' })
+];
+
+/** 生成一段模拟固件日志 */
+function makeStream(bytes: number): string {
+  const lines: string[] = [];
+  let size = 0;
+  for (let i = 0; size < bytes; i++) {
+    let line = `[${(i / 100).toFixed(3).padStart(9, '0')}] T=${(20 + Math.sin(i / 50) * 5).toFixed(2)}C adc=${(i * 37) % 4096} state=OK`;
+    if (i % 97 === 0) line += ' WARN low voltage';
+    if (i % 1009 === 0) line += ' ERROR HardFault at 0x0800ABCD, assert failed';
+    line += '\r\n';
+    lines.push(line);
+    size += line.length;
+  }
+  return lines.join('').slice(0, bytes);
+}
+
+/** 旧做法：整段文本逐条规则扫描（与改造前 Terminal / RuleList 的算法相同） */
+function legacyScan(text: string, rules: Rule[], encoding: TextEncoding): number {
+  let count = 0;
+  for (const r of rules) {
+    if (isRegexRule(r)) {
+      const re = compileRuleRegExp(r);
+      if (re instanceof RegExp) forEachRegexMatch(text, re, () => { count++; });
+      continue;
+    }
+    const left = keyToText(r.leftKey, r.leftKeyMode, encoding);
+    const right = keyToText(r.rightKey, r.rightKeyMode, encoding);
+    let from = 0;
+    while (from < text.length) {
+      const li = text.indexOf(left, from);
+      if (li === -1) break;
+      if (right) {
+        const ri = text.indexOf(right, li + left.length);
+        if (ri === -1) break;
+        from = ri + right.length;
+      } else {
+        from = li + 1;
+      }
+      count++;
+    }
+  }
+  return count;
+}
+
+function packets(stream: string, size: number): string[] {
+  const result: string[] = [];
+  for (let i = 0; i < stream.length; i += size) result.push(stream.slice(i, i + size));
+  return result;
+}
+
+function report(name: string, packetSize: number, bytes: number, ms: number, packetCount: number) {
+  const seconds = bytes / BYTES_PER_SEC;
+  const cpu = ms / 1000 / seconds;
+  console.log(
+    `${name.padEnd(10)} 包 ${String(packetSize).padStart(4)} B  ` +
+    `${(bytes / 1024).toFixed(0).padStart(5)} KB / ${ms.toFixed(1).padStart(8)} ms  ` +
+    `每包 ${((ms * 1000) / packetCount).toFixed(1).padStart(8)} µs  ` +
+    `吞吐 ${(bytes / 1024 / 1024 / (ms / 1000)).toFixed(1).padStart(7)} MB/s  ` +
+    `占实时 CPU ${(cpu * 100).toFixed(1).padStart(7)}%`
+  );
+}
+
+const encoding = TextEncoding.UTF8;
+const stream = makeStream(BYTES_PER_SEC * ENGINE_SECONDS);
+console.log(`2 Mbaud ≈ ${(BYTES_PER_SEC / 1024).toFixed(0)} KB/s，${RULES.length} 条规则（关键词 / 区间 / 正则）\n`);
+
+for (const size of PACKET_SIZES) {
+  const all = packets(stream, size);
+
+  const engine = createRuleEngine();
+  let spans = 0;
+  const t0 = performance.now();
+  for (const p of all) spans += engine.push(p, RULES, encoding).spans.length;
+  report('增量引擎', size, stream.length, performance.now() - t0, all.length);
+
+  // 旧做法：维护可见文本窗口，每包重新扫描
+  const legacyPackets = all.slice(0, Math.ceil((BYTES_PER_SEC * LEGACY_SECONDS) / size));
+  let visible = '';
+  let legacyBytes = 0;
+  let matches = 0;
+  const t1 = performance.now();
+  for (const p of legacyPackets) {
+    visible = (visible + p).slice(-VISIBLE_TEXT);
+    legacyBytes += p.length;
+    matches += legacyScan(visible, RULES, encoding);
+  }
+  report('全量重扫', size, legacyBytes, performance.now() - t1, legacyPackets.length);
+  if (spans === 0 || matches === 0) console.log('（警告：没有匹配，数据或规则有误）');
+  console.log('');
+}
@@ -15,6 +15,16 @@ export enum DataBits {
   Eight = 8
 }
 
+/** 收发文本的字符编码（RX 解码、发送文本转字节、规则关键字、TXT 导出） */
+export enum TextEncoding {
+  UTF8 = 'utf-8',
+  GBK = 'gbk',
+  Latin1 = 'latin1',     // ISO-8859-1：字节值即码点
+  ShiftJIS = 'shift_jis',
+  ASCII = 'ascii',       // 仅 7 位，高位字节显示为 �
+  CP437 = 'cp437'        // DOS 代码页 437（制表符、希腊字母等）
+}
+
 export interface SerialConfig {
   baudRate: number;
   dataBits: DataBits;
@@ -23,17 +33,40 @@ export interface SerialConfig {
   bufferSize: number;
   dtr: boolean;  // 初始流控 DTR（连接瞬间应用，可预置）
   rts: boolean;  // 初始流控 RTS（连接瞬间应用，可预置）
+  encoding: TextEncoding;
 }
 
 export enum DisplayMode {
   Text = 'text',
   Hex = 'hex',
-  SplitView = 'splitview'
+  SplitView = 'splitview',
+  HexDump = 'hexdump'
 }
 
 export enum FileSendMode {
   Raw = 'raw',
-  YModem = 'ymodem'
+  YModem = 'ymodem',
+  XModem = 'xmodem',        // 校验和
+  XModemCRC = 'xmodem-crc',
+  XModem1K = 'xmodem-1k',
+  ZModem = 'zmodem'
+}
+
+export interface FileSendOptions {
+  mode: FileSendMode;
+  throttleBytes: number;  // RAW：每批发送字节数
+  throttleMs: number;     // RAW：批间延迟
+  timeoutMs: number;      // X/Y/ZModem：等待应答超时
+  retries: number;        // X/Y/ZModem：每块最大重试次数
+  onProgress: (p: number) => void;
+}
+
+export interface FileReceiveOptions {
+  mode: FileSendMode;     // 仅 X/Y/ZModem 可接收
+  timeoutMs: number;
+  retries: number;
+  onProgress: (p: number) => void;
+  onReceived: (bytes: number) => void;
 }
 
 export enum CommMode {
@@ -55,6 +88,46 @@ export interface LogEntry {
   data: Uint8Array;
   text: string;
   byteCount: number; // 记录实际接收/发送的字节数
+  marks?: RuleMarks; // 规则匹配结果（RX/TX 写入时由匹配引擎计算一次）
+  echo?: string; // 交互终端按键发送的 TX：本地回显开启时终端显示的文本（空 = 不显示，如方向键）
+}
+
+/** 规则染色区间：相对所在日志文本，start 可为负（匹配起始于之前的日志） */
+export interface RuleSpan {
+  ruleId: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * 规则提取结果：在所在日志内结束的匹配，end 为结束位置（相对本条文本）。
+ * 正则匹配触及数据末尾时先标记为 tentative（可能还会变长，如数字被拆包），
+ * 下一包重新匹配到的同一处匹配标记为 continued，取代之前的暂定结果
+ */
+export interface RuleHit {
+  ruleId: string;
+  text: string;
+  end: number;
+  tentative?: boolean;
+  continued?: boolean;
+}
+
+/**
+ * 规则提取的数值（统计与曲线使用）：区间内容 / 正则捕获组中的第一个数，关键词模式为关键字后紧跟的数；
+ * 只在数值确定后给出一次，end 为数值结束位置（相对本条文本）
+ */
+export interface RuleValue {
+  ruleId: string;
+  value: number;
+  end: number;
+}
+
+/** 一条日志的规则匹配结果；key 为计算时的规则匹配配置，与当前配置不同则视为过期 */
+export interface RuleMarks {
+  key: string;
+  spans: RuleSpan[];
+  hits: RuleHit[];
+  values: RuleValue[];
 }
 
 export interface QuickSendItem {
@@ -74,4 +147,47 @@ export interface Rule {
   rightKey: string;          // 结束（留空 = 关键词模式）
   rightKeyMode: DisplayMode;
   displayMode: DisplayMode;  // 提取结果显示模式（T/H）
+  matchMode?: 'key' | 'regex';  // 匹配方式（默认 key = 起始/结束关键字，regex = 正则表达式）
+  pattern?: string;          // 正则模式：表达式
+  flags?: string;            // 正则模式：标志（i / m / s / u，g 自动添加）
+  group?: number;            // 正则模式：提取的捕获组（默认 0 = 整个匹配）
+  action?: RuleAction;       // 自动响应：RX 中命中规则时发送数据
+  alert?: RuleAlert;         // 告警：RX 中命中规则时提醒
+  groupId?: string;          // 所属分组（空 = 未分组）
+}
+
+/** 规则分组：可整组启用 / 停用，单独导入导出（如 bootloader / 应用 / 产测各一组） */
+export interface RuleGroup {
+  id: string;
+  name: string;
+  enabled?: boolean;         // 整组启用（默认 true，停用后组内规则全部不生效）
+  collapsed?: boolean;       // 列表中折叠
+}
+
+/** 规则命中后的告警方式（可组合） */
+export interface RuleAlert {
+  enabled?: boolean;         // 是否启用（默认 true）
+  sound?: boolean;           // 播放提示音
+  notify?: boolean;          // 桌面通知（显示匹配内容）
+  flashTitle?: boolean;      // 标签页标题闪烁
+  pause?: boolean;           // 暂停记录，保留故障现场
+}
+
+/** 规则命中后的自动响应 */
+export interface RuleAction {
+  enabled?: boolean;         // 是否启用（默认 true）
+  payload: string;           // 发送内容
+  payloadMode: DisplayMode;  // 发送内容格式（Text / HEX）
+  addNewline?: boolean;      // Text 模式下追加 \r\n
+  delayMs?: number;          // 命中后延迟发送（毫秒）
+  cooldownSec?: number;      // 限频：N 秒内最多触发一次（0 = 不限）
+}
+
+export interface LineFilter {
+  id: string;
+  enabled?: boolean;             // 是否生效（默认 true）
+  action: 'include' | 'exclude'; // 包含：只显示匹配的行；排除：隐藏匹配的行
+  pattern: string;
+  mode: 'text' | 'hex' | 'regex';
+  caseSensitive?: boolean;       // HEX 模式忽略
 }
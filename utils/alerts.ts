@@ -0,0 +1,73 @@
+let audioContext: AudioContext | null = null;
+
+/** 提示音：用 Web Audio 合成两声短促的蜂鸣，无需音频文件 */
+export function playAlertSound(): void {
+  try {
+    audioContext ??= new AudioContext();
+    const ctx = audioContext;
+    if (ctx.state === 'suspended') ctx.resume();
+    for (const offset of [0, 0.18]) {
+      const osc = ctx.createOscillator();
+      const gain = ctx.createGain();
+      osc.type = 'square';
+      osc.frequency.value = 880;
+      const start = ctx.currentTime + offset;
+      gain.gain.setValueAtTime(0.15, start);
+      gain.gain.exponentialRampToValueAtTime(0.001, start + 0.15);
+      osc.connect(gain).connect(ctx.destination);
+      osc.start(start);
+      osc.stop(start + 0.15);
+    }
+  } catch {
+    // 浏览器不支持或被策略禁止时静默忽略
+  }
+}
+
+/** 申请桌面通知权限（需在用户操作中调用），返回是否已授权 */
+export async function requestNotificationPermission(): Promise<boolean> {
+  if (typeof Notification === 'undefined') return false;
+  if (Notification.permission === 'granted') return true;
+  if (Notification.permission === 'denied') return false;
+  return (await Notification.requestPermission()) === 'granted';
+}
+
+/** 桌面通知：同一规则的通知用 tag 合并，避免堆积 */
+export function showAlertNotification(title: string, body: string, tag: string): void {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  try {
+    const notification = new Notification(title, { body, tag });
+    notification.onclick = () => {
+      window.focus();
+      notification.close();
+    };
+  } catch {
+    // 部分环境（如未激活的 Service Worker 上下文）不允许直接构造
+  }
+}
+
+let flashTimer: number | null = null;
+let originalTitle = '';
+
+/** 停止标题闪烁并还原原标题 */
+export function stopTitleFlash(): void {
+  if (flashTimer === null) return;
+  window.clearInterval(flashTimer);
+  flashTimer = null;
+  document.title = originalTitle;
+}
+
+/** 标签页标题在提示文字与原标题之间闪烁，直到页面重新获得焦点 */
+export function flashTitle(message: string): void {
+  if (document.hasFocus()) return;
+  if (flashTimer === null) {
+    originalTitle = document.title;
+    window.addEventListener('focus', stopTitleFlash, { once: true });
+  } else {
+    window.clearInterval(flashTimer);
+  }
+  let on = false;
+  flashTimer = window.setInterval(() => {
+    on = !on;
+    document.title = on ? message : originalTitle;
+  }, 800);
+}
@@ -0,0 +1,269 @@
+import type { CSSProperties } from 'react';
+
+/** SGR 样式状态 */
+export interface AnsiStyle {
+  fg?: string;
+  bg?: string;
+  bold?: boolean;
+  dim?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  inverse?: boolean;
+}
+
+/** 解析后的片段：ansi 为当前 SGR 样式，clearScreen 标记 ESC[2J 出现的位置（文本为空） */
+export type AnsiSegment<S> = S & { ansi?: AnsiStyle; clearScreen?: boolean };
+
+// 16 色调色板（适配浅色背景，参考 VS Code 浅色终端主题）
+const PALETTE_16 = [
+  '#000000', '#cd3131', '#00bc00', '#949800', '#0451a5', '#bc05bc', '#0598bc', '#555555',
+  '#666666', '#cd3131', '#14ce14', '#b5ba00', '#0451a5', '#bc05bc', '#0598bc', '#a5a5a5'
+];
+
+const hex2 = (n: number) => Math.max(0, Math.min(255, n | 0)).toString(16).padStart(2, '0');
+const rgb = (r: number, g: number, b: number) => `#${hex2(r)}${hex2(g)}${hex2(b)}`;
+
+/** 256 色：0-15 基本色，16-231 为 6×6×6 色立方，232-255 为灰阶 */
+function color256(n: number): string | undefined {
+  if (n < 0 || n > 255 || Number.isNaN(n)) return undefined;
+  if (n < 16) return PALETTE_16[n];
+  if (n < 232) {
+    const levels = [0, 95, 135, 175, 215, 255];
+    const i = n - 16;
+    return rgb(levels[Math.floor(i / 36)], levels[Math.floor(i / 6) % 6], levels[i % 6]);
+  }
+  const gray = 8 + (n - 232) * 10;
+  return rgb(gray, gray, gray);
+}
+
+/** 应用 SGR 参数（ESC[...m），返回新的样式对象 */
+function applySgr(style: AnsiStyle, params: string): AnsiStyle {
+  const codes = params === '' ? [0] : params.split(';').map(p => p === '' ? 0 : parseInt(p, 10));
+  let next: AnsiStyle = { ...style };
+  for (let i = 0; i < codes.length; i++) {
+    const c = codes[i];
+    if (c === 0) next = {};
+    else if (c === 1) next.bold = true;
+    else if (c === 2) next.dim = true;
+    else if (c === 3) next.italic = true;
+    else if (c === 4) next.underline = true;
+    else if (c === 7) next.inverse = true;
+    else if (c === 22) { next.bold = false; next.dim = false; }
+    else if (c === 23) next.italic = false;
+    else if (c === 24) next.underline = false;
+    else if (c === 27) next.inverse = false;
+    else if (c >= 30 && c <= 37) next.fg = PALETTE_16[c - 30];
+    else if (c === 39) next.fg = undefined;
+    else if (c >= 40 && c <= 47) next.bg = PALETTE_16[c - 40];
+    else if (c === 49) next.bg = undefined;
+    else if (c >= 90 && c <= 97) next.fg = PALETTE_16[c - 90 + 8];
+    else if (c >= 100 && c <= 107) next.bg = PALETTE_16[c - 100 + 8];
+    else if (c === 38 || c === 48) {
+      // 扩展色：38;5;n（256 色）/ 38;2;r;g;b（真彩色）
+      let color: string | undefined;
+      if (codes[i + 1] === 5) {
+        color = color256(codes[i + 2]);
+        i += 2;
+      } else if (codes[i + 1] === 2) {
+        color = rgb(codes[i + 2] ?? 0, codes[i + 3] ?? 0, codes[i + 4] ?? 0);
+        i += 4;
+      }
+      if (c === 38) next.fg = color; else next.bg = color;
+    }
+  }
+  return next;
+}
+
+const isEmptyStyle = (s: AnsiStyle) =>
+  !s.fg && !s.bg && !s.bold && !s.dim && !s.italic && !s.underline && !s.inverse;
+
+/** SGR 样式转为内联样式 */
+export function ansiStyleToCss(style: AnsiStyle): CSSProperties {
+  const css: CSSProperties = {};
+  const fg = style.inverse ? (style.bg ?? '#ffffff') : style.fg;
+  const bg = style.inverse ? (style.fg ?? '#1e293b') : style.bg;
+  if (fg) css.color = fg;
+  if (bg) css.backgroundColor = bg;
+  if (style.bold) css.fontWeight = 'bold';
+  if (style.dim) css.opacity = 0.7;
+  if (style.italic) css.fontStyle = 'italic';
+  if (style.underline) css.textDecoration = 'underline';
+  return css;
+}
+
+const SPECIAL = /[\x1b\r\n\b\x07]/g;
+const MAX_SEQUENCE = 256; // 超长的未完成序列视为乱码，回到文本状态
+
+/**
+ * 解析 ANSI / VT100 转义序列：输入为按日志条目分组的片段（已完成规则染色与搜索高亮），
+ * 转义序列本身不显示，SGR 样式跨片段、跨条目延续（序列被拆到两个数据包时同样能识别）。
+ * 当前行维护光标列，支持设备端行编辑的回显：
+ * - \r 回到行首、\b 左移一格，之后的字符覆盖原有内容（进度条、退格 "\b \b"）
+ * - ESC[K 擦除（0 光标到行尾 / 1 行首到光标 / 2 整行），ESC[nD / nC / nG 移动光标，ESC[nP 删除、ESC[n@ 插入空格
+ * - ESC[2J / ESC[3J 不清除历史，只在原位置插入清屏标记；光标上下移动等无法在日志视图中还原的序列直接隐藏
+ * - OSC（窗口标题）与 BEL 隐藏
+ */
+export function renderAnsi<S extends { text: string }>(logs: S[][]): AnsiSegment<S>[][] {
+  let state: 'text' | 'esc' | 'csi' | 'osc' | 'oscEsc' = 'text';
+  let params = '';
+  let style: AnsiStyle = {};
+  // 当前行：已输出的片段（可能跨条目）+ 尚未输出的 run；lineLen 含 run，cursor 为光标列
+  let line: AnsiSegment<S>[] = [];
+  let lineLen = 0;
+  let cursor = 0;
+  let seg: S;
+  let result: AnsiSegment<S>[] = [];
+  let run = '';
+
+  const flush = () => {
+    if (run === '') return;
+    const part: AnsiSegment<S> = { ...seg, text: run, ansi: isEmptyStyle(style) ? undefined : style };
+    result.push(part);
+    line.push(part);
+    run = '';
+  };
+
+  const newLine = () => {
+    line = [];
+    lineLen = 0;
+    cursor = 0;
+  };
+
+  // 把当前行 [start, start + deleteCount) 替换为 insert（插入到 start 所在片段，沿用该片段样式）
+  const spliceLine = (start: number, deleteCount: number, insert: string) => {
+    if (start >= lineLen) return;
+    flush();
+    let remaining = Math.min(deleteCount, lineLen - start);
+    lineLen += insert.length - remaining;
+    let pending = insert;
+    let pos = 0;
+    for (const part of line) {
+      const len = part.text.length;
+      if (pos + len <= start) {
+        pos += len;
+        continue;
+      }
+      const offset = Math.max(0, start - pos);
+      const del = Math.min(remaining, len - offset);
+      part.text = part.text.slice(0, offset) + pending + part.text.slice(offset + del);
+      pending = '';
+      remaining -= del;
+      pos += len;
+      if (remaining === 0) break;
+    }
+  };
+
+  // 在光标处写入文本：行内覆盖，超出行尾追加（光标越过行尾时以空格补齐）
+  const write = (text: string) => {
+    if (cursor < lineLen) {
+      const n = Math.min(text.length, lineLen - cursor);
+      spliceLine(cursor, n, text.slice(0, n));
+      cursor += n;
+      text = text.slice(n);
+      if (text === '') return;
+    }
+    if (cursor > lineLen) {
+      run += ' '.repeat(cursor - lineLen);
+      lineLen = cursor;
+    }
+    run += text;
+    lineLen += text.length;
+    cursor = lineLen;
+  };
+
+  const handleCsi = (final: string) => {
+    const n = Math.max(1, parseInt(params, 10) || 1);
+    switch (final) {
+      case 'm':
+        flush();
+        style = applySgr(style, params);
+        break;
+      case 'K':
+        if (params === '1') spliceLine(0, cursor + 1, ' '.repeat(Math.min(cursor + 1, lineLen)));
+        else if (params === '2') spliceLine(0, lineLen, '');
+        else spliceLine(cursor, lineLen - cursor, '');
+        break;
+      case 'J':
+        if (params === '2' || params === '3') {
+          flush();
+          result.push({ ...seg, text: '', ansi: undefined, clearScreen: true });
+          newLine();
+        } else if (params === '' || params === '0') {
+          spliceLine(cursor, lineLen - cursor, '');
+        }
+        break;
+      case 'D':
+        cursor = Math.max(0, cursor - n);
+        break;
+      case 'C':
+        cursor += n;
+        break;
+      case 'G':
+        cursor = n - 1;
+        break;
+      case 'P':
+        spliceLine(cursor, n, '');
+        break;
+      case '@':
+        spliceLine(cursor, 0, ' '.repeat(n));
+        break;
+    }
+  };
+
+  return logs.map(segments => {
+    result = [];
+    for (seg of segments) {
+      const text = seg.text;
+      let i = 0;
+      while (i < text.length) {
+        if (state === 'text') {
+          SPECIAL.lastIndex = i;
+          const m = SPECIAL.exec(text);
+          const next = m ? m.index : text.length;
+          if (next > i) {
+            write(text.slice(i, next));
+            i = next;
+            continue;
+          }
+          const ch = text[i++];
+          if (ch === '\n') {
+            // 换行总是落在行尾
+            run += ch;
+            flush();
+            newLine();
+          } else if (ch === '\r') {
+            cursor = 0;
+          } else if (ch === '\b') {
+            cursor = Math.max(0, cursor - 1);
+          } else if (ch === '\x1b') {
+            state = 'esc';
+          }
+          continue;
+        }
+        const ch = text[i++];
+        if (state === 'esc') {
+          if (ch === '[') { state = 'csi'; params = ''; }
+          else if (ch === ']') { state = 'osc'; params = ''; }
+          else state = 'text'; // 双字符序列（如 ESC 7 / ESC 8）直接隐藏
+        } else if (state === 'csi') {
+          if (ch >= '@' && ch <= '~') {
+            state = 'text';
+            handleCsi(ch);
+          } else if (params.length < MAX_SEQUENCE) {
+            params += ch;
+          } else {
+            state = 'text';
+          }
+        } else if (state === 'osc') {
+          if (ch === '\x07') state = 'text';
+          else if (ch === '\x1b') state = 'oscEsc';
+          else if ((params += ch).length > MAX_SEQUENCE) state = 'text';
+        } else {
+          state = 'text'; // ESC \ 结束 OSC
+        }
+      }
+      flush();
+    }
+    return result;
+  });
+}
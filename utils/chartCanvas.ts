@@ -0,0 +1,184 @@
+/** 一条曲线：xs 必须递增（时间或采样序号） */
+export interface ChartSeries {
+  label: string;
+  color: string;
+  xs: number[];
+  ys: number[];
+  visible?: boolean;
+}
+
+/** 可见的 X 范围 */
+export interface ChartView {
+  xMin: number;
+  xMax: number;
+}
+
+const PADDING = { left: 56, right: 12, top: 10, bottom: 22 };
+const GRID_COLOR = '#e5e7eb';
+const AXIS_TEXT = '#9ca3af';
+
+/** 第一个 >= x 的下标 */
+export function lowerBound(xs: number[], x: number): number {
+  let lo = 0, hi = xs.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (xs[mid] < x) lo = mid + 1; else hi = mid;
+  }
+  return lo;
+}
+
+/** 1 / 2 / 5 × 10^n 的刻度 */
+function niceTicks(min: number, max: number, count: number): number[] {
+  const span = max - min;
+  if (!(span > 0)) return [min];
+  const raw = span / count;
+  const mag = Math.pow(10, Math.floor(Math.log10(raw)));
+  const step = [1, 2, 5, 10].map(m => m * mag).find(s => s >= raw) ?? raw;
+  const ticks: number[] = [];
+  for (let v = Math.ceil(min / step) * step; v <= max + step * 1e-9; v += step) ticks.push(Number(v.toPrecision(12)));
+  return ticks;
+}
+
+/** 可见范围内所有曲线的 Y 最值（自动缩放），没有数据时返回 null */
+function visibleYRange(series: ChartSeries[], view: ChartView): [number, number] | null {
+  let min = Infinity, max = -Infinity;
+  for (const s of series) {
+    if (s.visible === false) continue;
+    // 多取两侧各一个点，使线段延伸到边缘时也计入
+    const from = Math.max(0, lowerBound(s.xs, view.xMin) - 1);
+    const to = Math.min(s.xs.length, lowerBound(s.xs, view.xMax) + 1);
+    for (let i = from; i < to; i++) {
+      const y = s.ys[i];
+      if (y < min) min = y;
+      if (y > max) max = y;
+    }
+  }
+  if (min === Infinity) return null;
+  if (min === max) return [min - 1, max + 1];
+  const pad = (max - min) * 0.05;
+  return [min - pad, max + pad];
+}
+
+/**
+ * 在画布上绘制折线图：网格、坐标轴刻度、各曲线。
+ * 每个像素列内的点数较多时只画该列的最小 / 最大值，保证数万点时仍然流畅
+ */
+export function drawChart(
+  canvas: HTMLCanvasElement,
+  series: ChartSeries[],
+  view: ChartView,
+  formatX: (x: number, step: number) => string
+): void {
+  const dpr = window.devicePixelRatio || 1;
+  const width = canvas.clientWidth;
+  const height = canvas.clientHeight;
+  if (canvas.width !== Math.round(width * dpr) || canvas.height !== Math.round(height * dpr)) {
+    canvas.width = Math.round(width * dpr);
+    canvas.height = Math.round(height * dpr);
+  }
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+  ctx.clearRect(0, 0, width, height);
+
+  const plotW = width - PADDING.left - PADDING.right;
+  const plotH = height - PADDING.top - PADDING.bottom;
+  if (plotW <= 0 || plotH <= 0 || !(view.xMax > view.xMin)) return;
+
+  const yRange = visibleYRange(series, view) ?? [0, 1];
+  const [yMin, yMax] = yRange;
+  const toX = (x: number) => PADDING.left + ((x - view.xMin) / (view.xMax - view.xMin)) * plotW;
+  const toY = (y: number) => PADDING.top + (1 - (y - yMin) / (yMax - yMin)) * plotH;
+
+  ctx.font = '10px ui-monospace, monospace';
+  ctx.lineWidth = 1;
+
+  // 网格与刻度
+  ctx.strokeStyle = GRID_COLOR;
+  ctx.fillStyle = AXIS_TEXT;
+  ctx.textAlign = 'right';
+  ctx.textBaseline = 'middle';
+  for (const v of niceTicks(yMin, yMax, Math.max(2, Math.floor(plotH / 30)))) {
+    const y = Math.round(toY(v)) + 0.5;
+    ctx.beginPath();
+    ctx.moveTo(PADDING.left, y);
+    ctx.lineTo(PADDING.left + plotW, y);
+    ctx.stroke();
+    ctx.fillText(String(Number(v.toPrecision(6))), PADDING.left - 4, y);
+  }
+  const xTicks = niceTicks(view.xMin, view.xMax, Math.max(2, Math.floor(plotW / 90)));
+  const xStep = xTicks.length > 1 ? xTicks[1] - xTicks[0] : view.xMax - view.xMin;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'top';
+  for (const v of xTicks) {
+    const x = Math.round(toX(v)) + 0.5;
+    ctx.beginPath();
+    ctx.moveTo(x, PADDING.top);
+    ctx.lineTo(x, PADDING.top + plotH);
+    ctx.stroke();
+    ctx.fillText(formatX(v, xStep), x, PADDING.top + plotH + 4);
+  }
+
+  // 曲线（裁剪到绘图区）
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(PADDING.left, PADDING.top, plotW, plotH);
+  ctx.clip();
+  ctx.lineWidth = 1.5;
+  ctx.lineJoin = 'round';
+  for (const s of series) {
+    if (s.visible === false || s.xs.length === 0) continue;
+    const from = Math.max(0, lowerBound(s.xs, view.xMin) - 1);
+    const to = Math.min(s.xs.length, lowerBound(s.xs, view.xMax) + 1);
+    ctx.strokeStyle = s.color;
+    ctx.beginPath();
+    let column = NaN;
+    let colMin = 0, colMax = 0, lastY = 0;
+    const flush = () => {
+      if (Number.isNaN(column)) return;
+      ctx.lineTo(column, colMin);
+      ctx.lineTo(column, colMax);
+      ctx.lineTo(column, lastY);
+    };
+    for (let i = from; i < to; i++) {
+      const px = Math.round(toX(s.xs[i]));
+      const py = toY(s.ys[i]);
+      if (i === from) {
+        ctx.moveTo(px, py);
+      } else if (px !== column) {
+        flush();
+        ctx.lineTo(px, py);
+      }
+      if (px !== column) {
+        column = px;
+        colMin = colMax = py;
+      } else {
+        if (py < colMin) colMin = py;
+        if (py > colMax) colMax = py;
+      }
+      lastY = py;
+    }
+    flush();
+    ctx.stroke();
+    // 点数很少时画出数据点
+    if (to - from <= 2) {
+      ctx.fillStyle = s.color;
+      for (let i = from; i < to; i++) ctx.fillRect(toX(s.xs[i]) - 2, toY(s.ys[i]) - 2, 4, 4);
+    }
+  }
+  ctx.restore();
+
+  ctx.strokeStyle = '#d1d5db';
+  ctx.strokeRect(PADDING.left + 0.5, PADDING.top + 0.5, plotW, plotH);
+}
+
+/** 画布上的像素 X（相对画布左边）转为数据 X，用于缩放 / 平移 */
+export function pixelToX(canvas: HTMLCanvasElement, px: number, view: ChartView): number {
+  const plotW = canvas.clientWidth - PADDING.left - PADDING.right;
+  return view.xMin + ((px - PADDING.left) / Math.max(1, plotW)) * (view.xMax - view.xMin);
+}
+
+/** 绘图区宽度（像素），用于把拖拽距离换算为数据范围 */
+export function plotWidth(canvas: HTMLCanvasElement): number {
+  return Math.max(1, canvas.clientWidth - PADDING.left - PADDING.right);
+}
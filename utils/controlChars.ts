@@ -0,0 +1,108 @@
+import { TextEncoding } from '../types';
+
+/** 不可见字符显示方式：off = 原样，escape = \r \n \x00 <ESC>，caret = ^M ^@，picture = Unicode 控制图形 ␍ ␀ */
+export type ControlCharStyle = 'off' | 'escape' | 'caret' | 'picture';
+
+export const CONTROL_CHAR_STYLES: { value: ControlCharStyle; label: string }[] = [
+  { value: 'off', label: '不显示' },
+  { value: 'escape', label: '转义符 (\\r \\x00 <ESC>)' },
+  { value: 'caret', label: '脱字符 (^M ^@)' },
+  { value: 'picture', label: '控制图形 (␍ ␀)' }
+];
+
+/** 可视化后的文本片段：token 为不可见字符的替代显示 */
+export interface VisualPart {
+  text: string;
+  token?: boolean;
+}
+
+const REPLACEMENT = '�';
+
+const ESCAPE_NAMES: Record<number, string> = { 0x09: '\\t', 0x0a: '\\n', 0x0d: '\\r', 0x1b: '<ESC>' };
+
+const hexByte = (b: number) => `\\x${b.toString(16).padStart(2, '0').toUpperCase()}`;
+
+// C0 控制字符、DEL、C1 控制字符（Latin-1 等单字节编码解码得到）
+const isControl = (code: number) => code < 0x20 || (code >= 0x7f && code <= 0x9f);
+
+function controlToken(code: number, style: ControlCharStyle): string {
+  if (code >= 0x80) return hexByte(code); // C1 没有脱字符 / 控制图形表示
+  if (style === 'escape') return ESCAPE_NAMES[code] ?? hexByte(code);
+  if (style === 'caret') return code === 0x7f ? '^?' : '^' + String.fromCharCode(code + 0x40);
+  return String.fromCharCode(code === 0x7f ? 0x2421 : 0x2400 + code);
+}
+
+/**
+ * 找出一条数据中被解码为 U+FFFD 的原始字节（按出现顺序），用于把替换字符还原为 \xNN。
+ * 仅支持 UTF-8（按 WHATWG 最大子序列规则，每段无效字节对应一个 U+FFFD）与 ASCII；
+ * 开头的续字节可能属于上一包未完成的字符，数量与文本中的替换字符不一致时去掉再试，仍不一致返回空
+ */
+export function invalidByteLabels(data: Uint8Array, text: string, encoding: TextEncoding): string[] {
+  let expected = 0;
+  for (let i = text.indexOf(REPLACEMENT); i !== -1; i = text.indexOf(REPLACEMENT, i + 1)) expected++;
+  if (expected === 0) return [];
+
+  const toLabel = (bytes: Uint8Array) => Array.from(bytes, hexByte).join('');
+  if (encoding === TextEncoding.ASCII) {
+    const labels = Array.from(data.filter(b => b >= 0x80), b => hexByte(b));
+    return labels.length === expected ? labels : [];
+  }
+  if (encoding !== TextEncoding.UTF8) return [];
+
+  const scan = (start: number): string[] => {
+    const labels: string[] = [];
+    let i = start;
+    while (i < data.length) {
+      const b = data[i];
+      if (b < 0x80) { i++; continue; }
+      let need = 0, lower = 0x80, upper = 0xbf;
+      if (b >= 0xc2 && b <= 0xdf) need = 1;
+      else if (b >= 0xe0 && b <= 0xef) { need = 2; if (b === 0xe0) lower = 0xa0; if (b === 0xed) upper = 0x9f; }
+      else if (b >= 0xf0 && b <= 0xf4) { need = 3; if (b === 0xf0) lower = 0x90; if (b === 0xf4) upper = 0x8f; }
+      else { labels.push(hexByte(b)); i++; continue; }
+      let j = i + 1;
+      let got = 0;
+      while (got < need && j < data.length && data[j] >= lower && data[j] <= upper) {
+        lower = 0x80;
+        upper = 0xbf;
+        j++;
+        got++;
+      }
+      if (got === need) { i = j; continue; }
+      if (j >= data.length) break; // 末尾未完成的字符由流式解码器留给下一包
+      labels.push(toLabel(data.subarray(i, j)));
+      i = j;
+    }
+    return labels;
+  };
+
+  let labels = scan(0);
+  if (labels.length !== expected) {
+    let skip = 0;
+    while (skip < 3 && skip < data.length && data[skip] >= 0x80 && data[skip] <= 0xbf) skip++;
+    labels = skip > 0 ? scan(skip) : [];
+  }
+  return labels.length === expected ? labels : [];
+}
+
+/**
+ * 把文本中的不可见字符替换为可见记号；\n 记号后保留真实换行，保证与 HEX 列的行对齐。
+ * invalidLabels 按顺序消费，用于显示 U+FFFD 对应的原始字节（缺失时显示 \x??）
+ */
+export function visualizeText(text: string, style: ControlCharStyle, invalidLabels: string[] = []): VisualPart[] {
+  const parts: VisualPart[] = [];
+  let plain = '';
+  const pushToken = (token: string, suffix = '') => {
+    if (plain) parts.push({ text: plain });
+    plain = suffix;
+    parts.push({ text: token, token: true });
+  };
+  for (const ch of text) {
+    const code = ch.charCodeAt(0);
+    if (ch === REPLACEMENT) pushToken(invalidLabels.shift() ?? '\\x??');
+    else if (!isControl(code)) plain += ch;
+    else pushToken(controlToken(code, style), code === 0x0a ? '\n' : '');
+  }
+  if (plain) parts.push({ text: plain });
+  return parts;
+}
@@ -1,4 +1,7 @@
 
+import { TextEncoding } from '../types';
+import { encodeText, decodeText } from './encoding';
+
 export const uint8ArrayToHex = (arr: Uint8Array): string => {
   return Array.from(arr)
     .map(b => b.toString(16).padStart(2, '0').toUpperCase())
@@ -17,10 +20,10 @@ export const hexToUint8Array = (hex: string): Uint8Array => {
   return result;
 };
 
-export const stringToUint8Array = (str: string): Uint8Array => {
-  return new TextEncoder().encode(str);
+export const stringToUint8Array = (str: string, encoding: TextEncoding = TextEncoding.UTF8): Uint8Array => {
+  return encodeText(str, encoding);
 };
 
-export const uint8ArrayToString = (arr: Uint8Array): string => {
-  return new TextDecoder().decode(arr);
+export const uint8ArrayToString = (arr: Uint8Array, encoding: TextEncoding = TextEncoding.UTF8): string => {
+  return decodeText(arr, encoding);
 };
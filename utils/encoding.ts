@@ -0,0 +1,123 @@
+import { TextEncoding } from '../types';
+
+/** 与 TextDecoder 相同的流式解码接口（stream: true 时保留被截断的多字节字符） */
+export interface StreamDecoder {
+  decode(data?: Uint8Array, options?: { stream?: boolean }): string;
+}
+
+export const ENCODING_LABELS: Record<TextEncoding, string> = {
+  [TextEncoding.UTF8]: 'UTF-8',
+  [TextEncoding.GBK]: 'GBK (简体中文)',
+  [TextEncoding.Latin1]: 'Latin-1 (ISO-8859-1)',
+  [TextEncoding.ShiftJIS]: 'Shift-JIS (日文)',
+  [TextEncoding.ASCII]: 'ASCII (7 位)',
+  [TextEncoding.CP437]: 'CP437 (DOS)'
+};
+
+// CP437 高 128 字节（0x80-0xFF）对应的字符，低 128 字节与 ASCII 相同（控制字符保留原义）
+const CP437_HIGH =
+  'ÇüéâäàåçêëèïîìÄÅ' + 'ÉæÆôöòûùÿÖÜ¢£¥₧ƒ' + 'áíóúñÑªº¿⌐¬½¼¡«»' + '░▒▓│┤╡╢╖╕╣║╗╝╜╛┐' +
+  '└┴┬├─┼╞╟╚╔╩╦╠═╬╧' + '╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀' + 'αßΓπΣσµτΦΘΩδ∞φε∩' + '≡±≥≤⌠⌡÷≈°∙·√ⁿ²■\u00a0';
+
+const REPLACEMENT = '\ufffd';
+const UNENCODABLE = 0x3f; // 无法编码的字符发送为 '?'
+
+/** 单字节编码：每个字节独立映射，无需流式状态 */
+const singleByteDecoder = (map: (byte: number) => string): StreamDecoder => ({
+  decode: (data?: Uint8Array) => {
+    if (!data) return '';
+    let text = '';
+    for (let i = 0; i < data.length; i++) text += map(data[i]);
+    return text;
+  }
+});
+
+/** 创建流式解码器；浏览器不支持的编码退回 UTF-8 */
+export function createDecoder(encoding: TextEncoding): StreamDecoder {
+  switch (encoding) {
+    case TextEncoding.Latin1:
+      return singleByteDecoder(b => String.fromCharCode(b));
+    case TextEncoding.ASCII:
+      return singleByteDecoder(b => b < 0x80 ? String.fromCharCode(b) : REPLACEMENT);
+    case TextEncoding.CP437:
+      return singleByteDecoder(b => b < 0x80 ? String.fromCharCode(b) : CP437_HIGH[b - 0x80]);
+    case TextEncoding.GBK:
+    case TextEncoding.ShiftJIS:
+      try {
+        return new TextDecoder(encoding, { fatal: false });
+      } catch {
+        return new TextDecoder('utf-8', { fatal: false });
+      }
+    default:
+      return new TextDecoder('utf-8', { fatal: false });
+  }
+}
+
+export function decodeText(data: Uint8Array, encoding: TextEncoding): string {
+  return createDecoder(encoding).decode(data);
+}
+
+// 多字节编码的反向表（字符 → 字节），首次使用时由 TextDecoder 逐个解码双字节组合生成
+const reverseTables = new Map<TextEncoding, Map<string, number[]>>();
+
+function buildReverseTable(encoding: TextEncoding): Map<string, number[]> {
+  const table = new Map<string, number[]>();
+  let decoder: TextDecoder;
+  try {
+    decoder = new TextDecoder(encoding, { fatal: true });
+  } catch {
+    return table;
+  }
+  const add = (bytes: number[]) => {
+    try {
+      const ch = decoder.decode(new Uint8Array(bytes));
+      if (ch.length > 0 && !table.has(ch)) table.set(ch, bytes);
+    } catch { /* 无效组合 */ }
+  };
+  if (encoding === TextEncoding.GBK) {
+    add([0x80]); // €
+    for (let lead = 0x81; lead <= 0xfe; lead++) {
+      for (let trail = 0x40; trail <= 0xfe; trail++) {
+        if (trail !== 0x7f) add([lead, trail]);
+      }
+    }
+  } else {
+    for (let b = 0xa1; b <= 0xdf; b++) add([b]); // 半角片假名
+    for (let lead = 0x81; lead <= 0xfc; lead++) {
+      if (lead > 0x9f && lead < 0xe0) continue;
+      for (let trail = 0x40; trail <= 0xfc; trail++) {
+        if (trail !== 0x7f) add([lead, trail]);
+      }
+    }
+  }
+  return table;
+}
+
+/** 按编码把文本转为字节；无法编码的字符替换为 '?' */
+export function encodeText(text: string, encoding: TextEncoding): Uint8Array {
+  if (encoding === TextEncoding.UTF8) return new TextEncoder().encode(text);
+  const bytes: number[] = [];
+  if (encoding === TextEncoding.GBK || encoding === TextEncoding.ShiftJIS) {
+    let table = reverseTables.get(encoding);
+    if (!table) {
+      table = buildReverseTable(encoding);
+      reverseTables.set(encoding, table);
+    }
+    for (const ch of text) {
+      const code = ch.codePointAt(0)!;
+      if (code < 0x80) bytes.push(code);
+      else bytes.push(...(table.get(ch) ?? [UNENCODABLE]));
+    }
+    return new Uint8Array(bytes);
+  }
+  for (const ch of text) {
+    const code = ch.codePointAt(0)!;
+    if (code < 0x80) bytes.push(code);
+    else if (encoding === TextEncoding.Latin1 && code <= 0xff) bytes.push(code);
+    else if (encoding === TextEncoding.CP437) {
+      const index = CP437_HIGH.indexOf(ch);
+      bytes.push(index >= 0 ? 0x80 + index : UNENCODABLE);
+    } else bytes.push(UNENCODABLE);
+  }
+  return new Uint8Array(bytes);
+}
@@ -0,0 +1,142 @@
+import { LogEntry } from '../types';
+import { logsToJsonl, parseSessionLog } from './logExport';
+
+const CHUNK_BYTES = 10 * 1024; // 与内存分块规则一致，保证磁盘块与内存块一一对应
+const SEGMENT_INTERVAL_MS = 5000; // 每 5 秒把新条目写成一个分段文件
+
+/** 分段文件名：按序号补零，按文件名排序即为录制顺序 */
+const segmentName = (index: number) => `${String(index).padStart(6, '0')}.jsonl`;
+
+/**
+ * 选择录制目录：优先 File System Access API 由用户选择文件夹，不支持时使用 OPFS（浏览器私有存储）。
+ * 每次录制在其中新建一个目录，存放该次录制的分段文件
+ */
+export async function pickRecordDir(): Promise<{ dir: FileSystemDirectoryHandle; label: string }> {
+  const name = `serial_record_${new Date().getTime()}`;
+  const picker = (window as any).showDirectoryPicker as ((options?: object) => Promise<FileSystemDirectoryHandle>) | undefined;
+  if (picker) {
+    const parent = await picker({ mode: 'readwrite' });
+    return { dir: await parent.getDirectoryHandle(name, { create: true }), label: `${parent.name}/${name}/` };
+  }
+  if (!navigator.storage?.getDirectory) throw new Error('当前浏览器不支持文件系统访问');
+  const root = await navigator.storage.getDirectory();
+  return { dir: await root.getDirectoryHandle(name, { create: true }), label: `OPFS/${name}/` };
+}
+
+/**
+ * 文件录制器：新条目先在内存中攒批，每 5 秒以 JSONL 写成一个新的分段文件并立即关闭。
+ * 写入流关闭后数据才真正落到文件中，因此每个分段写完即关闭：浏览器或系统崩溃时最多丢失最后一个周期的数据，
+ * 且每次写入只涉及新数据，与已录制的总量无关。分段按序号命名，依次拼接即为完整的 JSONL。
+ * 条目按与 addLog 相同的规则切成 10KB 块，记录每块在各分段中的字节范围及每块第一条的 id → 块序号，
+ * 供内存窗口之前的旧块从磁盘分页读回
+ */
+export function createFileRecorder(dir: FileSystemDirectoryHandle, onError: (err: Error) => void) {
+  const chunkIndexById = new Map<string, number>();
+  const chunkPieces: { segment: number; start: number; end: number }[][] = []; // 每块在各分段中的字节范围 [start, end)
+  const encoder = new TextEncoder();
+  let segmentCount = 0;
+  let bytesWritten = 0;
+  let pending: { chunk: number; log: LogEntry }[] = []; // 尚未写入分段的条目
+  let currentCount = 0;
+  let currentSize = 0;
+  let failed = false;
+  let writing: Promise<void> = Promise.resolve();
+
+  /** 把尚未写入的条目写成一个新分段并关闭（串行执行，保证分段顺序与块范围一致） */
+  const roll = (): Promise<void> => {
+    if (failed || pending.length === 0) return writing;
+    const segment = segmentCount++;
+    const parts: Uint8Array[] = [];
+    let size = 0;
+    let i = 0;
+    while (i < pending.length) {
+      // 同一块的连续条目合成一段
+      const chunk = pending[i].chunk;
+      let j = i;
+      while (j < pending.length && pending[j].chunk === chunk) j++;
+      const bytes = encoder.encode(logsToJsonl(pending.slice(i, j).map(p => p.log)));
+      chunkPieces[chunk].push({ segment, start: size, end: size + bytes.length });
+      parts.push(bytes);
+      size += bytes.length;
+      i = j;
+    }
+    pending = [];
+    writing = writing.then(async () => {
+      if (failed) return;
+      try {
+        const file = await dir.getFileHandle(segmentName(segment), { create: true });
+        const writable = await file.createWritable();
+        await writable.write(new Blob(parts));
+        await writable.close();
+        bytesWritten += size;
+      } catch (err: any) {
+        failed = true;
+        onError(err instanceof Error ? err : new Error(String(err)));
+      }
+    });
+    return writing;
+  };
+
+  const timer = setInterval(roll, SEGMENT_INTERVAL_MS);
+
+  /** 条目加入当前块（当前块为空时以该条目开始新块） */
+  const push = (log: LogEntry) => {
+    if (currentCount === 0) {
+      chunkIndexById.set(log.id, chunkPieces.length);
+      chunkPieces.push([]);
+    }
+    pending.push({ chunk: chunkPieces.length - 1, log });
+    currentCount++;
+    currentSize += log.data.length;
+  };
+
+  const append = (log: LogEntry) => {
+    if (failed) return;
+    if (currentSize >= CHUNK_BYTES && currentCount > 0) cut();
+    push(log);
+  };
+
+  /** 结束当前块（终端清屏 / 替换内容后，新块与内存分块重新对齐） */
+  const cut = () => {
+    currentCount = 0;
+    currentSize = 0;
+  };
+
+  /** 开始录制时写入内存中已有的块：最后一块作为当前块继续追加 */
+  const seed = (chunks: LogEntry[][]) => {
+    for (const chunk of chunks) {
+      if (chunk.length === 0) continue;
+      cut();
+      chunk.forEach(push);
+    }
+  };
+
+  /** 内存块在磁盘上的序号（按块首条 id 查找，找不到返回 -1） */
+  const indexOf = (firstLogId: string) => chunkIndexById.get(firstLogId) ?? -1;
+
+  /** 从磁盘读回第 index 块（按各分段中的字节范围读取，该块还有未写入的条目时先写出） */
+  const readChunk = async (index: number): Promise<LogEntry[]> => {
+    const pieces = chunkPieces[index];
+    if (!pieces) throw new Error(`第 ${index} 块不存在`);
+    if (pending.some(p => p.chunk === index)) roll();
+    await writing;
+    if (failed) throw new Error('录制文件写入失败');
+    const texts = await Promise.all(pieces.map(async ({ segment, start, end }) => {
+      const file = await (await dir.getFileHandle(segmentName(segment))).getFile();
+      return file.slice(start, end).text();
+    }));
+    return parseSessionLog(texts.join(''));
+  };
+
+  /** 立即写出尚未写入的条目（关闭页面前调用，录制继续；页面不会等待写入完成，未完成时最多丢失最后一个周期） */
+  const flush = (): Promise<void> => roll();
+
+  const stop = async () => {
+    clearInterval(timer);
+    await roll();
+  };
+
+  const getStats = () => ({ chunkCount: chunkPieces.length, segmentCount, bytesWritten });
+
+  return { append, cut, seed, indexOf, readChunk, flush, stop, getStats };
+}
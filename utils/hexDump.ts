@@ -0,0 +1,62 @@
+import { LogEntry, TextEncoding } from '../types';
+import { encodeText } from './encoding';
+
+export const HEX_DUMP_ROW_SIZES = [8, 16, 32] as const;
+export type HexDumpRowSize = typeof HEX_DUMP_ROW_SIZES[number];
+
+/** 一个字节单元：seg 为字节所在的染色片段（无法对应时为 null） */
+export interface HexDumpCell<T> {
+  byte: number;
+  type: 'rx' | 'tx';
+  seg: T | null;
+}
+
+/** 数据行（offset 为首字节在当前视图中的偏移）或独占一行的系统消息 */
+export type HexDumpRow<T> =
+  | { kind: 'data'; key: string; offset: number; timestamp: Date | null; cells: HexDumpCell<T>[] }
+  | { kind: 'system'; key: string; log: LogEntry; segments: T[] };
+
+/**
+ * 按 xxd / hexdump -C 的方式把日志排成定宽字节行。
+ * 字节取自原始数据；片段文本按当前编码还原的字节数与原始数据一致时逐字节对应染色片段，否则不染色。
+ * perPacket 时每个数据包从新行开始；timestamp 只在行首字节是某个数据包的第一个字节时给出
+ */
+export function buildHexDump<T extends { text: string }>(
+  items: { log: LogEntry; segments: T[] }[],
+  bytesPerRow: number,
+  perPacket: boolean,
+  encoding: TextEncoding
+): HexDumpRow<T>[] {
+  const rows: HexDumpRow<T>[] = [];
+  let row: Extract<HexDumpRow<T>, { kind: 'data' }> | null = null;
+  let offset = 0;
+
+  for (const { log, segments } of items) {
+    if (log.type !== 'rx' && log.type !== 'tx') {
+      row = null;
+      rows.push({ kind: 'system', key: log.id, log, segments });
+      continue;
+    }
+    if (perPacket) row = null;
+
+    const segOf: (T | null)[] = [];
+    for (const seg of segments) {
+      const len = encodeText(seg.text, encoding).length;
+      for (let i = 0; i < len; i++) segOf.push(seg);
+    }
+    const aligned = segOf.length === log.data.length;
+
+    for (let i = 0; i < log.data.length; i++) {
+      if (!row || row.cells.length >= bytesPerRow) {
+        row = { kind: 'data', key: `${log.id}:${i}`, offset, timestamp: i === 0 ? log.timestamp : null, cells: [] };
+        rows.push(row);
+      }
+      row.cells.push({ byte: log.data[i], type: log.type, seg: aligned ? segOf[i] : null });
+      offset++;
+    }
+  }
+  return rows;
+}
+
+/** 可打印 ASCII 原样显示，其余显示为 '.' */
+export const dumpChar = (byte: number) => byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.';
@@ -0,0 +1,107 @@
+import { LogEntry, TextEncoding } from '../types';
+import { stringToUint8Array } from './converters';
+
+/** 交互终端中回车键发送的字节 */
+export type EnterMode = 'cr' | 'lf' | 'crlf';
+
+export const ENTER_BYTES: Record<EnterMode, string> = { cr: '\r', lf: '\n', crlf: '\r\n' };
+
+/** 按键对应的发送内容：data 为发往设备的字节，echo 为本地回显文本（空 = 不回显，如方向键） */
+export interface KeyInput {
+  data: Uint8Array;
+  echo: string;
+}
+
+interface KeyLike {
+  key: string;
+  ctrlKey: boolean;
+  altKey: boolean;
+  shiftKey: boolean;
+  metaKey: boolean;
+}
+
+const ESC = '\x1b';
+
+// 功能键 → VT100 / xterm 转义序列
+const SPECIAL_KEYS: Record<string, string> = {
+  ArrowUp: `${ESC}[A`,
+  ArrowDown: `${ESC}[B`,
+  ArrowRight: `${ESC}[C`,
+  ArrowLeft: `${ESC}[D`,
+  Home: `${ESC}[H`,
+  End: `${ESC}[F`,
+  Insert: `${ESC}[2~`,
+  Delete: `${ESC}[3~`,
+  PageUp: `${ESC}[5~`,
+  PageDown: `${ESC}[6~`,
+  Escape: ESC,
+  F1: `${ESC}OP`,
+  F2: `${ESC}OQ`,
+  F3: `${ESC}OR`,
+  F4: `${ESC}OS`,
+  F5: `${ESC}[15~`,
+  F6: `${ESC}[17~`,
+  F7: `${ESC}[18~`,
+  F8: `${ESC}[19~`,
+  F9: `${ESC}[20~`,
+  F10: `${ESC}[21~`,
+  F11: `${ESC}[23~`,
+  F12: `${ESC}[24~`
+};
+
+// Ctrl + 符号键对应的控制字符
+const CTRL_SYMBOLS: Record<string, string> = {
+  '@': '\x00', ' ': '\x00', '[': ESC, '\\': '\x1c', ']': '\x1d', '^': '\x1e', '_': '\x1f', '?': '\x7f'
+};
+
+/**
+ * 把键盘事件映射为发送字节：可打印字符原样发送，Ctrl+字母 → 控制字符（Ctrl+C = 0x03），
+ * Alt+键 → ESC 前缀，方向键等 → 转义序列，Backspace → DEL(0x7F)。
+ * 返回 null 表示不处理（交给浏览器，如 Cmd 组合键、Ctrl+Shift+C/V 复制粘贴）
+ */
+export function keyToInput(e: KeyLike, enterMode: EnterMode, encoding: TextEncoding = TextEncoding.UTF8): KeyInput | null {
+  const toInput = (seq: string, echo = ''): KeyInput => ({ data: stringToUint8Array(seq, encoding), echo });
+  if (e.metaKey) return null;
+  if (e.ctrlKey && e.shiftKey && /^[cv]$/i.test(e.key)) return null;
+
+  if (e.key === 'Enter') return toInput(ENTER_BYTES[enterMode], '\r\n');
+  if (e.key === 'Backspace') return toInput(e.ctrlKey ? '\b' : '\x7f', '\b \b');
+  if (e.key === 'Tab') return toInput(e.shiftKey ? `${ESC}[Z` : '\t');
+  const special = SPECIAL_KEYS[e.key];
+  if (special) return toInput(special);
+
+  if (e.key.length !== 1) return null; // Shift / Control / CapsLock 等修饰键本身
+
+  if (e.ctrlKey && !e.altKey) {
+    const code = e.key.toUpperCase().charCodeAt(0);
+    if (code >= 0x41 && code <= 0x5a) return toInput(String.fromCharCode(code - 0x40));
+    const ctrl = CTRL_SYMBOLS[e.key];
+    return ctrl ? toInput(ctrl) : null;
+  }
+  if (e.altKey && !e.ctrlKey) return toInput(ESC + e.key);
+  // Ctrl+Alt 同时按下多为 AltGr 输入的字符，按普通字符发送
+  return toInput(e.key, e.key);
+}
+
+// 回显显示用的条目副本，按原条目缓存，保持同一条目在多次渲染间的对象身份（增量搜索依赖）
+const echoEntries = new WeakMap<LogEntry, LogEntry>();
+
+/**
+ * 按本地回显设置生成终端显示的日志：按键发送的 TX 在回显关闭时隐藏，开启时显示回显文本
+ * （回车显示为换行、退格擦除前一字符）。记录本身不变，导出与统计仍是实际发送的字节
+ */
+export function applyLocalEcho(logs: LogEntry[], echo: boolean): LogEntry[] {
+  if (!logs.some(l => l.echo !== undefined)) return logs;
+  const shown: LogEntry[] = [];
+  for (const log of logs) {
+    if (log.echo === undefined) {
+      shown.push(log);
+      continue;
+    }
+    if (!echo || log.echo === '') continue;
+    let entry = echoEntries.get(log);
+    if (!entry) echoEntries.set(log, entry = { ...log, text: log.echo, marks: undefined });
+    shown.push(entry);
+  }
+  return shown;
+}
@@ -0,0 +1,45 @@
+import { LineFilter, LogEntry, TextEncoding } from '../types';
+import { buildSearchPattern, filterLines, findByteMatches } from './search';
+
+/** 行过滤条件：文本 / 正则过滤为正则表达式，HEX 过滤为字节序列（与搜索一致，按行的原始字节匹配） */
+export type LinePattern = RegExp | Uint8Array;
+
+/** 编译后的行过滤器：包含列表非空时只显示命中任一包含项的行，命中任一排除项的行总是隐藏 */
+export interface CompiledLineFilters {
+  include: LinePattern[];
+  exclude: LinePattern[];
+}
+
+/** 编译单个过滤器（正则去掉 g 标志，逐行 test 不受 lastIndex 影响），无效时返回错误信息 */
+export function compileLineFilter(filter: LineFilter, encoding: TextEncoding = TextEncoding.UTF8): LinePattern | string {
+  const pattern = buildSearchPattern({ query: filter.pattern, mode: filter.mode, caseSensitive: !!filter.caseSensitive }, encoding);
+  if (typeof pattern === 'string' || pattern instanceof Uint8Array) return pattern;
+  return new RegExp(pattern.source, pattern.flags.replace('g', ''));
+}
+
+/** 行是否命中过滤条件：HEX 在行的原始字节中查找，不受解码结果影响 */
+const lineMatches = (line: LogEntry, pattern: LinePattern) =>
+  pattern instanceof Uint8Array ? findByteMatches(line.data, pattern, 0, 1).ranges.length > 0 : pattern.test(line.text);
+
+/** 编译全部启用且有效的过滤器；没有可用过滤器时返回 null（不过滤） */
+export function compileLineFilters(filters: LineFilter[], encoding: TextEncoding = TextEncoding.UTF8): CompiledLineFilters | null {
+  const compiled: CompiledLineFilters = { include: [], exclude: [] };
+  for (const f of filters) {
+    if (f.enabled === false || f.pattern === '') continue;
+    const pattern = compileLineFilter(f, encoding);
+    if (typeof pattern === 'string') continue;
+    (f.action === 'include' ? compiled.include : compiled.exclude).push(pattern);
+  }
+  return compiled.include.length + compiled.exclude.length > 0 ? compiled : null;
+}
+
+/** 按行过滤日志：系统消息（info / error）不参与过滤，总是显示 */
+export function applyLineFilters(logs: LogEntry[], filters: CompiledLineFilters): { logs: LogEntry[]; hidden: number } {
+  const keep = (line: LogEntry) => {
+    if (line.type !== 'rx' && line.type !== 'tx') return true;
+    if (filters.include.length > 0 && !filters.include.some(p => lineMatches(line, p))) return false;
+    return !filters.exclude.some(p => lineMatches(line, p));
+  };
+  const { logs: kept, hidden } = filterLines(logs, keep);
+  return { logs: kept, hidden };
+}
@@ -0,0 +1,245 @@
+import { LogEntry } from '../types';
+import { uint8ArrayToHex, hexToUint8Array } from './converters';
+
+/** 导出方向：仅接收 / 仅发送 / 收发全部 */
+export type ExportDirection = 'rx' | 'tx' | 'both';
+
+/** 导出范围：缓冲区内全部数据 / 当前终端可见范围 */
+export type ExportRange = 'all' | 'visible';
+
+const matchDirection = (log: LogEntry, direction: ExportDirection): boolean =>
+  direction === 'both' ? (log.type === 'rx' || log.type === 'tx') : log.type === direction;
+
+/** 统计指定方向的字节数（不拼接，供导出前预览） */
+export const countLogBytes = (logs: LogEntry[], direction: ExportDirection): number => {
+  let total = 0;
+  for (const log of logs) {
+    if (matchDirection(log, direction)) total += log.data.length;
+  }
+  return total;
+};
+
+/** 按时间顺序拼接指定方向的原始字节（LogEntry.data），与线路上的字节完全一致 */
+export const collectLogBytes = (logs: LogEntry[], direction: ExportDirection): Uint8Array => {
+  const result = new Uint8Array(countLogBytes(logs, direction));
+  let offset = 0;
+  for (const log of logs) {
+    if (!matchDirection(log, direction)) continue;
+    result.set(log.data, offset);
+    offset += log.data.length;
+  }
+  return result;
+};
+
+/** 结构化导出的字段顺序（CSV 表头 / JSONL 键名） */
+const SESSION_FIELDS = ['timestamp', 'type', 'byteCount', 'hex', 'text'] as const;
+const LOG_TYPES: LogEntry['type'][] = ['rx', 'tx', 'info', 'error'];
+
+const toRecord = (log: LogEntry) => ({
+  timestamp: log.timestamp.toISOString(),
+  type: log.type,
+  byteCount: log.data.length,
+  hex: uint8ArrayToHex(log.data),
+  text: log.text
+});
+
+/** JSON Lines：每个数据包一行 */
+export const logsToJsonl = (logs: LogEntry[]): string =>
+  logs.map(log => JSON.stringify(toRecord(log))).join('\n') + '\n';
+
+const csvField = (value: string | number): string => {
+  const s = String(value);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+/** CSV（RFC 4180）：含表头，文本中的逗号、引号、换行按规范加引号转义 */
+export const logsToCsv = (logs: LogEntry[]): string => {
+  const lines = [SESSION_FIELDS.join(',')];
+  for (const log of logs) {
+    const record = toRecord(log);
+    lines.push(SESSION_FIELDS.map(f => csvField(record[f])).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+};
+
+/** 解析 CSV 为行数组（支持引号内的逗号、换行和 "" 转义） */
+const parseCsv = (content: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  for (let i = 0; i < content.length; i++) {
+    const c = content[i];
+    if (inQuotes) {
+      if (c === '"') {
+        if (content[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      inQuotes = true;
+    } else if (c === ',') {
+      row.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+const fromRecord = (record: Record<string, unknown>, line: number): LogEntry => {
+  const type = record.type as LogEntry['type'];
+  const timestamp = new Date(String(record.timestamp));
+  if (!LOG_TYPES.includes(type) || isNaN(timestamp.getTime())) {
+    throw new Error(`第 ${line} 行格式无效`);
+  }
+  const data = record.hex ? hexToUint8Array(String(record.hex)) : new Uint8Array(0);
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    timestamp,
+    type,
+    data,
+    text: String(record.text ?? ''),
+    byteCount: data.length
+  };
+};
+
+/** 解析 JSONL / CSV 会话文件（由 logsToJsonl / logsToCsv 导出），字节以 hex 字段为准 */
+export const parseSessionLog = (content: string): LogEntry[] => {
+  const trimmed = content.replace(/^\uFEFF/, '').trimStart();
+  if (trimmed.startsWith('{')) {
+    return trimmed.split(/\r?\n/).map((line, i) => ({ line, no: i + 1 }))
+      .filter(({ line }) => line.trim() !== '')
+      .map(({ line, no }) => {
+        let record: Record<string, unknown>;
+        try {
+          record = JSON.parse(line);
+        } catch {
+          throw new Error(`第 ${no} 行不是有效的 JSON`);
+        }
+        return fromRecord(record, no);
+      });
+  }
+
+  const rows = parseCsv(trimmed);
+  const header = rows[0] ?? [];
+  if (!SESSION_FIELDS.every(f => header.includes(f))) {
+    throw new Error('无法识别的文件格式（需要 JSONL 或带表头的 CSV）');
+  }
+  return rows.slice(1)
+    .map((row, i) => ({ row, no: i + 2 }))
+    .filter(({ row }) => !(row.length === 1 && row[0] === ''))
+    .map(({ row, no }) => fromRecord(Object.fromEntries(header.map((h, i) => [h, row[i]])), no));
+};
+
+/** Wireshark 用户自定义链路类型 DLT_USER0..DLT_USER15（147..162） */
+export const PCAP_USER_DLT_BASE = 147;
+export const PCAP_USER_DLT_COUNT = 16;
+
+const pad4 = (n: number) => (n + 3) & ~3;
+
+const concatArrays = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((s, p) => s + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+};
+
+/** 组装一个 PCAPNG 块：type + 总长度 + body + 总长度（body 已按 4 字节对齐） */
+const pcapngBlock = (type: number, body: Uint8Array): Uint8Array => {
+  const total = 12 + body.length;
+  const block = new Uint8Array(total);
+  const view = new DataView(block.buffer);
+  view.setUint32(0, type, true);
+  view.setUint32(4, total, true);
+  block.set(body, 8);
+  view.setUint32(total - 4, total, true);
+  return block;
+};
+
+/** 选项列表：code + length + 值（补齐 4 字节），以 opt_endofopt 结尾 */
+const pcapngOptions = (options: { code: number; value: Uint8Array }[]): Uint8Array => {
+  const size = options.reduce((s, o) => s + 4 + pad4(o.value.length), 0) + 4;
+  const out = new Uint8Array(size);
+  const view = new DataView(out.buffer);
+  let offset = 0;
+  for (const o of options) {
+    view.setUint16(offset, o.code, true);
+    view.setUint16(offset + 2, o.value.length, true);
+    out.set(o.value, offset + 4);
+    offset += 4 + pad4(o.value.length);
+  }
+  return out; // 末尾 4 字节为 0，即 opt_endofopt
+};
+
+const u32le = (v: number) => {
+  const b = new Uint8Array(4);
+  new DataView(b.buffer).setUint32(0, v, true);
+  return b;
+};
+
+/**
+ * PCAPNG 导出：每个 rx/tx 条目一个 Enhanced Packet Block，负载为 LogEntry.data 原样字节，
+ * 时间戳精度微秒，方向写入 epb_flags（RX = inbound，TX = outbound）。
+ */
+export const logsToPcapng = (logs: LogEntry[], linkType: number, direction: ExportDirection = 'both'): Uint8Array => {
+  const encoder = new TextEncoder();
+  const blocks: Uint8Array[] = [];
+
+  // Section Header Block：字节序标记 + 版本 1.0 + 段长度未知（-1）
+  const shbHead = new Uint8Array(16);
+  const shbView = new DataView(shbHead.buffer);
+  shbView.setUint32(0, 0x1A2B3C4D, true);
+  shbView.setUint16(4, 1, true);
+  shbView.setUint16(6, 0, true);
+  shbView.setInt32(8, -1, true);
+  shbView.setInt32(12, -1, true);
+  const shbOpts = pcapngOptions([{ code: 4, value: encoder.encode('Online Serial Debug Tool') }]); // shb_userappl
+  blocks.push(pcapngBlock(0x0A0D0D0A, concatArrays([shbHead, shbOpts])));
+
+  // Interface Description Block：链路类型 + snaplen 0（不截断），时间戳精度 10^-6
+  const idbHead = new Uint8Array(8);
+  new DataView(idbHead.buffer).setUint16(0, linkType, true);
+  const idbOpts = pcapngOptions([
+    { code: 2, value: encoder.encode('serial') },   // if_name
+    { code: 9, value: new Uint8Array([6]) }         // if_tsresol
+  ]);
+  blocks.push(pcapngBlock(1, concatArrays([idbHead, idbOpts])));
+
+  for (const log of logs) {
+    if (!matchDirection(log, direction)) continue;
+    const us = log.timestamp.getTime() * 1000;
+    const head = new Uint8Array(20);
+    const view = new DataView(head.buffer);
+    view.setUint32(0, 0, true);                                // interface id
+    view.setUint32(4, Math.floor(us / 0x100000000), true);     // 时间戳高 32 位
+    view.setUint32(8, us % 0x100000000, true);                 // 时间戳低 32 位
+    view.setUint32(12, log.data.length, true);                 // captured length
+    view.setUint32(16, log.data.length, true);                 // original length
+    const payload = new Uint8Array(pad4(log.data.length));
+    payload.set(log.data);
+    const flags = pcapngOptions([{ code: 2, value: u32le(log.type === 'rx' ? 0b01 : 0b10) }]); // epb_flags 方向
+    blocks.push(pcapngBlock(6, concatArrays([head, payload, flags])));
+  }
+  return concatArrays(blocks);
+};
+
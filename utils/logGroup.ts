@@ -0,0 +1,58 @@
+import { LogEntry } from '../types';
+import { concatMarks } from './ruleEngine';
+
+/** 合并一组连续数据包：文本、字节拼接，时间戳取第一包；lineBreak 时文本补足结尾换行（字节不变） */
+const mergeGroup = (group: LogEntry[], lineBreak: boolean): LogEntry => {
+  const first = group[0];
+  let mergedText = group.map(l => l.text).join('');
+  // 显示时确保每组以换行结尾，在 inline 模式下能正确分行
+  if (lineBreak && !mergedText.endsWith('\n')) mergedText += '\n';
+  if (group.length === 1 && mergedText === first.text) return first; // 无需修改
+  // 拼接实际字节数组（HEX 模式需要）
+  const totalLen = group.reduce((s, l) => s + l.data.length, 0);
+  const mergedData = new Uint8Array(totalLen);
+  let offset = 0;
+  for (const l of group) {
+    mergedData.set(l.data, offset);
+    offset += l.data.length;
+  }
+  // 规则匹配结果按各包在合并文本中的位置拼接
+  let textOffset = 0;
+  const marks = concatMarks(group.map(l => {
+    const part = { marks: l.marks, offset: textOffset };
+    textOffset += l.text.length;
+    return part;
+  }));
+  return { ...first, text: mergedText, data: mergedData, byteCount: totalLen, marks };
+};
+
+/** 相邻两条日志之间是否断开分组：info/error 与收发方向切换总是断开，数据包间隔超过 timeoutMs 时断开 */
+export const startsNewGroup = (prev: LogEntry, log: LogEntry, timeoutMs: number): boolean => {
+  if (prev.type !== 'rx' && prev.type !== 'tx') return true;
+  if (log.type !== prev.type) return true;
+  return log.timestamp.getTime() - prev.timestamp.getTime() > timeoutMs;
+};
+
+/**
+ * 按空闲时间分组：将间隔 <= timeoutMs 的连续同方向数据包合并为一条，info/error 打断分组。
+ * lineBreak 为 false 时不补结尾换行，合并结果与原始数据完全一致（导出用）
+ */
+export const groupLogsByTimeout = (logs: LogEntry[], timeoutMs: number, { lineBreak = true }: { lineBreak?: boolean } = {}): LogEntry[] => {
+  const result: LogEntry[] = [];
+  let group: LogEntry[] = [];
+
+  for (const log of logs) {
+    if (log.type !== 'rx' && log.type !== 'tx') {
+      if (group.length > 0) { result.push(mergeGroup(group, lineBreak)); group = []; }
+      result.push(log);
+      continue;
+    }
+    if (group.length > 0 && startsNewGroup(group[group.length - 1], log, timeoutMs)) {
+      result.push(mergeGroup(group, lineBreak));
+      group = [];
+    }
+    group.push(log);
+  }
+  if (group.length > 0) result.push(mergeGroup(group, lineBreak));
+  return result;
+};
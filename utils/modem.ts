@@ -0,0 +1,256 @@
+/** XModem / YModem 协议控制字符 */
+export const SOH = 0x01;  // 128 字节数据块头
+export const STX = 0x02;  // 1024 字节数据块头
+export const EOT = 0x04;  // 传输结束
+export const ACK = 0x06;
+export const NAK = 0x15;
+export const CAN = 0x18;  // 取消传输（连续两个生效）
+export const CRC_REQ = 0x43; // 'C'：接收方请求 CRC 模式
+export const CPMEOF = 0x1A;  // 末块填充字节
+
+/** 协议层读写接口：write 原样写出字节，read 带超时读取 1 字节（超时返回 null） */
+export interface ModemIO {
+  write: (data: Uint8Array) => Promise<void>;
+  read: (timeoutMs: number) => Promise<number | null>;
+  purge: () => void;
+}
+
+export interface ModemSendOptions {
+  timeoutMs?: number;   // 单次等待应答超时
+  retries?: number;     // 每块最大重试次数
+  onProgress?: (percent: number) => void;
+  onLog?: (msg: string) => void;
+}
+
+export const DEFAULT_TIMEOUT_MS = 3000;
+export const DEFAULT_RETRIES = 10;
+
+const CRC16_TABLE = (() => {
+  const table = new Uint16Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 8;
+    for (let j = 0; j < 8; j++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+    }
+    table[i] = crc & 0xFFFF;
+  }
+  return table;
+})();
+
+/** CRC-16/XMODEM（多项式 0x1021，初值 0） */
+export function crc16(data: Uint8Array): number {
+  let crc = 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = ((crc << 8) ^ CRC16_TABLE[((crc >> 8) ^ data[i]) & 0xFF]) & 0xFFFF;
+  }
+  return crc;
+}
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i;
+    for (let j = 0; j < 8; j++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0xEDB88320 : crc >>> 1;
+    }
+    table[i] = crc >>> 0;
+  }
+  return table;
+})();
+
+/** CRC-32（IEEE 802.3，ZModem 32 位帧校验） */
+export function crc32(data: Uint8Array): number {
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) {
+    crc = (crc >>> 8) ^ CRC32_TABLE[(crc ^ data[i]) & 0xFF];
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+/** 8 位累加和（XModem 校验和模式） */
+export function checksum8(data: Uint8Array): number {
+  let sum = 0;
+  for (let i = 0; i < data.length; i++) sum = (sum + data[i]) & 0xFF;
+  return sum;
+}
+
+/** 组装数据块：头 + 序号 + 序号反码 + 数据（不足补 0x1A）+ CRC16（或 1 字节校验和） */
+export function buildBlock(seq: number, payload: Uint8Array, size: 128 | 1024, padByte = CPMEOF, useCrc = true): Uint8Array {
+  const block = new Uint8Array(3 + size + (useCrc ? 2 : 1));
+  block[0] = size === 1024 ? STX : SOH;
+  block[1] = seq & 0xFF;
+  block[2] = (~seq) & 0xFF;
+  const body = block.subarray(3, 3 + size);
+  body.fill(padByte);
+  body.set(payload.subarray(0, size));
+  if (useCrc) {
+    const crc = crc16(body);
+    block[3 + size] = crc >> 8;
+    block[4 + size] = crc & 0xFF;
+  } else {
+    block[3 + size] = checksum8(body);
+  }
+  return block;
+}
+
+/** 接收字节队列：把推式到达的 RX 数据转为带超时的逐字节读取 */
+export function createByteQueue() {
+  let buf = new Uint8Array(4096);
+  let head = 0;
+  let tail = 0;
+  let waiter: (() => void) | null = null;
+
+  const push = (data: Uint8Array) => {
+    if (tail + data.length > buf.length) {
+      // 先把未读数据挪到开头，仍不够再扩容
+      const pending = tail - head;
+      if (pending + data.length > buf.length) {
+        const next = new Uint8Array((pending + data.length) * 2);
+        next.set(buf.subarray(head, tail));
+        buf = next;
+      } else {
+        buf.copyWithin(0, head, tail);
+      }
+      head = 0;
+      tail = pending;
+    }
+    buf.set(data, tail);
+    tail += data.length;
+    if (waiter) {
+      const w = waiter;
+      waiter = null;
+      w();
+    }
+  };
+
+  const read = async (timeoutMs: number): Promise<number | null> => {
+    if (head < tail) return buf[head++];
+    await new Promise<void>(resolve => {
+      const timer = setTimeout(() => { waiter = null; resolve(); }, timeoutMs);
+      waiter = () => { clearTimeout(timer); resolve(); };
+    });
+    return head < tail ? buf[head++] : null;
+  };
+
+  const purge = () => {
+    head = 0;
+    tail = 0;
+  };
+
+  return { push, read, purge };
+}
+
+/** 读取一个应答字节；连续两个 CAN 视为接收方取消 */
+export async function readResponse(io: ModemIO, timeoutMs: number): Promise<number | null> {
+  const b = await io.read(timeoutMs);
+  if (b === CAN) {
+    const next = await io.read(1000);
+    if (next === CAN) throw new Error('接收方取消了传输');
+    return next;
+  }
+  return b;
+}
+
+/** 主动取消：向对端发送连续 CAN */
+export async function sendCancel(io: ModemIO): Promise<void> {
+  try {
+    await io.write(new Uint8Array([CAN, CAN, CAN, CAN, CAN]));
+  } catch {
+    // 链路已断开时忽略
+  }
+}
+
+/** 等待接收方发出指定的就绪字符（忽略期间的其他杂散字节，如设备打印的提示文本） */
+export async function waitForChar(io: ModemIO, chars: number[], timeoutMs: number, retries: number): Promise<number> {
+  for (let attempt = 0; attempt < retries; attempt++) {
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline) {
+      const b = await readResponse(io, Math.max(1, deadline - Date.now()));
+      if (b !== null && chars.includes(b)) return b;
+    }
+  }
+  throw new Error('等待接收方就绪超时');
+}
+
+/** 发送一个数据块直到收到 ACK；NAK / 超时重发，超过重试次数抛错。每次重发前回调 onRetry 便于记录日志 */
+export async function sendBlock(
+  io: ModemIO,
+  block: Uint8Array,
+  timeoutMs: number,
+  retries: number,
+  onRetry?: (reason: 'NAK' | '超时' | '无效应答', attempt: number) => void
+): Promise<void> {
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    io.purge();
+    await io.write(block);
+    const b = await readResponse(io, timeoutMs);
+    if (b === ACK) return;
+    if (attempt < retries) onRetry?.(b === NAK ? 'NAK' : b === null ? '超时' : '无效应答', attempt + 1);
+  }
+  throw new Error(`数据块 #${block[1]} 重试 ${retries} 次仍未确认`);
+}
+
+/** 生成统一格式的重发日志回调 */
+export function retryLogger(seq: number, onLog?: (msg: string) => void) {
+  return (reason: string, attempt: number) => onLog?.(`数据块 #${seq} ${reason}，第 ${attempt} 次重发`);
+}
+
+export interface ModemReceiveOptions extends ModemSendOptions {
+  onReceived?: (bytes: number) => void;  // 已接收字节数（XModem 无文件大小，只能报告字节数）
+}
+
+export type ReceivedBlock =
+  | { kind: 'block'; seq: number; data: Uint8Array }
+  | { kind: 'eot' }
+  | { kind: 'bad' }
+  | { kind: 'timeout' };
+
+const BYTE_TIMEOUT_MS = 1000; // 块内字节间超时
+
+/** 读取一个数据块（接收方使用）：块头之前的杂散字节忽略；校验失败、序号反码不符或块内超时均视为坏块 */
+export async function receiveBlock(io: ModemIO, useCrc: boolean, timeoutMs: number): Promise<ReceivedBlock> {
+  const deadline = Date.now() + timeoutMs;
+  let head: number | null = null;
+  while (Date.now() < deadline) {
+    const b = await readResponse(io, Math.max(1, deadline - Date.now()));
+    if (b === null) break;
+    if (b === SOH || b === STX || b === EOT) {
+      head = b;
+      break;
+    }
+  }
+  if (head === null) return { kind: 'timeout' };
+  if (head === EOT) return { kind: 'eot' };
+
+  const size = head === STX ? 1024 : 128;
+  const rest = new Uint8Array(2 + size + (useCrc ? 2 : 1));
+  for (let i = 0; i < rest.length; i++) {
+    const b = await io.read(BYTE_TIMEOUT_MS);
+    if (b === null) return { kind: 'bad' };
+    rest[i] = b;
+  }
+  if ((rest[0] ^ rest[1]) !== 0xFF) return { kind: 'bad' };
+  const data = rest.slice(2, 2 + size);
+  const valid = useCrc
+    ? crc16(data) === ((rest[2 + size] << 8) | rest[3 + size])
+    : checksum8(data) === rest[2 + size];
+  return valid ? { kind: 'block', seq: rest[0], data } : { kind: 'bad' };
+}
+
+/** 拼接多个字节块 */
+export function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(chunks.reduce((s, c) => s + c.length, 0));
+  let offset = 0;
+  for (const c of chunks) {
+    result.set(c, offset);
+    offset += c.length;
+  }
+  return result;
+}
+
+/** 去掉末尾的 0x1A 填充（XModem 不传文件大小，只能按填充字节截断） */
+export function stripPadding(data: Uint8Array): Uint8Array {
+  let end = data.length;
+  while (end > 0 && data[end - 1] === CPMEOF) end--;
+  return data.subarray(0, end);
+}
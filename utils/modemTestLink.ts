@@ -0,0 +1,36 @@
+import { ModemIO, createByteQueue } from './modem';
+
+/**
+ * 测试用：脚本化的对端。被测端每次写出的字节记入 frames，respond 按收到的内容返回回送的字节
+ * （在 write 内同步送达，不会被被测端写出前的 purge 清掉）
+ */
+export function createScriptedPeer(respond: (frame: Uint8Array, index: number) => number[] | undefined) {
+  const queue = createByteQueue();
+  const frames: Uint8Array[] = [];
+  const io: ModemIO = {
+    write: async (data) => {
+      frames.push(data.slice());
+      const reply = respond(data, frames.length - 1);
+      if (reply && reply.length > 0) queue.push(new Uint8Array(reply));
+    },
+    read: queue.read,
+    purge: queue.purge
+  };
+  return { io, frames, push: (bytes: number[]) => queue.push(new Uint8Array(bytes)) };
+}
+
+/** 测试用：两端相连的内存链路，a 写出的字节由 b 读到，反之亦然；tap 可在送达前改写数据（模拟线路误码） */
+export function createModemLink(tap?: (data: Uint8Array, from: 'a' | 'b') => Uint8Array) {
+  const toA = createByteQueue();
+  const toB = createByteQueue();
+  const end = (from: 'a' | 'b'): ModemIO => {
+    const rx = from === 'a' ? toA : toB;
+    const tx = from === 'a' ? toB : toA;
+    return {
+      write: async (data) => tx.push(tap ? tap(data.slice(), from) : data.slice()),
+      read: rx.read,
+      purge: rx.purge
+    };
+  };
+  return { a: end('a'), b: end('b') };
+}
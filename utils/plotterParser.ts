@@ -0,0 +1,50 @@
+/** 一行数据解析出的各通道数值 */
+export interface PlotterSample {
+  label: string;
+  value: number;
+}
+
+const MAX_LINE = 4096; // 超长且无换行的内容视为非绘图数据丢弃
+const NUMBER = /^[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?$/;
+
+/**
+ * 解析一行 Arduino 串口绘图器格式：
+ * `label1:val1,label2:val2`（冒号后可有空白）或以逗号 / 空格 / 制表符分隔的纯数值（按位置命名为 value 1、value 2…）。
+ * 含有无法解析的片段时视为普通日志，返回空
+ */
+export function parsePlotterLine(line: string): PlotterSample[] {
+  // 冒号后的空白（如 `Temp: 23.5`）先去掉，避免标签与数值被拆成两段
+  const tokens = line.trim().replace(/:\s+/g, ':').split(/[,\t ]+/).filter(Boolean);
+  const samples: PlotterSample[] = [];
+  let position = 0;
+  for (const token of tokens) {
+    position++;
+    const colon = token.lastIndexOf(':');
+    const label = colon > 0 ? token.slice(0, colon) : `value ${position}`;
+    const raw = colon > 0 ? token.slice(colon + 1) : token;
+    if (!NUMBER.test(raw)) return [];
+    samples.push({ label, value: Number(raw) });
+  }
+  return samples;
+}
+
+/** 按行切分 RX 文本流（跨包保留未结束的行），返回每个完整行解析出的数值 */
+export function createPlotterParser() {
+  let pending = '';
+  return {
+    push(text: string): PlotterSample[][] {
+      const lines = (pending + text).split('\n');
+      pending = lines.pop() ?? '';
+      if (pending.length > MAX_LINE) pending = '';
+      const rows: PlotterSample[][] = [];
+      for (const line of lines) {
+        const samples = parsePlotterLine(line.replace(/\r$/, ''));
+        if (samples.length > 0) rows.push(samples);
+      }
+      return rows;
+    },
+    reset() {
+      pending = '';
+    }
+  };
+}
@@ -0,0 +1,167 @@
+import { LogEntry, TextEncoding } from '../types';
+import { createDecoder } from './encoding';
+import { parseSessionLog } from './logExport';
+
+/** 回放条目：相对第一条的时间偏移、采集时间 + 原始内容 */
+export interface ReplayEntry {
+  offsetMs: number;
+  timestamp: Date;
+  type: LogEntry['type'];
+  data: Uint8Array;
+  text: string;
+}
+
+export type ReplaySpeed = 1 | 10 | 'max';
+
+export interface ReplayState {
+  position: number;  // 已推送的条目数
+  total: number;
+  playing: boolean;
+  speed: ReplaySpeed;
+}
+
+const RAW_PACKET_SIZE = 64;   // 原始二进制按固定大小切包
+const MAX_BATCH = 500;        // 最快速度 / 定位时每轮最多推送条数，避免长时间阻塞界面
+
+/**
+ * 载入抓包文件：本工具导出的 JSONL / CSV 保留原始时间间隔；
+ * BIN 及其他二进制文件视为 RX 原始字节，按当前波特率（10 bit/字节）估算时间间隔，按当前编码解码文本。
+ */
+export async function loadCapture(file: File, baudRate: number, encoding: TextEncoding = TextEncoding.UTF8): Promise<ReplayEntry[]> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const isSession = /\.(jsonl|csv)$/i.test(file.name);
+  if (isSession || bytes[0] === 0x7B) {
+    try {
+      const logs = parseSessionLog(new TextDecoder().decode(bytes));
+      const start = logs[0]?.timestamp.getTime() ?? 0;
+      return logs.map(l => ({ offsetMs: l.timestamp.getTime() - start, timestamp: l.timestamp, type: l.type, data: l.data, text: l.text }));
+    } catch (err) {
+      if (isSession) throw err;
+      // 以 '{' 开头的二进制文件：按原始数据处理
+    }
+  }
+
+  // 原始字节没有采集时间，以载入时刻为第一包的时间
+  const loadedAt = Date.now();
+  const decoder = createDecoder(encoding);
+  const msPerByte = 10000 / Math.max(1, baudRate);
+  const entries: ReplayEntry[] = [];
+  for (let offset = 0; offset < bytes.length; offset += RAW_PACKET_SIZE) {
+    const data = bytes.subarray(offset, offset + RAW_PACKET_SIZE);
+    entries.push({
+      offsetMs: offset * msPerByte,
+      timestamp: new Date(loadedAt + offset * msPerByte),
+      type: 'rx',
+      data,
+      text: decoder.decode(data, { stream: offset + RAW_PACKET_SIZE < bytes.length })
+    });
+  }
+  return entries;
+}
+
+/**
+ * 回放控制器：按原始时间间隔（可加速）推送条目，同一轮到期的条目合并为一批。
+ * 定位到已播放位置之前时先调用 onReset 清空，再把到目标位置为止的条目一次推送。
+ */
+export function createReplayer(
+  entries: ReplayEntry[],
+  handlers: {
+    onEntries: (batch: ReplayEntry[]) => void;
+    onReset: () => void;
+    onState: (state: ReplayState) => void;
+  }
+) {
+  let position = 0;
+  let playing = false;
+  let speed: ReplaySpeed = 1;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  // 时间锚点：anchorWall 时刻对应 anchorOffset 处的条目
+  let anchorWall = 0;
+  let anchorOffset = 0;
+
+  const emitState = () => handlers.onState({ position, total: entries.length, playing, speed });
+
+  const clearTimer = () => {
+    if (timer !== null) clearTimeout(timer);
+    timer = null;
+  };
+
+  const reanchor = () => {
+    anchorWall = Date.now();
+    anchorOffset = position < entries.length ? entries[position].offsetMs : 0;
+  };
+
+  const tick = () => {
+    timer = null;
+    if (!playing) return;
+    const from = position;
+    if (speed === 'max') {
+      position = Math.min(entries.length, position + MAX_BATCH);
+    } else {
+      const due = anchorOffset + (Date.now() - anchorWall) * speed;
+      while (position < entries.length && entries[position].offsetMs <= due && position - from < MAX_BATCH) position++;
+    }
+    const pushed = position - from;
+    if (pushed > 0) handlers.onEntries(entries.slice(from, position));
+    if (position >= entries.length) {
+      playing = false;
+      emitState();
+      return;
+    }
+    if (pushed > 0) emitState();
+    const delay = speed === 'max' || pushed >= MAX_BATCH
+      ? 0
+      : Math.max(0, (entries[position].offsetMs - anchorOffset) / speed - (Date.now() - anchorWall));
+    timer = setTimeout(tick, delay);
+  };
+
+  const play = () => {
+    if (playing || position >= entries.length) return;
+    playing = true;
+    reanchor();
+    emitState();
+    tick();
+  };
+
+  const pause = () => {
+    if (!playing) return;
+    playing = false;
+    clearTimer();
+    emitState();
+  };
+
+  const setSpeed = (next: ReplaySpeed) => {
+    speed = next;
+    reanchor();
+    emitState();
+    if (playing) {
+      clearTimer();
+      tick();
+    }
+  };
+
+  /** 定位到第 target 条之前（即已推送 target 条） */
+  const seek = (target: number) => {
+    target = Math.max(0, Math.min(entries.length, Math.round(target)));
+    clearTimer();
+    if (target < position) {
+      handlers.onReset();
+      position = 0;
+    }
+    if (position < target) {
+      handlers.onEntries(entries.slice(position, target));
+      position = target;
+    }
+    if (position >= entries.length) playing = false;
+    reanchor();
+    emitState();
+    if (playing) tick();
+  };
+
+  const stop = () => {
+    playing = false;
+    clearTimer();
+  };
+
+  return { play, pause, setSpeed, seek, stop };
+}
@@ -0,0 +1,104 @@
+import { Rule, RuleHit } from '../types';
+
+/** 规则是否配置了生效中的自动响应 */
+export function hasActiveAction(rule: Rule): boolean {
+  return rule.enabled !== false && !!rule.action && rule.action.enabled !== false && !!rule.action.payload;
+}
+
+/** 规则是否配置了生效中的告警（至少选了一种方式） */
+export function hasActiveAlert(rule: Rule): boolean {
+  const alert = rule.alert;
+  return rule.enabled !== false && !!alert && alert.enabled !== false
+    && !!(alert.sound || alert.notify || alert.flashTitle || alert.pause);
+}
+
+/**
+ * 从一条 RX 日志的匹配结果中取出通过 filter 的规则及其匹配文本（每条规则一项）。
+ * 暂定匹配在下一包的重匹配（continued）不再重复触发。规则数组换了时回调 onRulesChange 清理旧记录
+ */
+function createHitCollector(filter: (rule: Rule) => boolean, onRulesChange: (active: Map<string, Rule>) => void) {
+  let lastRules: Rule[] | null = null;
+  let active = new Map<string, Rule>();
+  return {
+    collect(hits: RuleHit[], rules: Rule[]): { rule: Rule; matches: string[] }[] {
+      if (rules !== lastRules) {
+        lastRules = rules;
+        active = new Map(rules.filter(filter).map(r => [r.id, r]));
+        onRulesChange(active);
+      }
+      const byRule = new Map<string, { rule: Rule; matches: string[] }>();
+      for (const hit of hits) {
+        if (hit.continued) continue;
+        const rule = active.get(hit.ruleId);
+        if (!rule) continue;
+        let entry = byRule.get(rule.id);
+        if (!entry) {
+          entry = { rule, matches: [] };
+          byRule.set(rule.id, entry);
+        }
+        entry.matches.push(hit.text);
+      }
+      return [...byRule.values()];
+    }
+  };
+}
+
+const dropInactive = (lastFired: Map<string, number>) => (active: Map<string, Rule>) => {
+  for (const id of lastFired.keys()) {
+    if (!active.has(id)) lastFired.delete(id);
+  }
+};
+
+/**
+ * 自动响应调度：逐包推入 RX 日志的匹配结果（RuleMarks.hits），
+ * 返回本次应触发的规则（已按各自的限频过滤）
+ */
+export function createAutoResponder() {
+  const lastFired = new Map<string, number>();
+  const collector = createHitCollector(hasActiveAction, dropInactive(lastFired));
+
+  return {
+    push(hits: RuleHit[], rules: Rule[], now: number): Rule[] {
+      const fired: Rule[] = [];
+      for (const { rule } of collector.collect(hits, rules)) {
+        const cooldown = (rule.action!.cooldownSec ?? 0) * 1000;
+        const last = lastFired.get(rule.id);
+        if (cooldown > 0 && last !== undefined && now - last < cooldown) continue;
+        lastFired.set(rule.id, now);
+        fired.push(rule);
+      }
+      return fired;
+    },
+    /** 断开 / 清空时丢弃限频记录 */
+    reset() {
+      lastFired.clear();
+    }
+  };
+}
+
+const ALERT_INTERVAL = 1000; // 同一规则的告警至少间隔 1 秒，避免连续命中时刷屏
+
+/**
+ * 告警监视：逐包推入 RX 日志的匹配结果，返回本次应告警的规则及最后一次匹配的文本。
+ * 同一规则 1 秒内的多次命中合并为一次告警
+ */
+export function createAlertMonitor() {
+  const lastFired = new Map<string, number>();
+  const collector = createHitCollector(hasActiveAlert, dropInactive(lastFired));
+
+  return {
+    push(hits: RuleHit[], rules: Rule[], now: number): { rule: Rule; text: string }[] {
+      const fired: { rule: Rule; text: string }[] = [];
+      for (const { rule, matches } of collector.collect(hits, rules)) {
+        const last = lastFired.get(rule.id);
+        if (last !== undefined && now - last < ALERT_INTERVAL) continue;
+        lastFired.set(rule.id, now);
+        fired.push({ rule, text: matches[matches.length - 1] });
+      }
+      return fired;
+    },
+    reset() {
+      lastFired.clear();
+    }
+  };
+}
@@ -0,0 +1,341 @@
+import { LogEntry, Rule, RuleHit, RuleMarks, RuleSpan, RuleValue, TextEncoding } from '../types';
+import { keyToText, numberAfterKeyword, parseNumber, ruleSignature } from './ruleMatch';
+import { compileRuleRegExp, isRegexRule } from './ruleRegex';
+
+const MAX_CARRY = 1024;           // 正则规则跨包保留的未完成文本上限
+const MAX_RANGE_TEXT = 64 * 1024; // 区间模式提取文本的上限（超长区间只保留末尾）
+const MAX_VALUE_TAIL = 64;        // 关键词后等待数值的最大长度
+
+/** 参与匹配的规则配置：启用的规则及其匹配字段 + 编码。颜色、顺序等只影响显示，不计入 */
+export function rulesMatchKey(rules: Rule[], encoding: TextEncoding): string {
+  return rules
+    .filter(r => r.enabled !== false)
+    .map(r => `${r.id}:${ruleSignature(r, encoding)}`)
+    .sort()
+    .join('\n');
+}
+
+const isDataLog = (log: LogEntry) => log.type === 'rx' || log.type === 'tx';
+
+/** Aho-Corasick 自动机节点：转移表、失败指针、输出（已沿失败链合并的模式下标） */
+interface AcNode {
+  next: Map<number, number>;
+  fail: number;
+  out: number[];
+}
+
+const ASCII = 128;
+
+/** 自动机：ascii 为 ASCII 字符的完整转移表（nodes.length × 128，免去逐级回退），其余字符走失败指针 */
+interface Automaton {
+  nodes: AcNode[];
+  ascii: Int32Array;
+}
+
+function buildAutomaton(patterns: string[]): Automaton {
+  const nodes: AcNode[] = [{ next: new Map(), fail: 0, out: [] }];
+  patterns.forEach((pattern, pi) => {
+    let n = 0;
+    for (let i = 0; i < pattern.length; i++) {
+      const c = pattern.charCodeAt(i);
+      let child = nodes[n].next.get(c);
+      if (child === undefined) {
+        child = nodes.length;
+        nodes.push({ next: new Map(), fail: 0, out: [] });
+        nodes[n].next.set(c, child);
+      }
+      n = child;
+    }
+    nodes[n].out.push(pi);
+  });
+  // 按层次（BFS）计算失败指针，浅层节点的输出先完成合并
+  const queue = [...nodes[0].next.values()];
+  for (let qi = 0; qi < queue.length; qi++) {
+    const n = queue[qi];
+    for (const [c, child] of nodes[n].next) {
+      let f = nodes[n].fail;
+      while (f !== 0 && !nodes[f].next.has(c)) f = nodes[f].fail;
+      nodes[child].fail = nodes[f].next.get(c) ?? 0;
+      nodes[child].out.push(...nodes[nodes[child].fail].out);
+      queue.push(child);
+    }
+  }
+  const ascii = new Int32Array(nodes.length * ASCII);
+  for (const n of [0, ...queue]) {
+    for (let c = 0; c < ASCII; c++) {
+      ascii[n * ASCII + c] = nodes[n].next.get(c) ?? (n === 0 ? 0 : ascii[nodes[n].fail * ASCII + c]);
+    }
+  }
+  return { nodes, ascii };
+}
+
+/** 字面量模式：关键词、区间起始、区间结束 */
+interface LiteralPattern {
+  id: string;
+  rule: number;
+  role: 'keyword' | 'left' | 'right';
+  text: string;
+}
+
+/** 区间规则的状态：open 为未闭合起始的位置（-1 = 无），下一个起始必须不早于 minLeft */
+interface RangeState {
+  id: string;
+  leftLen: number;
+  open: number;
+  minLeft: number;
+}
+
+/** 正则规则的状态：carry 为上次未确定的文本（结束于本次推入的开头），pending 表示 carry 以暂定匹配开头 */
+interface RegexState {
+  id: string;
+  re: RegExp;
+  group: number;
+  carry: string;
+  pending: boolean;
+}
+
+/** 关键词命中后等待其后数值的位置（全局坐标） */
+interface ValueCapture {
+  id: string;
+  start: number;
+}
+
+const EMPTY_MARKS: RuleMarks = { key: '', spans: [], hits: [], values: [] };
+
+/**
+ * 流式规则匹配引擎：每条 RX/TX 文本只扫描一次，得到染色区间与提取结果。
+ * 字面量关键字（关键词 / 区间起始 / 区间结束）共用一个 Aho-Corasick 自动机逐字符匹配，
+ * 自动机状态与未闭合的区间跨包保留；正则规则保留末尾未完成的文本，与下一包拼接后再匹配。
+ * 同时给出提取到的数值（关键词模式取关键字后紧跟的数），供统计与曲线直接使用。
+ * 规则匹配配置变化时自动重建
+ */
+export function createRuleEngine() {
+  let key: string | null = null;
+  // 规则数组未换（同一引用）时沿用上次的配置签名，省去每包重新计算
+  let keyRules: Rule[] | null = null;
+  let keyEncoding: TextEncoding | null = null;
+  let automaton: Automaton = buildAutomaton([]);
+  let patterns: LiteralPattern[] = [];
+  let ranges: (RangeState | null)[] = [];
+  let regexes: RegexState[] = [];
+  let captures: ValueCapture[] = [];
+  let state = 0;
+  let pos = 0;           // 已推入的文本总长（全局坐标）
+  let history = '';      // 最近的文本，用于取出跨包的区间内容
+  let historyStart = 0;
+
+  const compile = (rules: Rule[], encoding: TextEncoding) => {
+    patterns = [];
+    ranges = [];
+    regexes = [];
+    captures = [];
+    rules.forEach((rule, ri) => {
+      ranges.push(null);
+      if (rule.enabled === false) return;
+      if (isRegexRule(rule)) {
+        const re = rule.pattern ? compileRuleRegExp(rule) : null;
+        if (re instanceof RegExp) regexes.push({ id: rule.id, re, group: rule.group ?? 0, carry: '', pending: false });
+        return;
+      }
+      const left = keyToText(rule.leftKey, rule.leftKeyMode, encoding);
+      if (!left) return;
+      const right = rule.rightKey ? keyToText(rule.rightKey, rule.rightKeyMode, encoding) : '';
+      if (right) {
+        ranges[ri] = { id: rule.id, leftLen: left.length, open: -1, minLeft: 0 };
+        patterns.push({ id: rule.id, rule: ri, role: 'left', text: left }, { id: rule.id, rule: ri, role: 'right', text: right });
+      } else {
+        patterns.push({ id: rule.id, rule: ri, role: 'keyword', text: left });
+      }
+    });
+    automaton = buildAutomaton(patterns.map(p => p.text));
+    state = 0;
+    history = '';
+    historyStart = pos;
+  };
+
+  return {
+    /** 推入一条 RX/TX 文本，返回其匹配结果（位置相对该文本） */
+    push(text: string, rules: Rule[], encoding: TextEncoding): RuleMarks {
+      if (rules !== keyRules || encoding !== keyEncoding || key === null) {
+        keyRules = rules;
+        keyEncoding = encoding;
+        const currentKey = rulesMatchKey(rules, encoding);
+        if (currentKey !== key) {
+          key = currentKey;
+          compile(rules, encoding);
+        }
+      }
+      const currentKey = key;
+      const logStart = pos;
+      pos += text.length;
+      if (patterns.length === 0 && regexes.length === 0) {
+        return currentKey === '' ? EMPTY_MARKS : { key: currentKey, spans: [], hits: [], values: [] };
+      }
+      const spans: RuleSpan[] = [];
+      const hits: RuleHit[] = [];
+      const values: RuleValue[] = [];
+      const pushValue = (ruleId: string, text: string, end: number) => {
+        const value = parseNumber(text);
+        if (!Number.isNaN(value)) values.push({ ruleId, value, end });
+      };
+      history += text;
+
+      // 字面量：逐字符走自动机；同一位置先处理区间结束，再处理起始（起始与结束相同时不会自我闭合）
+      if (patterns.length > 0) {
+        const { nodes, ascii } = automaton;
+        for (let i = 0; i < text.length; i++) {
+          const c = text.charCodeAt(i);
+          if (c < ASCII) {
+            state = ascii[state * ASCII + c];
+          } else {
+            while (state !== 0 && !nodes[state].next.has(c)) state = nodes[state].fail;
+            state = nodes[state].next.get(c) ?? 0;
+          }
+          const out = nodes[state].out;
+          if (out.length === 0) continue;
+          const end = logStart + i + 1;
+          for (const pi of out) {
+            const p = patterns[pi];
+            if (p.role !== 'right') continue;
+            const range = ranges[p.rule]!;
+            if (range.open < 0 || end - p.text.length < range.open + range.leftLen) continue;
+            spans.push({ ruleId: range.id, start: range.open - logStart, end: end - logStart });
+            const from = Math.max(range.open, historyStart);
+            const content = history.slice(from - historyStart, end - historyStart);
+            hits.push({ ruleId: range.id, text: content, end: end - logStart });
+            pushValue(range.id, content.slice(Math.max(0, range.open + range.leftLen - from), content.length - p.text.length), end - logStart);
+            range.open = -1;
+            range.minLeft = end;
+          }
+          for (const pi of out) {
+            const p = patterns[pi];
+            const start = end - p.text.length;
+            if (p.role === 'keyword') {
+              spans.push({ ruleId: p.id, start: start - logStart, end: end - logStart });
+              hits.push({ ruleId: p.id, text: p.text, end: end - logStart });
+              captures.push({ id: p.id, start: end });
+            } else if (p.role === 'left') {
+              const range = ranges[p.rule]!;
+              if (range.open < 0 && start >= range.minLeft) range.open = start;
+            }
+          }
+        }
+      }
+
+      // 正则：触及末尾的匹配先照常染色，提取结果标记为暂定；同时保留下来与下一包一起重新匹配，
+      // 重新得到的同一处匹配（从 carry 开头开始）标记为 continued，取代暂定结果（如数字被拆包时得到完整值）
+      for (const r of regexes) {
+        const buf = r.carry + text;
+        const bufStart = pos - buf.length;
+        const continuing = r.pending;
+        let consumed = 0;
+        let tentative = -1;
+        r.re.lastIndex = 0;
+        let m: RegExpExecArray | null;
+        while ((m = r.re.exec(buf)) !== null) {
+          if (m[0] === '') {
+            r.re.lastIndex++;
+            continue;
+          }
+          const matchEnd = m.index + m[0].length;
+          const end = bufStart + matchEnd - logStart;
+          // 超长的匹配无法整段保留，直接视为已确定
+          const open = matchEnd >= buf.length && buf.length - m.index <= MAX_CARRY;
+          spans.push({ ruleId: r.id, start: bufStart + m.index - logStart, end });
+          if (m[r.group] !== undefined) {
+            const hit: RuleHit = { ruleId: r.id, text: m[r.group], end };
+            if (open) hit.tentative = true;
+            if (continuing && m.index === 0) hit.continued = true;
+            hits.push(hit);
+            if (!open) pushValue(r.id, m[r.group], end);
+          }
+          if (open) {
+            tentative = m.index;
+            break;
+          }
+          consumed = matchEnd;
+        }
+        r.pending = tentative >= 0;
+        r.carry = buf.slice(tentative >= 0 ? tentative : Math.max(consumed, buf.length - MAX_CARRY));
+      }
+
+      // 关键词后的数值：完整出现（后面跟着非数值字符）时给出，还在接收中的留到下一包
+      if (captures.length > 0) {
+        captures = captures.filter(c => {
+          const tail = history.slice(c.start - historyStart, c.start - historyStart + MAX_VALUE_TAIL);
+          const result = numberAfterKeyword(tail);
+          if (result === 'pending') return c.start + tail.length === pos;
+          if (result) values.push({ ruleId: c.id, value: result.value, end: c.start + result.length - logStart });
+          return false;
+        });
+      }
+
+      // 历史文本只保留到最早的未闭合区间起点 / 等待中的数值起点
+      let keepFrom = pos;
+      for (const range of ranges) {
+        if (range && range.open >= 0 && range.open < keepFrom) keepFrom = range.open;
+      }
+      for (const c of captures) {
+        if (c.start < keepFrom) keepFrom = c.start;
+      }
+      keepFrom = Math.max(keepFrom, pos - MAX_RANGE_TEXT, historyStart);
+      if (keepFrom > historyStart) {
+        history = history.slice(keepFrom - historyStart);
+        historyStart = keepFrom;
+      }
+
+      return { key: currentKey, spans, hits, values };
+    },
+    /** 清空跨包状态（日志清空时调用），下次推入重新开始 */
+    reset() {
+      key = null;
+    }
+  };
+}
+
+/**
+ * 取一组日志的规则匹配结果：RX/TX 日志都带有与当前配置一致的结果时直接复用；
+ * 否则（如从磁盘读回的旧块、规则刚修改）用新引擎按顺序重新计算一遍
+ */
+export function resolveMarks(logs: LogEntry[], rules: Rule[], encoding: TextEncoding): (RuleMarks | undefined)[] {
+  const key = rulesMatchKey(rules, encoding);
+  if (logs.every(log => !isDataLog(log) || log.marks?.key === key)) return logs.map(log => log.marks);
+  const engine = createRuleEngine();
+  return logs.map(log => (isDataLog(log) ? engine.push(log.text, rules, encoding) : undefined));
+}
+
+/** 拼接多段日志的匹配结果（offset 为各段在合并文本中的起点）；任一段缺失或配置不一致时返回 undefined */
+export function concatMarks(parts: { marks: RuleMarks | undefined; offset: number }[]): RuleMarks | undefined {
+  const key = parts[0]?.marks?.key;
+  if (key === undefined || parts.some(p => p.marks?.key !== key)) return undefined;
+  const spans: RuleSpan[] = [];
+  const hits: RuleHit[] = [];
+  const values: RuleValue[] = [];
+  for (const { marks, offset } of parts) {
+    for (const s of marks!.spans) spans.push({ ruleId: s.ruleId, start: s.start + offset, end: s.end + offset });
+    for (const h of marks!.hits) hits.push({ ...h, end: h.end + offset });
+    for (const v of marks!.values) values.push({ ...v, end: v.end + offset });
+  }
+  return { key, spans, hits, values };
+}
+
+/**
+ * 取一条日志中 [from, to) 部分的匹配结果并平移到 offset 处（按行切分时使用）；
+ * 跨越切分边界的区间保留原长度，由使用方裁剪
+ */
+export function sliceMarks(marks: RuleMarks | undefined, from: number, to: number, offset: number): RuleMarks | undefined {
+  if (!marks) return undefined;
+  const shift = offset - from;
+  return {
+    key: marks.key,
+    spans: marks.spans
+      .filter(s => s.start < to && s.end > from)
+      .map(s => ({ ruleId: s.ruleId, start: s.start + shift, end: s.end + shift })),
+    hits: marks.hits
+      .filter(h => h.end > from && h.end <= to)
+      .map(h => ({ ...h, end: h.end + shift })),
+    values: marks.values
+      .filter(v => v.end > from && v.end <= to)
+      .map(v => ({ ...v, end: v.end + shift }))
+  };
+}
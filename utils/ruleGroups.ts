@@ -0,0 +1,193 @@
+import { DisplayMode, Rule, RuleAction, RuleAlert, RuleGroup, TextEncoding } from '../types';
+import { ruleSignature } from './ruleMatch';
+
+/** 单个分组导出文件的类型标记 */
+const GROUP_FILE_TYPE = 'serial-rule-group';
+const GROUP_FILE_VERSION = 1;
+
+/** 列表中的一个分组段落：id 为空表示未分组 */
+export interface RuleSection {
+  id: string;
+  rules: Rule[];
+}
+
+/** 分组导入文件解析结果：skipped 为因字段无效而跳过的规则说明 */
+export interface ParsedRuleGroup {
+  name: string;
+  enabled: boolean;
+  rules: Rule[];
+  skipped: string[];
+}
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+/** 规则所在的分组（分组已删除或未设置时为空 = 未分组） */
+export function ruleSectionId(rule: Rule, groups: RuleGroup[]): string {
+  return rule.groupId && groups.some(g => g.id === rule.groupId) ? rule.groupId : '';
+}
+
+/** 按显示顺序分段：未分组在前，其余按分组顺序；段内保持规则原有的相对顺序 */
+export function groupSections(rules: Rule[], groups: RuleGroup[]): RuleSection[] {
+  const sections: RuleSection[] = [{ id: '', rules: [] }, ...groups.map(g => ({ id: g.id, rules: [] as Rule[] }))];
+  for (const rule of rules) {
+    const id = ruleSectionId(rule, groups);
+    sections.find(s => s.id === id)!.rules.push(rule);
+  }
+  return sections;
+}
+
+/** 把分段拼回规则数组（数组顺序即优先级，与列表显示一致） */
+export function flattenSections(sections: RuleSection[]): Rule[] {
+  return sections.flatMap(s => s.rules.map(r => ((r.groupId ?? '') === s.id ? r : { ...r, groupId: s.id || undefined })));
+}
+
+/** 停用分组内的规则视为停用（供染色、提取、动作等使用，不改动规则本身的开关） */
+export function applyRuleGroups(rules: Rule[], groups: RuleGroup[]): Rule[] {
+  const disabled = new Set(groups.filter(g => g.enabled === false).map(g => g.id));
+  if (disabled.size === 0) return rules;
+  return rules.map(r => (r.groupId && disabled.has(r.groupId) && r.enabled !== false ? { ...r, enabled: false } : r));
+}
+
+/** 把规则移动到指定分组的第 index 位（index 按该分组内除自身外的规则计） */
+export function moveRuleTo(rules: Rule[], groups: RuleGroup[], ruleId: string, sectionId: string, index: number): Rule[] {
+  const moved = rules.find(r => r.id === ruleId);
+  if (!moved) return rules;
+  const sections = groupSections(rules.filter(r => r.id !== ruleId), groups);
+  const target = sections.find(s => s.id === sectionId) ?? sections[0];
+  target.rules.splice(Math.max(0, Math.min(index, target.rules.length)), 0, moved);
+  return flattenSections(sections);
+}
+
+/** 导出单个分组：分组名、开关及组内规则（不含分组 id，导入时重新生成） */
+export function exportRuleGroup(group: RuleGroup, rules: Rule[]): string {
+  return JSON.stringify({
+    type: GROUP_FILE_TYPE,
+    version: GROUP_FILE_VERSION,
+    name: group.name,
+    enabled: group.enabled !== false,
+    rules: rules.filter(r => r.groupId === group.id).map(({ groupId: _groupId, ...rule }) => rule)
+  }, null, 2);
+}
+
+const KEY_MODES: unknown[] = [DisplayMode.Text, DisplayMode.Hex];
+
+const isOptional = (v: unknown, type: 'string' | 'boolean' | 'number') => v === undefined || typeof v === type;
+const isCount = (v: unknown) => v === undefined || (typeof v === 'number' && Number.isFinite(v) && v >= 0);
+
+/** 校验自动响应字段，返回错误信息（无误时为 null） */
+function checkAction(a: Record<string, unknown>): string | null {
+  if (typeof a.payload !== 'string') return 'action.payload 应为字符串';
+  if (!KEY_MODES.includes(a.payloadMode)) return 'action.payloadMode 应为 text 或 hex';
+  if (!isOptional(a.enabled, 'boolean') || !isOptional(a.addNewline, 'boolean')) return 'action 的开关字段应为布尔值';
+  if (!isCount(a.delayMs) || !isCount(a.cooldownSec)) return 'action.delayMs / cooldownSec 应为非负数';
+  return null;
+}
+
+/**
+ * 校验导入的单条规则并补齐默认值；字段类型不对时返回错误信息，
+ * 避免无效数据进入匹配、正则编译与自动响应流程
+ */
+function parseRule(item: unknown): Rule | string {
+  if (!item || typeof item !== 'object' || Array.isArray(item)) return '不是对象';
+  const r = item as Record<string, unknown>;
+  for (const field of ['color', 'bgColor', 'leftKey', 'rightKey', 'pattern', 'flags'] as const) {
+    if (!isOptional(r[field], 'string')) return `${field} 应为字符串`;
+  }
+  for (const field of ['leftKeyMode', 'rightKeyMode', 'displayMode'] as const) {
+    if (r[field] !== undefined && !KEY_MODES.includes(r[field])) return `${field} 应为 text 或 hex`;
+  }
+  if (!isOptional(r.enabled, 'boolean')) return 'enabled 应为布尔值';
+  if (r.matchMode !== undefined && r.matchMode !== 'key' && r.matchMode !== 'regex') return 'matchMode 应为 key 或 regex';
+  if (r.group !== undefined && !(Number.isInteger(r.group) && (r.group as number) >= 0)) return 'group 应为非负整数';
+  let action: RuleAction | undefined;
+  if (r.action !== undefined) {
+    if (!r.action || typeof r.action !== 'object') return 'action 应为对象';
+    const error = checkAction(r.action as Record<string, unknown>);
+    if (error) return error;
+    action = r.action as RuleAction;
+  }
+  let alert: RuleAlert | undefined;
+  if (r.alert !== undefined) {
+    if (!r.alert || typeof r.alert !== 'object') return 'alert 应为对象';
+    const a = r.alert as Record<string, unknown>;
+    if (!(['enabled', 'sound', 'notify', 'flashTitle', 'pause'] as const).every(k => isOptional(a[k], 'boolean'))) {
+      return 'alert 的开关字段应为布尔值';
+    }
+    alert = r.alert as RuleAlert;
+  }
+  return {
+    id: newId(),
+    enabled: r.enabled as boolean | undefined,
+    color: (r.color as string | undefined) ?? '#e53e3e',
+    bgColor: r.bgColor as string | undefined,
+    leftKey: (r.leftKey as string | undefined) ?? '',
+    leftKeyMode: (r.leftKeyMode as DisplayMode | undefined) ?? DisplayMode.Text,
+    rightKey: (r.rightKey as string | undefined) ?? '',
+    rightKeyMode: (r.rightKeyMode as DisplayMode | undefined) ?? DisplayMode.Text,
+    displayMode: (r.displayMode as DisplayMode | undefined) ?? DisplayMode.Text,
+    matchMode: r.matchMode as Rule['matchMode'],
+    pattern: r.pattern as string | undefined,
+    flags: r.flags as string | undefined,
+    group: r.group as number | undefined,
+    action,
+    alert
+  };
+}
+
+/**
+ * 解析分组文件，返回解析结果或错误信息。也接受直接由规则组成的数组。
+ * 字段无效的规则跳过并记入 skipped，全部无效时视为错误
+ */
+export function parseRuleGroup(text: string, fallbackName: string): ParsedRuleGroup | string {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return '不是有效的 JSON 文件';
+  }
+  let name = fallbackName;
+  let enabled = true;
+  let list: unknown = data;
+  if (!Array.isArray(data)) {
+    const obj = data as { type?: unknown; name?: unknown; enabled?: unknown; rules?: unknown } | null;
+    if (!obj || typeof obj !== 'object' || obj.type !== GROUP_FILE_TYPE) return '不是规则分组文件';
+    if (typeof obj.name === 'string' && obj.name.trim()) name = obj.name.trim();
+    enabled = obj.enabled !== false;
+    list = obj.rules;
+  }
+  if (!Array.isArray(list)) return '分组文件中没有规则列表';
+  const rules: Rule[] = [];
+  const skipped: string[] = [];
+  list.forEach((item, i) => {
+    const rule = parseRule(item);
+    if (typeof rule === 'string') skipped.push(`第 ${i + 1} 条：${rule}`);
+    else rules.push(rule);
+  });
+  if (rules.length === 0 && skipped.length > 0) return `没有有效的规则（${skipped[0]}）`;
+  return { name, enabled, rules, skipped };
+}
+
+/**
+ * 把导入的规则放入分组：replace 时先清空该组原有规则；
+ * 合并时跳过组内已有的相同匹配规则（按匹配字段判断，颜色等不计）
+ */
+export function importIntoGroup(
+  rules: Rule[],
+  groups: RuleGroup[],
+  groupId: string,
+  incoming: Rule[],
+  replace: boolean,
+  encoding: TextEncoding
+): Rule[] {
+  const sections = groupSections(replace ? rules.filter(r => r.groupId !== groupId) : rules, groups);
+  const target = sections.find(s => s.id === groupId);
+  if (!target) return rules;
+  const seen = new Set(target.rules.map(r => ruleSignature(r, encoding)));
+  for (const rule of incoming) {
+    const sig = ruleSignature(rule, encoding);
+    if (seen.has(sig)) continue;
+    seen.add(sig);
+    target.rules.push({ ...rule, groupId });
+  }
+  return flattenSections(sections);
+}
@@ -0,0 +1,48 @@
+import { DisplayMode, Rule, TextEncoding } from '../types';
+import { hexToUint8Array, uint8ArrayToString } from './converters';
+import { isRegexRule } from './ruleRegex';
+
+/** 将 key 转换为可搜索文本（Hex 模式先按当前编码转换） */
+export function keyToText(key: string, mode: DisplayMode, encoding: TextEncoding): string {
+  if (!key) return '';
+  if (mode === DisplayMode.Hex) {
+    try {
+      return uint8ArrayToString(hexToUint8Array(key), encoding);
+    } catch { return ''; }
+  }
+  return key;
+}
+
+/** 规则的简短名称（图表图例、CSV 列等） */
+export function ruleLabel(rule: Rule): string {
+  if (isRegexRule(rule)) return rule.pattern ? `/${rule.pattern}/` : '(空正则)';
+  if (rule.leftKey && rule.rightKey) return `${rule.leftKey} … ${rule.rightKey}`;
+  return rule.leftKey || '(空规则)';
+}
+
+/** 规则匹配字段 + 编码的签名，字段或编码变化时用于重建流式匹配器 */
+export function ruleSignature(rule: Rule, encoding: TextEncoding): string {
+  return isRegexRule(rule)
+    ? `regex|${rule.pattern}|${rule.flags}|${rule.group}|${encoding}`
+    : `${rule.leftKeyMode}|${rule.leftKey}|${rule.rightKeyMode}|${rule.rightKey}|${encoding}`;
+}
+
+const NUMBER = /[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/;
+const LEADING_NUMBER = new RegExp(`^\\s*(${NUMBER.source})`);
+const PARTIAL_NUMBER = /^\s*[-+]?\.?$/;
+
+/** 从提取文本中取第一个数值，没有时返回 NaN */
+export function parseNumber(text: string): number {
+  const m = NUMBER.exec(text);
+  return m ? Number(m[0]) : NaN;
+}
+
+/**
+ * 关键字之后紧跟的数值（允许前导空白）：返回数值及其在 tail 中的结束位置；
+ * 数值可能还没接收完整（到达 tail 末尾，或目前只有空白 / 符号）时返回 'pending'，后面不是数值时返回 null
+ */
+export function numberAfterKeyword(tail: string): { value: number; length: number } | 'pending' | null {
+  const m = LEADING_NUMBER.exec(tail);
+  if (m) return m[0].length < tail.length ? { value: Number(m[1]), length: m[0].length } : 'pending';
+  return PARTIAL_NUMBER.test(tail) ? 'pending' : null;
+}
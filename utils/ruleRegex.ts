@@ -0,0 +1,38 @@
+import { Rule } from '../types';
+
+const SUPPORTED_FLAGS = /^[imsu]*$/;
+
+export const isRegexRule = (rule: Rule) => rule.matchMode === 'regex';
+
+/**
+ * 编译正则规则（自动加 g 标志）；返回错误信息表示无效：
+ * 表达式语法错误、不支持的标志、提取的捕获组不存在
+ */
+export function compileRuleRegExp(rule: Pick<Rule, 'pattern' | 'flags' | 'group'>): RegExp | string {
+  const flags = (rule.flags ?? '').replace(/g/g, ''); // g 总是添加，用户填写时忽略
+  if (!SUPPORTED_FLAGS.test(flags)) return `不支持的标志「${flags.replace(/[imsu]/g, '')}」，可用 i / m / s / u`;
+  let re: RegExp;
+  try {
+    re = new RegExp(rule.pattern ?? '', flags + 'g');
+  } catch (err: any) {
+    return err.message;
+  }
+  // 空分支必定命中，借此得到捕获组数量
+  const groupCount = new RegExp(`|${re.source}`, flags).exec('')!.length - 1;
+  const group = rule.group ?? 0;
+  if (group > groupCount) return `捕获组 ${group} 不存在（表达式共 ${groupCount} 组）`;
+  return re;
+}
+
+/** 依次遍历所有非空匹配（空匹配跳过，避免 lastIndex 停滞） */
+export function forEachRegexMatch(text: string, re: RegExp, fn: (m: RegExpExecArray) => void): void {
+  re.lastIndex = 0;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(text)) !== null) {
+    if (m[0] === '') {
+      re.lastIndex++;
+      continue;
+    }
+    fn(m);
+  }
+}
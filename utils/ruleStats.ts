@@ -0,0 +1,135 @@
+import { Rule, RuleMarks, TextEncoding } from '../types';
+import { ruleSignature } from './ruleMatch';
+
+/** 单条规则的累计统计（覆盖整个数据流，不受显示缓冲区与扫描窗口限制） */
+export interface RuleStats {
+  hits: number;
+  rate: number;          // 最近几秒的平均命中次数 / 秒
+  firstSeen: Date | null;
+  lastSeen: Date | null;
+  count: number;         // 提取到数值的次数（0 = 非数值提取，不显示 min/max/avg）
+  min: number;
+  max: number;
+  avg: number;
+}
+
+const RATE_WINDOW = 5; // 命中速率统计窗口（秒，只计已结束的整秒）
+const BUCKETS = RATE_WINDOW + 1;
+
+interface Tracker {
+  sig: string;
+  hits: number;
+  firstSeen: number;
+  lastSeen: number;
+  count: number;
+  min: number;
+  max: number;
+  sum: number;
+  // 每秒命中数的环形缓冲（多留一格给当前秒）：下标 = 秒 % BUCKETS
+  bucketSec: number[];
+  bucketHits: number[];
+}
+
+function newTracker(sig: string): Tracker {
+  return {
+    sig,
+    hits: 0,
+    firstSeen: 0,
+    lastSeen: 0,
+    count: 0,
+    min: Infinity,
+    max: -Infinity,
+    sum: 0,
+    bucketSec: new Array(BUCKETS).fill(-1),
+    bucketHits: new Array(BUCKETS).fill(0)
+  };
+}
+
+/**
+ * 规则命中统计：数据到达时逐包累加匹配引擎给出的结果（命中次数、速率、首末次时间，数值提取的 min/max/avg），
+ * 不回扫缓冲区。规则字段或编码变化时该规则的统计重新开始
+ */
+export function createRuleStatsTracker() {
+  const trackers = new Map<string, Tracker>();
+  // 规则数组未换（同一引用）时跳过签名检查
+  let syncedRules: Rule[] | null = null;
+  let syncedEncoding: TextEncoding | null = null;
+  // 上次快照：内容未变时返回同一对象，界面可据此跳过重渲染
+  let lastSnapshot: Record<string, RuleStats> = {};
+  let lastKey = '';
+
+  return {
+    /** 推入一条 RX/TX 日志的匹配结果（暂定匹配的后续重匹配不重复计数） */
+    push(marks: RuleMarks, rules: Rule[], encoding: TextEncoding, now: number): void {
+      if (rules !== syncedRules || encoding !== syncedEncoding) {
+        syncedRules = rules;
+        syncedEncoding = encoding;
+        for (const id of trackers.keys()) {
+          if (!rules.some(r => r.id === id && r.enabled !== false)) trackers.delete(id);
+        }
+        for (const rule of rules) {
+          if (rule.enabled === false) continue;
+          const sig = ruleSignature(rule, encoding);
+          if (trackers.get(rule.id)?.sig !== sig) trackers.set(rule.id, newTracker(sig));
+        }
+      }
+      for (const hit of marks.hits) {
+        if (hit.continued) continue;
+        const t = trackers.get(hit.ruleId);
+        if (!t) continue;
+        if (t.hits === 0) t.firstSeen = now;
+        t.hits++;
+        t.lastSeen = now;
+        const sec = Math.floor(now / 1000);
+        const slot = sec % BUCKETS;
+        if (t.bucketSec[slot] !== sec) {
+          t.bucketSec[slot] = sec;
+          t.bucketHits[slot] = 0;
+        }
+        t.bucketHits[slot]++;
+      }
+      for (const { ruleId, value } of marks.values) {
+        const t = trackers.get(ruleId);
+        if (!t) continue;
+        t.count++;
+        t.sum += value;
+        if (value < t.min) t.min = value;
+        if (value > t.max) t.max = value;
+      }
+    },
+    /** 当前统计快照（供界面定时刷新） */
+    snapshot(now: number): Record<string, RuleStats> {
+      const sec = Math.floor(now / 1000);
+      const result: Record<string, RuleStats> = {};
+      let key = '';
+      for (const [id, t] of trackers) {
+        let recent = 0;
+        for (let i = 0; i < BUCKETS; i++) {
+          if (t.bucketSec[i] < sec && t.bucketSec[i] >= sec - RATE_WINDOW) recent += t.bucketHits[i];
+        }
+        result[id] = {
+          hits: t.hits,
+          rate: recent / RATE_WINDOW,
+          firstSeen: t.hits > 0 ? new Date(t.firstSeen) : null,
+          lastSeen: t.hits > 0 ? new Date(t.lastSeen) : null,
+          count: t.count,
+          min: t.min,
+          max: t.max,
+          avg: t.count > 0 ? t.sum / t.count : NaN
+        };
+        key += `${id}:${t.hits}:${t.count}:${recent}|`;
+      }
+      if (key !== lastKey) {
+        lastKey = key;
+        lastSnapshot = result;
+      }
+      return lastSnapshot;
+    },
+    /** 清零统计：指定规则或全部 */
+    reset(ruleId?: string) {
+      if (ruleId === undefined) trackers.clear();
+      else trackers.delete(ruleId);
+      syncedRules = null; // 下次推入时为被清零的规则重新建立统计
+    }
+  };
+}
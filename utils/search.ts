@@ -0,0 +1,224 @@
+import { LogEntry, RuleMarks, TextEncoding } from '../types';
+import { hexToUint8Array, uint8ArrayToString } from './converters';
+import { concatMarks, sliceMarks } from './ruleEngine';
+
+/** 搜索模式：文本 / HEX 字节序列 / 正则 */
+export type SearchMode = 'text' | 'hex' | 'regex';
+
+export interface SearchQuery {
+  query: string;
+  mode: SearchMode;
+  caseSensitive: boolean;
+}
+
+/** 拼接文本中的区间 [start, end) */
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+export const MAX_MATCHES = 100000; // 匹配数上限，防止极短关键词在大缓冲区中产生海量结果
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  if (parts.length === 1) return parts[0];
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let at = 0;
+  for (const p of parts) {
+    out.set(p, at);
+    at += p.length;
+  }
+  return out;
+};
+
+/** 构造搜索正则；HEX 模式与规则一致，先把字节序列按当前编码转为文本再匹配。返回错误信息表示查询无效 */
+export function buildSearchRegExp(q: SearchQuery, encoding: TextEncoding = TextEncoding.UTF8): RegExp | string {
+  const flags = q.caseSensitive ? 'g' : 'gi';
+  if (q.mode === 'regex') {
+    try {
+      return new RegExp(q.query, flags + 'm');
+    } catch (err: any) {
+      return `正则无效: ${err.message}`;
+    }
+  }
+  if (q.mode === 'hex') {
+    let bytes: Uint8Array;
+    try {
+      bytes = hexToUint8Array(q.query);
+    } catch {
+      return 'HEX 无效：需要偶数个十六进制字符';
+    }
+    if (bytes.length === 0) return 'HEX 无效：需要偶数个十六进制字符';
+    return new RegExp(escapeRegExp(uint8ArrayToString(bytes, encoding)), 'g');
+  }
+  return new RegExp(escapeRegExp(q.query), flags);
+}
+
+/**
+ * 构造搜索目标：HEX 模式返回字节序列，在原始数据（LogEntry.data）中逐字节查找，
+ * 因此 FF FE、单独的 0x80 等无法解码成文本的字节也能搜到；其余模式同 buildSearchRegExp
+ */
+export function buildSearchPattern(q: SearchQuery, encoding: TextEncoding = TextEncoding.UTF8): RegExp | Uint8Array | string {
+  if (q.mode !== 'hex') return buildSearchRegExp(q, encoding);
+  try {
+    const bytes = hexToUint8Array(q.query);
+    return bytes.length > 0 ? bytes : 'HEX 无效：需要偶数个十六进制字符';
+  } catch {
+    return 'HEX 无效：需要偶数个十六进制字符';
+  }
+}
+
+/**
+ * 在文本中从 from 起查找匹配（空匹配跳过），最多 limit 个，超过上限时截断并标记 truncated
+ */
+export function findMatches(text: string, re: RegExp, from = 0, limit = MAX_MATCHES): { ranges: TextRange[]; truncated: boolean } {
+  const ranges: TextRange[] = [];
+  if (limit <= 0) return { ranges, truncated: true };
+  re.lastIndex = from;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(text)) !== null) {
+    if (m[0].length === 0) {
+      re.lastIndex++;
+      continue;
+    }
+    ranges.push({ start: m.index, end: m.index + m[0].length });
+    if (ranges.length >= limit) return { ranges, truncated: true };
+  }
+  return { ranges, truncated: false };
+}
+
+/** 在字节序列中从 from 起查找 pattern 的全部出现（不重叠），最多 limit 个 */
+export function findByteMatches(data: Uint8Array, pattern: Uint8Array, from = 0, limit = MAX_MATCHES): { ranges: TextRange[]; truncated: boolean } {
+  const ranges: TextRange[] = [];
+  if (limit <= 0) return { ranges, truncated: true };
+  const first = pattern[0];
+  const last = data.length - pattern.length;
+  let i = data.indexOf(first, from);
+  while (i !== -1 && i <= last) {
+    let j = 1;
+    while (j < pattern.length && data[i + j] === pattern[j]) j++;
+    if (j === pattern.length) {
+      ranges.push({ start: i, end: i + pattern.length });
+      if (ranges.length >= limit) return { ranges, truncated: true };
+      i = data.indexOf(first, i + pattern.length);
+    } else {
+      i = data.indexOf(first, i + 1);
+    }
+  }
+  return { ranges, truncated: false };
+}
+
+/**
+ * 把日志按 \n 切成行：每行取起始所在条目的类型和时间戳，文本含结尾换行，规则匹配结果随之切分。
+ * 行的字节直接切自原始数据（LogEntry.data）：支持的编码中换行都是单字节 0x0A，
+ * 与文本中的 \n 一一对应，HEX 等视图因此显示真实收发的字节而不是重新编码的结果
+ */
+export function splitLogLines(logs: LogEntry[]): { log: LogEntry; start: number }[] {
+  const lines: { log: LogEntry; start: number }[] = [];
+  let offset = 0;
+  let pending: {
+    type: LogEntry['type'];
+    timestamp: Date;
+    id: string;
+    start: number;
+    text: string;
+    bytes: Uint8Array[];
+    marks: { marks: RuleMarks | undefined; offset: number }[];
+  } | null = null;
+  const flush = () => {
+    if (!pending || (pending.text === '' && pending.bytes.length === 0)) return;
+    const data = concatBytes(pending.bytes);
+    const length = pending.text.length;
+    // 跨行的染色区间裁剪到本行内
+    const joined = concatMarks(pending.marks);
+    const marks = joined && {
+      ...joined,
+      spans: joined.spans
+        .filter(s => s.end > 0 && s.start < length)
+        .map(s => ({ ...s, start: Math.max(0, s.start), end: Math.min(length, s.end) }))
+    };
+    lines.push({
+      log: { id: pending.id, timestamp: pending.timestamp, type: pending.type, data, text: pending.text, byteCount: data.length, marks },
+      start: pending.start
+    });
+    pending = null;
+  };
+  for (const log of logs) {
+    // 系统消息独立成行，不与数据拼接
+    if (log.type !== 'rx' && log.type !== 'tx') {
+      flush();
+      lines.push({ log, start: offset });
+      offset += log.text.length;
+      continue;
+    }
+    let pos = 0;
+    let bytePos = 0;
+    const open = () => pending ??= { type: log.type, timestamp: log.timestamp, id: `${log.id}:${pos}`, start: offset + pos, text: '', bytes: [], marks: [] };
+    while (pos < log.text.length) {
+      const line = open();
+      const nl = log.text.indexOf('\n', pos);
+      const end = nl === -1 ? log.text.length : nl + 1;
+      const byteNl = nl === -1 ? -1 : log.data.indexOf(0x0a, bytePos);
+      const byteEnd = byteNl === -1 ? log.data.length : byteNl + 1;
+      line.marks.push({ marks: sliceMarks(log.marks, pos, end, line.text.length), offset: 0 });
+      line.text += log.text.slice(pos, end);
+      line.bytes.push(log.data.subarray(bytePos, byteEnd));
+      pos = end;
+      bytePos = byteEnd;
+      if (nl !== -1) flush();
+    }
+    // 换行之后尚未解码出文本的字节（如被拆包的多字节字符）归入下一行
+    if (bytePos < log.data.length) open().bytes.push(log.data.subarray(bytePos));
+    offset += log.text.length;
+  }
+  flush();
+  return lines;
+}
+
+/**
+ * 按行过滤：keep 返回 false 的行被隐藏；同时把区间换算到过滤后文本的坐标。
+ * rangeIndex[i] 为 ranges 输出第 i 项在输入中的下标，hidden 为被隐藏的行数
+ */
+export function filterLines(
+  logs: LogEntry[],
+  keep: (line: LogEntry, start: number, end: number) => boolean,
+  ranges: TextRange[] = []
+): { logs: LogEntry[]; ranges: TextRange[]; rangeIndex: number[]; hidden: number } {
+  const result: LogEntry[] = [];
+  const mapped: TextRange[] = [];
+  const rangeIndex: number[] = [];
+  let hidden = 0;
+  let ri = 0;
+  let outOffset = 0;
+  for (const { log, start } of splitLogLines(logs)) {
+    const end = start + log.text.length;
+    const kept = keep(log, start, end);
+    while (ri < ranges.length && ranges[ri].start < end) {
+      if (kept && ranges[ri].start >= start) {
+        // 跨行的匹配截断到本行末尾
+        mapped.push({ start: outOffset + ranges[ri].start - start, end: outOffset + Math.min(ranges[ri].end, end) - start });
+        rangeIndex.push(ri);
+      }
+      ri++;
+    }
+    if (kept) {
+      result.push(log);
+      outOffset += log.text.length;
+    } else {
+      hidden++;
+    }
+  }
+  return { logs: result, ranges: mapped, rangeIndex, hidden };
+}
+
+/** 只保留含匹配的行，并把匹配区间换算到过滤后文本的坐标 */
+export function filterMatchedLines(logs: LogEntry[], ranges: TextRange[]): { logs: LogEntry[]; ranges: TextRange[] } {
+  let ri = 0;
+  const hasMatch = (_line: LogEntry, start: number, end: number) => {
+    while (ri < ranges.length && ranges[ri].start < start) ri++;
+    return ri < ranges.length && ranges[ri].start < end;
+  };
+  const filtered = filterLines(logs, hasMatch, ranges);
+  return { logs: filtered.logs, ranges: filtered.ranges };
+}
@@ -0,0 +1,338 @@
+import { LogEntry, TextEncoding } from '../types';
+import { createDecoder } from './encoding';
+import { CompiledLineFilters, applyLineFilters } from './lineFilter';
+import { groupLogsByTimeout, startsNewGroup } from './logGroup';
+import { MAX_MATCHES, TextRange, findByteMatches, findMatches } from './search';
+
+/** 搜索所用的显示方式，与终端一致：groupTimeoutMs 为 null 表示不分组，lineFilters 为 null 表示不过滤 */
+export interface SearchView {
+  groupTimeoutMs: number | null;
+  lineFilters: CompiledLineFilters | null;
+}
+
+/**
+ * 搜索结果：display 为整个缓冲区按显示方式生成的条目，rawStarts / textStarts 为每条对应的
+ * 首个原始条目下标和在拼接文本中的起始偏移，ranges 为拼接文本坐标中的匹配区间
+ */
+export interface SearchResult {
+  display: LogEntry[];
+  rawStarts: number[];
+  textStarts: number[];
+  ranges: TextRange[];
+  truncated: boolean;
+  hiddenLines: number;
+}
+
+/** 重算起点：从原始条目 raw 处重新生成的显示条目与之前生成的完全一致，其余字段为此处的累计量 */
+interface Checkpoint {
+  raw: number;
+  display: number;
+  text: number;
+  bytes: number;
+  hidden: number;
+}
+
+// 增量查找时向前回退的长度，使跨越上次末尾的匹配（如分两包到达的关键词）也能找到
+const RESCAN_OVERLAP = 256;
+
+const isData = (log: LogEntry) => log.type === 'rx' || log.type === 'tx';
+
+/** next 之前是否为干净的重算起点：分组和按行切分都不会跨过这里 */
+function isRestartPoint(prev: LogEntry, next: LogEntry, view: SearchView): boolean {
+  if (!isData(prev) || !isData(next)) return true;
+  // 合并后的每组文本都以换行结尾，组边界同时也是行边界
+  if (view.groupTimeoutMs !== null) return startsNewGroup(prev, next, view.groupTimeoutMs);
+  if (!view.lineFilters) return true;
+  return prev.text.endsWith('\n') && prev.data[prev.data.length - 1] === 0x0a;
+}
+
+function buildDisplay(logs: LogEntry[], view: SearchView): { logs: LogEntry[]; hidden: number } {
+  const grouped = view.groupTimeoutMs !== null ? groupLogsByTimeout(logs, view.groupTimeoutMs) : logs;
+  return view.lineFilters ? applyLineFilters(grouped, view.lineFilters) : { logs: grouped, hidden: 0 };
+}
+
+/** 有序数组中最后一个 <= pos 的下标 */
+function lastAtOrBefore(starts: number[], pos: number): number {
+  let lo = 0;
+  let hi = starts.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (starts[mid] <= pos) lo = mid; else hi = mid - 1;
+  }
+  return lo;
+}
+
+/**
+ * 条目内每个字节所属字符在文本中的下标：逐字节流式解码，字节归入它参与解码出的字符。
+ * 字节数与文本长度相同（单字节编码、纯 ASCII）时一一对应
+ */
+function byteCharIndex(log: LogEntry, encoding: TextEncoding): (byte: number) => number {
+  const { data, text } = log;
+  const clamp = (i: number) => Math.min(i, Math.max(0, text.length - 1));
+  if (data.length === text.length) return clamp;
+  const index = new Int32Array(data.length);
+  const decoder = createDecoder(encoding);
+  let emitted = 0;
+  let pending = 0;
+  for (let i = 0; i < data.length; i++) {
+    const out = decoder.decode(data.subarray(i, i + 1), { stream: true });
+    if (out.length === 0) continue;
+    index.fill(emitted, pending, i);
+    index[i] = emitted + out.length - 1;
+    emitted += out.length;
+    pending = i + 1;
+  }
+  index.fill(emitted, pending);
+  return i => clamp(index[i]);
+}
+
+/**
+ * 整个缓冲区的增量搜索：缓存已生成的显示条目和匹配，新数据到达时只重新生成并查找
+ * 最后一个重算起点之后的部分；缓冲区淘汰头部块时只重算被截断的第一段。
+ * 查询、显示方式或编码变化，或日志被整体替换（清空、重新染色）时从头计算。
+ * 返回结果中的数组在下次 update 时会被原地修改
+ */
+export function createSearchCache() {
+  let key: { pattern: RegExp | Uint8Array; view: SearchView; encoding: TextEncoding } | null = null;
+  let raw: LogEntry[] = [];
+  let display: LogEntry[] = [];
+  let rawStarts: number[] = [];
+  let textStarts: number[] = [];
+  let byteStarts: number[] = [];
+  let textEnd = 0;
+  let byteEnd = 0;
+  let hidden = 0;
+  let ranges: TextRange[] = [];
+  let byteRanges: TextRange[] = []; // HEX 模式下与 ranges 一一对应的字节区间
+  let truncated = false;
+  let checkpoints: Checkpoint[] = [];
+  let result: SearchResult | null = null;
+
+  const reset = () => {
+    raw = [];
+    display = [];
+    rawStarts = [];
+    textStarts = [];
+    byteStarts = [];
+    textEnd = 0;
+    byteEnd = 0;
+    hidden = 0;
+    ranges = [];
+    byteRanges = [];
+    truncated = false;
+    checkpoints = [{ raw: 0, display: 0, text: 0, bytes: 0, hidden: 0 }];
+    result = null;
+  };
+
+  /** 追加由 logs[from..] 生成的显示条目 */
+  const append = (logs: LogEntry[], from: number, part: { logs: LogEntry[]; hidden: number }) => {
+    let ri = from;
+    for (const d of part.logs) {
+      // 行过滤切出的行 id 为「条目 id:行内偏移」
+      const id = d.id.split(':')[0];
+      while (ri < logs.length && logs[ri].id !== id) ri++;
+      display.push(d);
+      rawStarts.push(ri);
+      textStarts.push(textEnd);
+      byteStarts.push(byteEnd);
+      textEnd += d.text.length;
+      byteEnd += d.data.length;
+    }
+    hidden += part.hidden;
+  };
+
+  /**
+   * 查找起点位于 [start, stop) 且不越过 stop 的匹配（HEX 模式为字节坐标，否则为文本坐标），最多 limit 个。
+   * text 为文本坐标的区间，HEX 模式下 bytes 为对应的字节区间
+   */
+  const find = (start: number, stop: number, limit: number): { text: TextRange[]; bytes: TextRange[]; truncated: boolean } => {
+    const { pattern, encoding } = key!;
+    const text: TextRange[] = [];
+    const bytes: TextRange[] = [];
+    if (display.length === 0) return { text, bytes, truncated: false };
+    if (!(pattern instanceof Uint8Array)) {
+      const first = lastAtOrBefore(textStarts, start);
+      const last = stop >= textEnd ? display.length - 1 : lastAtOrBefore(textStarts, stop + RESCAN_OVERLAP);
+      let joined = '';
+      for (let i = first; i <= last; i++) joined += display[i].text;
+      const base = textStarts[first];
+      const found = findMatches(joined, pattern, start - base, limit);
+      for (const r of found.ranges) {
+        if (r.end + base > stop) break;
+        text.push({ start: r.start + base, end: r.end + base });
+      }
+      return { text, bytes, truncated: found.truncated && text.length === found.ranges.length };
+    }
+    const first = lastAtOrBefore(byteStarts, start);
+    const last = stop >= byteEnd ? display.length - 1 : lastAtOrBefore(byteStarts, stop + pattern.length);
+    const base = byteStarts[first];
+    const data = new Uint8Array((last + 1 < display.length ? byteStarts[last + 1] : byteEnd) - base);
+    for (let i = first; i <= last; i++) data.set(display[i].data, byteStarts[i] - base);
+    const found = findByteMatches(data, pattern, start - base, limit);
+    // 字节位置换算为所在字符的文本位置，逐字节解码只对含匹配的条目进行
+    const maps = new Map<number, (byte: number) => number>();
+    const toText = (pos: number) => {
+      const i = lastAtOrBefore(byteStarts, pos);
+      let map = maps.get(i);
+      if (!map) maps.set(i, map = byteCharIndex(display[i], encoding));
+      return textStarts[i] + map(pos - byteStarts[i]);
+    };
+    for (const r of found.ranges) {
+      if (r.end + base > stop) break;
+      bytes.push({ start: r.start + base, end: r.end + base });
+      text.push({ start: toText(r.start + base), end: toText(r.end + base - 1) + 1 });
+    }
+    return { text, bytes, truncated: found.truncated && text.length === found.ranges.length };
+  };
+
+  const push = (found: { text: TextRange[]; bytes: TextRange[] }) => {
+    found.text.forEach((r, i) => {
+      const prev = ranges[ranges.length - 1];
+      // 同一个多字节字符内的两处字节匹配合并为一个高亮区间
+      if (prev && r.start < prev.end) {
+        prev.end = Math.max(prev.end, r.end);
+        byteRanges[byteRanges.length - 1].end = found.bytes[i].end;
+        return;
+      }
+      ranges.push(r);
+      if (found.bytes.length > 0) byteRanges.push(found.bytes[i]);
+    });
+  };
+
+  /** 丢弃拼接位置 from（HEX 模式为字节坐标，否则为文本坐标）附近及之后的匹配，并从该处重新查找 */
+  const rescan = (from: number) => {
+    const { pattern } = key!;
+    const isBytes = pattern instanceof Uint8Array;
+    const own = isBytes ? byteRanges : ranges;
+    let start = Math.max(0, from - (isBytes ? pattern.length - 1 : RESCAN_OVERLAP));
+    let keep = own.length;
+    while (keep > 0 && own[keep - 1].end > start) keep--;
+    if (keep < own.length) start = Math.min(start, own[keep].start);
+    ranges.length = keep;
+    byteRanges.length = isBytes ? keep : 0;
+    const found = find(start, Infinity, MAX_MATCHES - keep);
+    push(found);
+    truncated = found.truncated;
+  };
+
+  /** 头部 evicted 条已被淘汰：重新生成到下一个重算起点为止的部分，其后的结果平移后保留。无法保留时返回 false */
+  const dropHead = (logs: LogEntry[], evicted: number): boolean => {
+    // 截断时从头查找，保证结果是当前缓冲区中的前 MAX_MATCHES 个
+    if (truncated) return false;
+    const k = checkpoints.findIndex(c => c.raw >= evicted);
+    if (k < 0) return false;
+    const cp = checkpoints[k];
+    const { pattern, view } = key!;
+    const isBytes = pattern instanceof Uint8Array;
+    const rest = {
+      display: display.slice(cp.display),
+      rawStarts: rawStarts.slice(cp.display),
+      textStarts: textStarts.slice(cp.display),
+      byteStarts: byteStarts.slice(cp.display),
+      ranges,
+      byteRanges,
+      text: textEnd - cp.text,
+      bytes: byteEnd - cp.bytes,
+      hidden: hidden - cp.hidden
+    };
+    display = [];
+    rawStarts = [];
+    textStarts = [];
+    byteStarts = [];
+    textEnd = 0;
+    byteEnd = 0;
+    hidden = 0;
+    append(logs, 0, buildDisplay(logs.slice(0, cp.raw - evicted), view));
+    const head: Checkpoint = { raw: 0, display: display.length, text: textEnd, bytes: byteEnd, hidden };
+    for (let i = 0; i < rest.display.length; i++) {
+      display.push(rest.display[i]);
+      rawStarts.push(rest.rawStarts[i] - evicted);
+      textStarts.push(rest.textStarts[i] - cp.text + head.text);
+      byteStarts.push(rest.byteStarts[i] - cp.bytes + head.bytes);
+    }
+    textEnd = head.text + rest.text;
+    byteEnd = head.bytes + rest.bytes;
+    hidden = head.hidden + rest.hidden;
+    // 保留离新头部足够远的旧匹配，之前的部分（含跨越新头部末尾的匹配）重新查找
+    const moveText = (r: TextRange) => ({ start: r.start - cp.text + head.text, end: r.end - cp.text + head.text });
+    const moveBytes = (r: TextRange) => ({ start: r.start - cp.bytes + head.bytes, end: r.end - cp.bytes + head.bytes });
+    const keepFrom = isBytes ? cp.bytes + pattern.length - 1 : cp.text + RESCAN_OVERLAP;
+    let firstKept = 0;
+    const own = isBytes ? rest.byteRanges : rest.ranges;
+    while (firstKept < own.length && own[firstKept].start < keepFrom) firstKept++;
+    const stop = firstKept < own.length ? (isBytes ? moveBytes : moveText)(own[firstKept]).start : Infinity;
+    ranges = [];
+    byteRanges = [];
+    const found = find(0, stop, MAX_MATCHES);
+    push(found);
+    for (let i = firstKept; i < rest.ranges.length; i++) {
+      ranges.push(moveText(rest.ranges[i]));
+      if (isBytes) byteRanges.push(moveBytes(rest.byteRanges[i]));
+    }
+    truncated = found.truncated;
+    checkpoints = [
+      { raw: 0, display: 0, text: 0, bytes: 0, hidden: 0 },
+      ...checkpoints.slice(k).map(c => ({
+        raw: c.raw - evicted,
+        display: c.display - cp.display + head.display,
+        text: c.text - cp.text + head.text,
+        bytes: c.bytes - cp.bytes + head.bytes,
+        hidden: c.hidden - cp.hidden + head.hidden
+      }))
+    ];
+    return true;
+  };
+
+  /** 从最后一个重算起点重新生成到末尾，并把其中最后一个重算起点之前的部分固定下来 */
+  const extend = (logs: LogEntry[]) => {
+    const tail = checkpoints[checkpoints.length - 1];
+    display.length = rawStarts.length = textStarts.length = byteStarts.length = tail.display;
+    textEnd = tail.text;
+    byteEnd = tail.bytes;
+    hidden = tail.hidden;
+    if (logs.length > tail.raw) {
+      let split = logs.length - 1;
+      while (split > tail.raw && !isRestartPoint(logs[split - 1], logs[split], key!.view)) split--;
+      if (split > tail.raw) {
+        append(logs, tail.raw, buildDisplay(logs.slice(tail.raw, split), key!.view));
+        checkpoints.push({ raw: split, display: display.length, text: textEnd, bytes: byteEnd, hidden });
+      }
+      append(logs, split, buildDisplay(logs.slice(split), key!.view));
+    }
+    rescan(key!.pattern instanceof Uint8Array ? tail.bytes : tail.text);
+  };
+
+  return {
+    /** 以当前全部日志更新搜索结果；日志只在末尾追加、头部淘汰时增量计算 */
+    update(logs: LogEntry[], pattern: RegExp | Uint8Array, view: SearchView, encoding: TextEncoding): SearchResult {
+      if (!key || key.pattern !== pattern || key.view !== view || key.encoding !== encoding) {
+        key = { pattern, view, encoding };
+        reset();
+      } else if (raw.length > 0) {
+        // 按对象相同定位上次的最后一条，得到头部被淘汰的条数
+        const last = raw[raw.length - 1];
+        let p = logs.length - 1;
+        while (p >= 0 && logs[p] !== last) p--;
+        const evicted = raw.length - 1 - p;
+        if (p < 0 || evicted < 0 || logs[0] !== raw[evicted]) {
+          reset();
+        } else if (evicted === 0 && logs.length === raw.length && result) {
+          raw = logs;
+          return result;
+        } else if (evicted > 0 && !dropHead(logs, evicted)) {
+          reset();
+        }
+      }
+      raw = logs;
+      extend(logs);
+      result = { display, rawStarts, textStarts, ranges, truncated, hiddenLines: hidden };
+      return result;
+    },
+
+    /** 关闭搜索时释放缓存 */
+    clear() {
+      key = null;
+      reset();
+    }
+  };
+}
@@ -0,0 +1,241 @@
+import { CommMode, LogEntry } from '../types';
+
+/** 会话元数据（sessions 表） */
+export interface SessionMeta {
+  id: string;
+  startedAt: number;
+  endedAt: number | null;   // null = 仍在记录（或页面崩溃后尚未修复）
+  lastWriteAt: number;
+  commMode: CommMode;
+  settings: string;         // 端口参数摘要，如 "115200 8N1" / WebSocket 地址
+  rxBytes: number;
+  txBytes: number;
+  entryCount: number;
+  storedBytes: number;      // 近似占用空间（数据 + 文本）
+}
+
+/** 清理策略：0 表示不限制 */
+export interface CleanupPolicy {
+  maxSessions: number;
+  maxAgeDays: number;
+  maxTotalMB: number;
+}
+
+interface StoredEntry {
+  t: number;
+  type: LogEntry['type'];
+  data: Uint8Array;
+  text: string;
+}
+
+interface StoredChunk {
+  sessionId: string;
+  seq: number;
+  entries: StoredEntry[];
+}
+
+const DB_NAME = 'serial-sessions';
+const DB_VERSION = 1;
+const CHUNK_BYTES = 10 * 1024;   // 与内存分块一致：攒够 10KB 写一次
+const FLUSH_INTERVAL_MS = 1000;  // 不足 10KB 时每秒写一次，崩溃时最多丢 1 秒数据
+// 记录中的会话每秒更新 lastWriteAt（无数据时也更新）；超过该时长未更新才视为页面已崩溃。
+// 后台标签页的定时器可能被节流到每分钟一次，因此留出数分钟的余量
+const STALE_AFTER_MS = 3 * 60 * 1000;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        db.createObjectStore('sessions', { keyPath: 'id' });
+        db.createObjectStore('chunks', { keyPath: ['sessionId', 'seq'] });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const request = <T>(req: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error ?? new Error('事务已中止'));
+});
+
+const chunkRange = (sessionId: string) => IDBKeyRange.bound([sessionId, 0], [sessionId, Infinity]);
+
+/** 全部会话，按开始时间倒序 */
+export async function listSessions(): Promise<SessionMeta[]> {
+  const db = await openDb();
+  const sessions = await request<SessionMeta[]>(db.transaction('sessions').objectStore('sessions').getAll());
+  return sessions.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+/** 读取会话的全部条目（按写入顺序） */
+export async function loadSessionEntries(sessionId: string): Promise<LogEntry[]> {
+  const db = await openDb();
+  const chunks = await request<StoredChunk[]>(db.transaction('chunks').objectStore('chunks').getAll(chunkRange(sessionId)));
+  const logs: LogEntry[] = [];
+  for (const chunk of chunks) {
+    for (const e of chunk.entries) {
+      logs.push({
+        id: Math.random().toString(36).substr(2, 9),
+        timestamp: new Date(e.t),
+        type: e.type,
+        data: e.data,
+        text: e.text,
+        byteCount: e.data.length
+      });
+    }
+  }
+  return logs;
+}
+
+export async function deleteSession(sessionId: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(['sessions', 'chunks'], 'readwrite');
+  tx.objectStore('sessions').delete(sessionId);
+  tx.objectStore('chunks').delete(chunkRange(sessionId));
+  await transactionDone(tx);
+}
+
+export async function clearSessions(exceptId?: string): Promise<void> {
+  const sessions = await listSessions();
+  for (const s of sessions) {
+    if (s.id !== exceptId) await deleteSession(s.id);
+  }
+}
+
+/** 未结束且最近仍有写入的会话（本页或其他标签页正在记录） */
+const isLive = (s: SessionMeta, now: number) => s.endedAt === null && now - s.lastWriteAt < STALE_AFTER_MS;
+
+/** 页面崩溃 / 刷新后遗留的未结束会话：以最后写入时间作为结束时间（其他标签页仍在记录的会话不处理） */
+export async function recoverInterruptedSessions(activeId?: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction('sessions', 'readwrite');
+  const store = tx.objectStore('sessions');
+  const sessions = await request<SessionMeta[]>(store.getAll());
+  const now = Date.now();
+  for (const s of sessions) {
+    if (s.endedAt === null && s.id !== activeId && !isLive(s, now)) store.put({ ...s, endedAt: s.lastWriteAt });
+  }
+  await transactionDone(tx);
+}
+
+/** 按策略删除旧会话（从最旧开始），正在记录的会话（包括其他标签页的）不删除；返回删除数量 */
+export async function applyCleanupPolicy(policy: CleanupPolicy, activeId?: string): Promise<number> {
+  const now = Date.now();
+  const sessions = (await listSessions()).filter(s => s.id !== activeId && !isLive(s, now)); // 新 → 旧
+  let total = sessions.reduce((s, m) => s + m.storedBytes, 0);
+  let deleted = 0;
+  for (let i = sessions.length - 1; i >= 0; i--) {
+    const s = sessions[i];
+    const tooMany = policy.maxSessions > 0 && i >= policy.maxSessions;
+    const tooOld = policy.maxAgeDays > 0 && now - s.startedAt > policy.maxAgeDays * 86400000;
+    const tooBig = policy.maxTotalMB > 0 && total > policy.maxTotalMB * 1024 * 1024;
+    if (!tooMany && !tooOld && !tooBig) continue;
+    await deleteSession(s.id);
+    total -= s.storedBytes;
+    deleted++;
+  }
+  return deleted;
+}
+
+/** 浏览器存储配额（不支持时返回 null） */
+export async function getStorageEstimate(): Promise<{ usage: number; quota: number } | null> {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+}
+
+/**
+ * 会话记录器：条目先在内存中攒批，满 10KB 或每秒写入 IndexedDB（分块 + 元数据同一事务）。
+ * 写入失败（如配额不足）时停止记录并回调 onError。
+ */
+export function createSessionRecorder(
+  info: { commMode: CommMode; settings: string },
+  onError: (err: Error) => void
+) {
+  const now = Date.now();
+  const meta: SessionMeta = {
+    id: `${now}-${Math.random().toString(36).substr(2, 6)}`,
+    startedAt: now,
+    endedAt: null,
+    lastWriteAt: now,
+    commMode: info.commMode,
+    settings: info.settings,
+    rxBytes: 0,
+    txBytes: 0,
+    entryCount: 0,
+    storedBytes: 0
+  };
+  let pending: StoredEntry[] = [];
+  let pendingBytes = 0;
+  let seq = 0;
+  let failed = false;
+  let writing: Promise<void> = Promise.resolve();
+
+  const flush = (): Promise<void> => {
+    if (failed) return writing;
+    const entries = pending;
+    pending = [];
+    pendingBytes = 0;
+    const snapshot = { ...meta, lastWriteAt: Date.now() };
+    const chunkSeq = entries.length > 0 ? seq++ : -1;
+    // 串行写入，保证分块顺序
+    writing = writing.then(async () => {
+      if (failed) return;
+      try {
+        const db = await openDb();
+        const tx = db.transaction(['sessions', 'chunks'], 'readwrite');
+        if (chunkSeq >= 0) tx.objectStore('chunks').put({ sessionId: meta.id, seq: chunkSeq, entries } as StoredChunk);
+        tx.objectStore('sessions').put(snapshot);
+        await transactionDone(tx);
+      } catch (err: any) {
+        failed = true;
+        onError(err instanceof Error ? err : new Error(String(err)));
+      }
+    });
+    return writing;
+  };
+
+  // 无新数据时也写入元数据，刷新 lastWriteAt 表明会话仍在记录
+  const timer = setInterval(flush, FLUSH_INTERVAL_MS);
+
+  const append = (log: LogEntry) => {
+    if (failed) return;
+    // 子视图只保存自身字节，避免结构化克隆整个底层 ArrayBuffer
+    const data = log.data.byteLength === log.data.buffer.byteLength ? log.data : log.data.slice();
+    pending.push({ t: log.timestamp.getTime(), type: log.type, data, text: log.text });
+    const size = log.data.length + log.text.length;
+    pendingBytes += size;
+    meta.entryCount++;
+    meta.storedBytes += size;
+    if (log.type === 'rx') meta.rxBytes += log.data.length;
+    if (log.type === 'tx') meta.txBytes += log.data.length;
+    if (pendingBytes >= CHUNK_BYTES) flush();
+  };
+
+  const finish = (): Promise<void> => {
+    clearInterval(timer);
+    meta.endedAt = Date.now();
+    return flush();
+  };
+
+  // 先写入元数据，使会话立即出现在列表中
+  flush();
+
+  return { id: meta.id, append, flush, finish };
+}
@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import { ACK, CAN, CPMEOF, CRC_REQ, EOT, NAK, SOH, STX, buildBlock, checksum8, crc16 } from './modem';
+import { createModemLink, createScriptedPeer } from './modemTestLink';
+import { XModemVariant, xmodemReceive, xmodemSend } from './xmodem';
+
+const OPTIONS = { timeoutMs: 100, retries: 3 };
+
+const sample = (length: number) => Uint8Array.from({ length }, (_, i) => (i * 7 + 3) & 0xFF);
+
+/** 按协议应答的 XModem 接收方：数据块与 EOT 均回 ACK；override 返回非 undefined 时替代默认应答 */
+const xmodemReceiver = (override?: (frame: Uint8Array) => number[] | undefined) =>
+  createScriptedPeer(frame => override?.(frame) ?? [ACK]);
+
+describe('xmodemSend', () => {
+  it('sends 128-byte blocks with an 8-bit checksum after the receiver NAKs', async () => {
+    const data = sample(200);
+    const peer = xmodemReceiver();
+    const sending = xmodemSend(peer.io, data, 'checksum', OPTIONS);
+    peer.push([NAK]);
+    await sending;
+
+    expect(peer.frames).toHaveLength(3);
+    const [first, second, eot] = peer.frames;
+    for (const [i, block] of [first, second].entries()) {
+      expect(block.length).toBe(132);
+      expect(block[0]).toBe(SOH);
+      expect(block[1]).toBe(i + 1);
+      expect(block[2]).toBe(~(i + 1) & 0xFF);
+      expect(block[131]).toBe(checksum8(block.subarray(3, 131)));
+    }
+    expect(first.subarray(3, 131)).toEqual(data.subarray(0, 128));
+    expect(second.subarray(3, 75)).toEqual(data.subarray(128));
+    expect(second.subarray(75, 131).every(b => b === CPMEOF)).toBe(true);
+    expect(eot).toEqual(new Uint8Array([EOT]));
+  });
+
+  it('uses CRC-16 when the receiver asks with C', async () => {
+    const peer = xmodemReceiver();
+    const sending = xmodemSend(peer.io, sample(100), 'crc', OPTIONS);
+    peer.push([CRC_REQ]);
+    await sending;
+
+    const block = peer.frames[0];
+    expect(block.length).toBe(133);
+    expect((block[131] << 8) | block[132]).toBe(crc16(block.subarray(3, 131)));
+  });
+
+  it('falls back to checksum mode when a CRC sender is started with NAK', async () => {
+    const peer = xmodemReceiver();
+    const logs: string[] = [];
+    const sending = xmodemSend(peer.io, sample(100), 'crc', { ...OPTIONS, onLog: msg => logs.push(msg) });
+    peer.push([NAK]);
+    await sending;
+
+    expect(peer.frames[0].length).toBe(132);
+    expect(logs).toContain('接收方请求校验和模式 (NAK)，回退为 XModem 校验和');
+  });
+
+  it('sends 1K blocks while more than 128 bytes remain', async () => {
+    const data = sample(1100);
+    const peer = xmodemReceiver();
+    const sending = xmodemSend(peer.io, data, '1k', OPTIONS);
+    peer.push([CRC_REQ]);
+    await sending;
+
+    const [first, second] = peer.frames;
+    expect(first[0]).toBe(STX);
+    expect(first.length).toBe(1029);
+    expect(first.subarray(3, 1027)).toEqual(data.subarray(0, 1024));
+    expect(second[0]).toBe(SOH);
+    expect(second[1]).toBe(2);
+  });
+
+  it('resends a NAKed block and repeats EOT until it is ACKed', async () => {
+    let blockNaks = 0;
+    let eotNaks = 0;
+    const peer = xmodemReceiver(frame => {
+      if (frame[0] === SOH && blockNaks++ === 0) return [NAK];
+      if (frame[0] === EOT && eotNaks++ === 0) return [NAK];
+      return undefined;
+    });
+    const sending = xmodemSend(peer.io, sample(100), 'crc', OPTIONS);
+    peer.push([CRC_REQ]);
+    await sending;
+
+    expect(peer.frames).toHaveLength(4);
+    expect(peer.frames[1]).toEqual(peer.frames[0]);
+    expect(peer.frames[2]).toEqual(new Uint8Array([EOT]));
+    expect(peer.frames[3]).toEqual(new Uint8Array([EOT]));
+  });
+
+  it('aborts when the receiver sends CAN CAN', async () => {
+    const peer = xmodemReceiver(() => [CAN, CAN]);
+    const sending = xmodemSend(peer.io, sample(100), 'crc', OPTIONS);
+    peer.push([CRC_REQ]);
+    await expect(sending).rejects.toThrow('接收方取消了传输');
+    expect(peer.frames[peer.frames.length - 1]).toEqual(new Uint8Array([CAN, CAN, CAN, CAN, CAN]));
+  });
+});
+
+describe('xmodemReceive', () => {
+  it('ACKs a duplicated block without writing it twice and NAKs a corrupted one', async () => {
+    const data = sample(256);
+    const block1 = buildBlock(1, data.subarray(0, 128), 128);
+    const block2 = buildBlock(2, data.subarray(128), 128);
+    const corrupted = block2.slice();
+    corrupted[10] ^= 0xFF;
+    // 接收方每次写出（'C' / ACK / NAK）后依次送出的内容
+    const script = [block1, block1, corrupted, block2, new Uint8Array([EOT])];
+    const peer = createScriptedPeer((_, index) => (script[index] ? Array.from(script[index]) : undefined));
+    const logs: string[] = [];
+
+    const received = await xmodemReceive(peer.io, 'crc', { ...OPTIONS, onLog: msg => logs.push(msg) });
+
+    expect(received).toEqual(data);
+    expect(peer.frames.map(f => f[0])).toEqual([CRC_REQ, ACK, ACK, NAK, ACK, ACK]);
+    expect(logs).toContain('数据块 #2 校验失败，第 1 次请求重发');
+  });
+
+  it('falls back to NAK and checksum blocks when the sender ignores C', async () => {
+    const data = sample(100);
+    const block = buildBlock(1, data, 128, undefined, false);
+    // 只支持校验和的发送方：不理会 'C'，收到 NAK 才开始发送
+    let started = false;
+    const peer = createScriptedPeer(frame => {
+      if (frame[0] === NAK && !started) {
+        started = true;
+        return Array.from(block);
+      }
+      return frame[0] === ACK && started ? [EOT] : undefined;
+    });
+    const logs: string[] = [];
+
+    const received = await xmodemReceive(peer.io, 'crc', { timeoutMs: 20, retries: 5, onLog: msg => logs.push(msg) });
+
+    expect(received).toEqual(data);
+    expect(peer.frames.map(f => f[0])).toEqual([CRC_REQ, CRC_REQ, CRC_REQ, NAK, ACK, ACK]);
+    expect(logs).toContain('发送方未响应 CRC 请求 (C)，改用 NAK 请求校验和模式');
+  });
+
+  it.each<XModemVariant>(['checksum', 'crc', '1k'])('receives data sent by xmodemSend (%s)', async (variant) => {
+    const data = sample(2000);
+    const { a, b } = createModemLink();
+    const sending = xmodemSend(a, data, variant, OPTIONS);
+    const received = await xmodemReceive(b, variant, OPTIONS);
+    await sending;
+
+    expect(received).toEqual(data);
+  });
+});
@@ -0,0 +1,125 @@
+import {
+  ModemIO, ModemSendOptions, ModemReceiveOptions, DEFAULT_TIMEOUT_MS, DEFAULT_RETRIES,
+  EOT, ACK, NAK, CRC_REQ,
+  buildBlock, sendBlock, sendCancel, waitForChar, readResponse, retryLogger,
+  receiveBlock, concatBytes, stripPadding
+} from './modem';
+
+/** XModem 变体：checksum = 原始校验和版，crc = XModem-CRC，1k = XModem-1K（CRC + 1024 字节块） */
+export type XModemVariant = 'checksum' | 'crc' | '1k';
+
+/**
+ * XModem 发送：等待接收方 NAK（校验和）或 'C'（CRC）→ 数据块从 #1 开始 → EOT。
+ * CRC 变体若收到 NAK 则按接收方要求回退到校验和模式。
+ */
+export async function xmodemSend(
+  io: ModemIO,
+  data: Uint8Array,
+  variant: XModemVariant,
+  options: ModemSendOptions = {}
+): Promise<void> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  const total = data.length;
+
+  try {
+    io.purge();
+    const start = await waitForChar(io, variant === 'checksum' ? [NAK] : [CRC_REQ, NAK], timeoutMs, retries);
+    const useCrc = start === CRC_REQ;
+    if (variant !== 'checksum' && !useCrc) {
+      options.onLog?.('接收方请求校验和模式 (NAK)，回退为 XModem 校验和');
+    } else {
+      options.onLog?.(`接收方已就绪 (${useCrc ? 'CRC' : '校验和'})，开始发送数据块`);
+    }
+
+    let seq = 1;
+    let sent = 0;
+    options.onProgress?.(0);
+    while (sent < total) {
+      const size = variant === '1k' && total - sent > 128 ? 1024 : 128;
+      const payload = data.subarray(sent, sent + size);
+      await sendBlock(io, buildBlock(seq, payload, size, undefined, useCrc), timeoutMs, retries, retryLogger(seq, options.onLog));
+      sent += payload.length;
+      seq = (seq + 1) & 0xFF;
+      options.onProgress?.(Math.round((sent / total) * 100));
+    }
+
+    // EOT：收到 ACK 即结束，NAK / 超时则重发
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      io.purge();
+      await io.write(new Uint8Array([EOT]));
+      const b = await readResponse(io, timeoutMs);
+      if (b === ACK) {
+        options.onProgress?.(100);
+        return;
+      }
+    }
+    throw new Error('EOT 未被确认');
+  } catch (err) {
+    await sendCancel(io);
+    throw err;
+  }
+}
+
+/** CRC / 1K 接收时连续发出多少次 'C' 无应答后改用 NAK（只支持校验和的发送方不响应 'C'） */
+const CRC_START_ATTEMPTS = 3;
+
+/**
+ * XModem 接收：发出 NAK（校验和）或 'C'（CRC / 1K）启动 → 逐块校验并 ACK → 收到 EOT 结束。
+ * CRC / 1K 连续 3 次 'C' 无应答时改发 NAK 并按校验和校验（兼容只支持校验和的老式 bootloader）。
+ * 重复块（发送方没收到 ACK）只确认不写入；返回的数据已去掉末尾 0x1A 填充。
+ */
+export async function xmodemReceive(
+  io: ModemIO,
+  variant: XModemVariant,
+  options: ModemReceiveOptions = {}
+): Promise<Uint8Array> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  let useCrc = variant !== 'checksum';
+  let startChar = useCrc ? CRC_REQ : NAK;
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  let expected = 1;
+  let errors = 0;
+  let started = false;
+
+  try {
+    io.purge();
+    await io.write(new Uint8Array([startChar]));
+    while (true) {
+      const blk = await receiveBlock(io, useCrc, timeoutMs);
+      if (blk.kind === 'block') {
+        started = true;
+        if (blk.seq === (expected & 0xFF)) {
+          chunks.push(blk.data);
+          received += blk.data.length;
+          expected++;
+          errors = 0;
+          options.onReceived?.(received);
+        } else if (blk.seq !== ((expected - 1) & 0xFF)) {
+          throw new Error(`数据块序号错乱：期望 #${expected & 0xFF}，收到 #${blk.seq}`);
+        }
+        await io.write(new Uint8Array([ACK]));
+        continue;
+      }
+      if (blk.kind === 'eot') {
+        await io.write(new Uint8Array([ACK]));
+        break;
+      }
+      if (++errors > retries) throw new Error(started ? `数据块 #${expected & 0xFF} 重试 ${retries} 次仍未收到` : '等待发送方超时');
+      if (started) options.onLog?.(`数据块 #${expected & 0xFF} ${blk.kind === 'bad' ? '校验失败' : '超时'}，第 ${errors} 次请求重发`);
+      if (!started && useCrc && errors >= CRC_START_ATTEMPTS) {
+        useCrc = false;
+        startChar = NAK;
+        options.onLog?.('发送方未响应 CRC 请求 (C)，改用 NAK 请求校验和模式');
+      }
+      io.purge();
+      await io.write(new Uint8Array([started ? NAK : startChar]));
+    }
+  } catch (err) {
+    await sendCancel(io);
+    throw err;
+  }
+  return stripPadding(concatBytes(chunks));
+}
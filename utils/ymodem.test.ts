@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import { ACK, CAN, CPMEOF, CRC_REQ, EOT, NAK, SOH, STX, crc16 } from './modem';
+import { createModemLink, createScriptedPeer } from './modemTestLink';
+import { ymodemReceive, ymodemSend } from './ymodem';
+
+const OPTIONS = { timeoutMs: 100, retries: 3 };
+
+const sample = (length: number) => Uint8Array.from({ length }, (_, i) => (i * 7 + 3) & 0xFF);
+
+/** 数据块的有效载荷（去掉块头与 CRC） */
+const blockBody = (frame: Uint8Array) => frame.subarray(3, 3 + (frame[0] === STX ? 1024 : 128));
+
+const expectValidCrc = (frame: Uint8Array) => {
+  const size = frame[0] === STX ? 1024 : 128;
+  expect(frame.length).toBe(3 + size + 2);
+  expect(frame[2]).toBe(~frame[1] & 0xFF);
+  expect((frame[3 + size] << 8) | frame[4 + size]).toBe(crc16(blockBody(frame)));
+};
+
+/**
+ * 按协议应答的 YModem 接收方：第 0 块回 ACK + 'C'，数据块回 ACK，第一次 EOT 回 NAK、第二次回 ACK + 'C'。
+ * override 返回非 undefined 时替代默认应答
+ */
+function ymodemReceiver(override?: (frame: Uint8Array) => number[] | undefined) {
+  let headerDone = false;
+  let eots = 0;
+  return createScriptedPeer((frame) => {
+    const custom = override?.(frame);
+    if (custom) return custom;
+    if (frame[0] === EOT) return eots++ === 0 ? [NAK] : [ACK, CRC_REQ];
+    if (frame[0] !== SOH && frame[0] !== STX) return undefined;
+    if (frame[1] === 0 && !headerDone) {
+      headerDone = true;
+      return [ACK, CRC_REQ];
+    }
+    return [ACK];
+  });
+}
+
+/** 启动发送并送出接收方的第一个 'C' */
+const startSend = (peer: ReturnType<typeof createScriptedPeer>, data: Uint8Array, options: object = {}) => {
+  const sending = ymodemSend(peer.io, { name: 'test.bin', data }, { ...OPTIONS, ...options });
+  peer.push([CRC_REQ]);
+  return sending;
+};
+
+describe('ymodemSend', () => {
+  it('sends the header block, 1K / 128-byte data blocks, the EOT handshake and the closing null block', async () => {
+    const data = sample(1100);
+    const peer = ymodemReceiver();
+    const progress: number[] = [];
+    await startSend(peer, data, { onProgress: (p: number) => progress.push(p) });
+
+    expect(peer.frames).toHaveLength(6);
+    const [header, first, second, eot1, eot2, last] = peer.frames;
+
+    // 第 0 块：文件名\0 + 十进制大小，其余补 0x00
+    expect(header[0]).toBe(SOH);
+    expect(header[1]).toBe(0);
+    expectValidCrc(header);
+    const info = new TextEncoder().encode('test.bin\x001100');
+    expect(blockBody(header).subarray(0, info.length)).toEqual(info);
+    expect(blockBody(header).subarray(info.length).every(b => b === 0)).toBe(true);
+
+    // 剩余超过 128 字节用 1K 块，最后不足 128 字节用 128 字节块并补 0x1A
+    expect(first[0]).toBe(STX);
+    expect(first[1]).toBe(1);
+    expectValidCrc(first);
+    expect(blockBody(first)).toEqual(data.subarray(0, 1024));
+    expect(second[0]).toBe(SOH);
+    expect(second[1]).toBe(2);
+    expectValidCrc(second);
+    expect(blockBody(second).subarray(0, 76)).toEqual(data.subarray(1024));
+    expect(blockBody(second).subarray(76).every(b => b === CPMEOF)).toBe(true);
+
+    // EOT 两次握手
+    expect(eot1).toEqual(new Uint8Array([EOT]));
+    expect(eot2).toEqual(new Uint8Array([EOT]));
+
+    // 空的第 0 块结束批量传输
+    expect(last[0]).toBe(SOH);
+    expect(last[1]).toBe(0);
+    expectValidCrc(last);
+    expect(blockBody(last).every(b => b === 0)).toBe(true);
+
+    expect(progress[progress.length - 1]).toBe(100);
+  });
+
+  it('resends a block the receiver answers with NAK', async () => {
+    let naked = false;
+    const peer = ymodemReceiver(frame => {
+      if (frame[0] === SOH && frame[1] === 1 && !naked) {
+        naked = true;
+        return [NAK];
+      }
+      return undefined;
+    });
+    const logs: string[] = [];
+    await startSend(peer, sample(100), { onLog: (msg: string) => logs.push(msg) });
+
+    const blocks = peer.frames.filter(f => f[0] === SOH && f[1] === 1);
+    expect(blocks).toHaveLength(2);
+    expect(blocks[1]).toEqual(blocks[0]);
+    expect(logs).toContain('数据块 #1 NAK，第 1 次重发');
+  });
+
+  it('gives up after the retry limit and cancels the transfer', async () => {
+    const peer = ymodemReceiver(frame => (frame[0] === SOH && frame[1] === 1 ? [NAK] : undefined));
+    await expect(startSend(peer, sample(100), { retries: 2 })).rejects.toThrow('数据块 #1 重试 2 次仍未确认');
+
+    expect(peer.frames.filter(f => f[0] === SOH && f[1] === 1)).toHaveLength(3);
+    expect(peer.frames[peer.frames.length - 1]).toEqual(new Uint8Array([CAN, CAN, CAN, CAN, CAN]));
+  });
+
+  it('aborts when the receiver sends CAN CAN', async () => {
+    const peer = ymodemReceiver(frame => (frame[0] === STX && frame[1] === 1 ? [CAN, CAN] : undefined));
+    await expect(startSend(peer, sample(2000))).rejects.toThrow('接收方取消了传输');
+
+    expect(peer.frames.filter(f => f[0] === STX)).toHaveLength(1);
+    expect(peer.frames[peer.frames.length - 1]).toEqual(new Uint8Array([CAN, CAN, CAN, CAN, CAN]));
+  });
+
+  it('accepts a receiver that ACKs the first EOT', async () => {
+    const peer = ymodemReceiver(frame => (frame[0] === EOT ? [ACK, CRC_REQ] : undefined));
+    await startSend(peer, sample(10));
+
+    expect(peer.frames.filter(f => f.length === 1 && f[0] === EOT)).toHaveLength(1);
+    expect(peer.frames[peer.frames.length - 1][1]).toBe(0);
+  });
+
+  it('fails when the receiver never asks for CRC mode', async () => {
+    const peer = createScriptedPeer(() => undefined);
+    await expect(ymodemSend(peer.io, { name: 'a', data: sample(10) }, { timeoutMs: 20, retries: 2 })).rejects.toThrow('等待接收方就绪超时');
+  });
+});
+
+describe('ymodemReceive', () => {
+  it('receives a file sent by ymodemSend and truncates it to the size in the header', async () => {
+    const data = sample(3000);
+    const { a, b } = createModemLink();
+    const sending = ymodemSend(a, { name: 'fw.bin', data }, OPTIONS);
+    const files = await ymodemReceive(b, OPTIONS);
+    await sending;
+
+    expect(files).toHaveLength(1);
+    expect(files[0].name).toBe('fw.bin');
+    expect(files[0].data).toEqual(data);
+  });
+});
@@ -0,0 +1,164 @@
+import {
+  ModemIO, ModemSendOptions, ModemReceiveOptions, DEFAULT_TIMEOUT_MS, DEFAULT_RETRIES,
+  EOT, ACK, NAK, CRC_REQ,
+  buildBlock, sendBlock, sendCancel, waitForChar, readResponse, retryLogger,
+  receiveBlock, concatBytes, stripPadding
+} from './modem';
+
+/** 组装 YModem 第 0 块：文件名\0 + 十进制大小，不足补 0x00；超出 128 字节时用 1K 块 */
+function buildHeaderBlock(name: string, size: number): Uint8Array {
+  const info = new TextEncoder().encode(`${name}\0${size}`);
+  return buildBlock(0, info, info.length + 1 > 128 ? 1024 : 128, 0x00);
+}
+
+/**
+ * YModem-1K 发送：握手 'C' → 第 0 块（文件信息）→ 1K/128 字节数据块 → EOT 两次握手 → 空的第 0 块结束会话。
+ * 失败（超时 / 重试耗尽 / 对方取消）时抛出 Error，并尽量向对端发送 CAN 终止。
+ */
+export async function ymodemSend(
+  io: ModemIO,
+  file: { name: string; data: Uint8Array },
+  options: ModemSendOptions = {}
+): Promise<void> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  const { data } = file;
+  const total = data.length;
+
+  try {
+    io.purge();
+    await waitForChar(io, [CRC_REQ], timeoutMs, retries);
+    options.onLog?.('接收方已就绪 (CRC)，发送文件信息块');
+
+    // 第 0 块：文件名 + 大小
+    await sendBlock(io, buildHeaderBlock(file.name, total), timeoutMs, retries, retryLogger(0, options.onLog));
+    await waitForChar(io, [CRC_REQ], timeoutMs, retries);
+
+    // 数据块：剩余超过 128 字节用 1K 块，否则用 128 字节块减少填充
+    let seq = 1;
+    let sent = 0;
+    options.onProgress?.(0);
+    while (sent < total) {
+      const remaining = total - sent;
+      const size = remaining > 128 ? 1024 : 128;
+      const payload = data.subarray(sent, sent + size);
+      await sendBlock(io, buildBlock(seq, payload, size), timeoutMs, retries, retryLogger(seq, options.onLog));
+      sent += payload.length;
+      seq = (seq + 1) & 0xFF;
+      options.onProgress?.(Math.round((sent / total) * 100));
+    }
+
+    // EOT 两次握手：第一次通常回 NAK，再发 EOT 回 ACK（也兼容直接回 ACK 的接收方）
+    let eotAcked = false;
+    for (let attempt = 0; attempt <= retries && !eotAcked; attempt++) {
+      io.purge();
+      await io.write(new Uint8Array([EOT]));
+      const b = await readResponse(io, timeoutMs);
+      if (b === ACK) eotAcked = true;
+    }
+    if (!eotAcked) throw new Error('EOT 未被确认');
+
+    // 空的第 0 块表示批量传输结束
+    await waitForChar(io, [CRC_REQ], timeoutMs, retries);
+    await sendBlock(io, buildBlock(0, new Uint8Array(0), 128, 0x00), timeoutMs, retries);
+    options.onProgress?.(100);
+  } catch (err) {
+    await sendCancel(io);
+    throw err;
+  }
+}
+
+/** 解析第 0 块：文件名\0 + 大小（十进制，后面可能跟空格分隔的修改时间等字段）；大小缺失返回 -1 */
+function parseHeaderBlock(data: Uint8Array): { name: string; size: number } {
+  const nameEnd = data.indexOf(0);
+  const name = new TextDecoder().decode(data.subarray(0, nameEnd < 0 ? data.length : nameEnd));
+  if (nameEnd < 0) return { name, size: -1 };
+  const infoEnd = data.indexOf(0, nameEnd + 1);
+  const info = new TextDecoder().decode(data.subarray(nameEnd + 1, infoEnd < 0 ? data.length : infoEnd));
+  const size = parseInt(info.trim().split(' ')[0], 10);
+  return { name, size: isNaN(size) ? -1 : size };
+}
+
+/** 请求并读取第 0 块：反复发送 'C' 直到收到序号 0 的有效块 */
+async function receiveHeader(io: ModemIO, timeoutMs: number, retries: number): Promise<Uint8Array> {
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    await io.write(new Uint8Array([CRC_REQ]));
+    const blk = await receiveBlock(io, true, timeoutMs);
+    if (blk.kind === 'block' && blk.seq === 0) return blk.data;
+    if (blk.kind === 'eot') await io.write(new Uint8Array([ACK])); // 上一个文件残留的 EOT
+    if (blk.kind === 'bad') io.purge();
+  }
+  throw new Error('等待发送方超时');
+}
+
+/**
+ * YModem 接收（支持批量）：'C' 请求第 0 块 → ACK + 'C' → 数据块 → EOT 回 NAK、再次 EOT 回 ACK → 继续请求下一个第 0 块，
+ * 收到空文件名的第 0 块时结束。数据按第 0 块中的文件大小截断。
+ */
+export async function ymodemReceive(
+  io: ModemIO,
+  options: ModemReceiveOptions = {}
+): Promise<{ name: string; data: Uint8Array }[]> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  const files: { name: string; data: Uint8Array }[] = [];
+
+  try {
+    io.purge();
+    while (true) {
+      const header = parseHeaderBlock(await receiveHeader(io, timeoutMs, retries));
+      await io.write(new Uint8Array([ACK]));
+      if (!header.name) break; // 空的第 0 块：批量传输结束
+      options.onLog?.(`接收文件: ${header.name}${header.size >= 0 ? ` (${header.size} 字节)` : ''}`);
+      options.onProgress?.(0);
+      await io.write(new Uint8Array([CRC_REQ]));
+
+      const chunks: Uint8Array[] = [];
+      let received = 0;
+      let expected = 1;
+      let errors = 0;
+      let eotCount = 0;
+      while (true) {
+        const blk = await receiveBlock(io, true, timeoutMs);
+        if (blk.kind === 'block') {
+          if (blk.seq === (expected & 0xFF)) {
+            chunks.push(blk.data);
+            received += blk.data.length;
+            expected++;
+            errors = 0;
+            options.onReceived?.(Math.min(received, header.size >= 0 ? header.size : received));
+            if (header.size > 0) options.onProgress?.(Math.min(100, Math.round((received / header.size) * 100)));
+            await io.write(new Uint8Array([ACK]));
+          } else if (blk.seq === ((expected - 1) & 0xFF)) {
+            // 重复块（发送方没收到 ACK）：只确认不写入；重复的第 0 块需再次请求数据
+            await io.write(new Uint8Array(expected === 1 ? [ACK, CRC_REQ] : [ACK]));
+          } else {
+            throw new Error(`数据块序号错乱：期望 #${expected & 0xFF}，收到 #${blk.seq}`);
+          }
+          continue;
+        }
+        if (blk.kind === 'eot') {
+          // EOT 两次握手：第一次回 NAK 确认不是噪声，第二次回 ACK
+          if (eotCount++ === 0) {
+            await io.write(new Uint8Array([NAK]));
+            continue;
+          }
+          await io.write(new Uint8Array([ACK]));
+          break;
+        }
+        if (++errors > retries) throw new Error(`数据块 #${expected & 0xFF} 重试 ${retries} 次仍未收到`);
+        options.onLog?.(`数据块 #${expected & 0xFF} ${blk.kind === 'bad' ? '校验失败' : '超时'}，第 ${errors} 次请求重发`);
+        io.purge();
+        await io.write(new Uint8Array([NAK]));
+      }
+
+      const data = concatBytes(chunks);
+      files.push({ name: header.name, data: header.size >= 0 ? data.subarray(0, header.size) : stripPadding(data) });
+      options.onProgress?.(100);
+    }
+  } catch (err) {
+    await sendCancel(io);
+    throw err;
+  }
+  return files;
+}
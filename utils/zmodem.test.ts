@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { createModemLink } from './modemTestLink';
+import { createZModemDetector, zmodemReceive, zmodemSend } from './zmodem';
+
+const OPTIONS = { timeoutMs: 200, retries: 3 };
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+/** 含全部需要 ZDLE 转义的字节（ZDLE、DLE、XON、XOFF、0x7F、0xFF 及高位形式） */
+const escapeHeavy = (length: number) => {
+  const special = [0x18, 0x10, 0x11, 0x13, 0x7F, 0xFF, 0x90, 0x91, 0x93, 0x98];
+  return Uint8Array.from({ length }, (_, i) => (i % 3 === 0 ? special[i % special.length] : (i * 13) & 0xFF));
+};
+
+/** 全部为可打印字母，编码后与原始字节一一对应，便于定点制造误码 */
+const letters = (length: number) => Uint8Array.from({ length }, (_, i) => 0x41 + (i % 26));
+
+describe('zmodem send / receive', () => {
+  it('transfers a file with escaped bytes over CRC32', async () => {
+    const data = escapeHeavy(20000);
+    const { a, b } = createModemLink();
+    const logs: string[] = [];
+    const sending = zmodemSend(a, { name: 'fw.bin', data }, { ...OPTIONS, onLog: msg => logs.push(msg) });
+    const files = await zmodemReceive(b, OPTIONS);
+    await sending;
+
+    expect(files).toHaveLength(1);
+    expect(files[0].name).toBe('fw.bin');
+    expect(files[0].data).toEqual(data);
+    expect(logs).toContain('接收方已就绪 (ZModem CRC32)，发送文件信息');
+  });
+
+  it('transfers an empty file', async () => {
+    const { a, b } = createModemLink();
+    const sending = zmodemSend(a, { name: 'empty.txt', data: new Uint8Array(0) }, OPTIONS);
+    const files = await zmodemReceive(b, OPTIONS);
+    await sending;
+
+    expect(files).toEqual([{ name: 'empty.txt', data: new Uint8Array(0) }]);
+  });
+
+  it('asks for a resend with ZRPOS when a data subpacket is corrupted', async () => {
+    const data = letters(3000);
+    let corrupted = false;
+    const { a, b } = createModemLink((bytes, from) => {
+      // 只改写发送方的第一个数据子包
+      if (from === 'a' && !corrupted && bytes.length > 1000) {
+        corrupted = true;
+        bytes[10] ^= 0x01;
+      }
+      return bytes;
+    });
+    const sendLogs: string[] = [];
+    const receiveLogs: string[] = [];
+    const sending = zmodemSend(a, { name: 'a.txt', data }, { ...OPTIONS, onLog: msg => sendLogs.push(msg) });
+    const files = await zmodemReceive(b, { ...OPTIONS, onLog: msg => receiveLogs.push(msg) });
+    await sending;
+
+    expect(corrupted).toBe(true);
+    expect(files[0].data).toEqual(data);
+    expect(receiveLogs).toContain('位置 0 数据校验失败，第 1 次请求重发 (ZRPOS)');
+    expect(sendLogs).toContain('接收方请求从 0 字节处重发 (ZRPOS)，第 1 次');
+  });
+
+  it('resumes from the partial data of an interrupted transfer', async () => {
+    const data = letters(3000);
+    const partials = new Map([['a.txt|3000', data.slice(0, 1500)]]);
+    const { a, b } = createModemLink();
+    const logs: string[] = [];
+    const sending = zmodemSend(a, { name: 'a.txt', data }, { ...OPTIONS, onLog: msg => logs.push(msg) });
+    const files = await zmodemReceive(b, { ...OPTIONS, partials });
+    await sending;
+
+    expect(files[0].data).toEqual(data);
+    expect(logs).toContain('接收方请求从 1500 字节处续传');
+    expect(partials.size).toBe(0);
+  });
+
+  it('keeps the received data for resuming when the link drops', async () => {
+    const data = letters(3000);
+    let subpackets = 0;
+    // 发送方的第一个数据子包之后链路中断
+    const { a, b } = createModemLink((bytes, from) =>
+      from === 'a' && (subpackets > 0 || (bytes.length > 1000 && subpackets++ > 0)) ? new Uint8Array(0) : bytes);
+    const partials = new Map<string, Uint8Array>();
+    const options = { timeoutMs: 50, retries: 2 };
+    const [sent, received] = await Promise.allSettled([
+      zmodemSend(a, { name: 'a.txt', data }, options),
+      zmodemReceive(b, { ...options, partials })
+    ]);
+
+    expect(sent.status).toBe('rejected');
+    expect(received.status).toBe('rejected');
+    expect(partials.get('a.txt|3000')).toEqual(data.subarray(0, 1024));
+  });
+});
+
+describe('createZModemDetector', () => {
+  it('detects ZRQINIT from sz as a receive request', () => {
+    const detect = createZModemDetector();
+    expect(detect(encode('$ sz fw.bin\r\n'))).toBeNull();
+    expect(detect(encode('rz\r**\x18B00000000000000\r\n'))).toBe('receive');
+  });
+
+  it('detects ZRINIT from rz as a send request', () => {
+    const detect = createZModemDetector();
+    expect(detect(encode('**\x18B0100000023be50\r\n'))).toBe('send');
+  });
+
+  it('recognizes a header split across packets', () => {
+    const detect = createZModemDetector();
+    expect(detect(encode('***'))).toBeNull();
+    expect(detect(encode('\x18B'))).toBeNull();
+    expect(detect(encode('0'))).toBeNull();
+    expect(detect(encode('1'))).toBe('send');
+  });
+
+  it('ignores text that only resembles a header', () => {
+    const detect = createZModemDetector();
+    expect(detect(encode('** B00 **\x18A00 **\x18B02'))).toBeNull();
+  });
+});
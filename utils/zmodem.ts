@@ -0,0 +1,488 @@
+import {
+  ModemIO, ModemSendOptions, ModemReceiveOptions, DEFAULT_TIMEOUT_MS, DEFAULT_RETRIES,
+  CAN, crc16, crc32, concatBytes, sendCancel
+} from './modem';
+
+/** ZModem 帧定界字符 */
+const ZPAD = 0x2A;  // '*'
+const ZDLE = CAN;   // 0x18，转义前缀
+const ZBIN = 0x41;  // 'A'：二进制头（CRC16）
+const ZHEX = 0x42;  // 'B'：十六进制头（CRC16）
+const ZBIN32 = 0x43; // 'C'：二进制头（CRC32）
+const XON = 0x11;
+const XOFF = 0x13;
+
+/** 帧类型 */
+const ZRQINIT = 0;
+const ZRINIT = 1;
+const ZSINIT = 2;
+const ZACK = 3;
+const ZFILE = 4;
+const ZSKIP = 5;
+const ZNAK = 6;
+const ZABORT = 7;
+const ZFIN = 8;
+const ZRPOS = 9;
+const ZDATA = 10;
+const ZEOF = 11;
+const ZFERR = 12;
+const ZCHALLENGE = 14;
+const ZCAN = 16;
+
+/** 数据子包结束符（ZDLE 之后） */
+const ZCRCE = 0x68; // 'h'：帧结束，后跟帧头
+const ZCRCG = 0x69; // 'i'：帧继续，无需应答
+const ZCRCQ = 0x6A; // 'j'：帧继续，需 ZACK
+const ZCRCW = 0x6B; // 'k'：帧结束，需 ZACK
+const ZRUB0 = 0x6C; // 'l' → 0x7F
+const ZRUB1 = 0x6D; // 'm' → 0xFF
+const GOTOR = 0x100; // readEscaped 返回值标记：子包结束符
+
+/** ZRINIT 能力标志（ZF0） */
+const CANFDX = 0x01;
+const CANOVIO = 0x02;
+const CANFC32 = 0x20;
+
+const SUBPACKET_SIZE = 1024;
+const WINDOW_PACKETS = 8;       // 每 8 个子包要求一次 ZACK，便于及时响应 ZRPOS
+const MAX_SUBPACKET = 8192;
+const MAX_GARBAGE = 16 * 1024;  // 查找帧头时最多跳过的杂散字节
+
+interface ZHeader {
+  type: number;
+  data: Uint8Array;  // ZP0..ZP3（ZF3..ZF0）
+  crc32: boolean;    // 二进制 32 位头：随后的数据子包也使用 CRC32
+}
+
+const posBytes = (pos: number) => new Uint8Array([pos & 0xFF, (pos >>> 8) & 0xFF, (pos >>> 16) & 0xFF, (pos >>> 24) & 0xFF]);
+const headerPos = (data: Uint8Array) => (data[0] | (data[1] << 8) | (data[2] << 16) | (data[3] << 24)) >>> 0;
+
+/** ZDLE 转义：ZDLE、DLE、XON、XOFF 及其高位形式 */
+function escapeBytes(data: Uint8Array, out: number[]): void {
+  for (const b of data) {
+    switch (b) {
+      case ZDLE: case 0x10: case 0x90: case XON: case 0x91: case XOFF: case 0x93:
+        out.push(ZDLE, b ^ 0x40);
+        break;
+      default:
+        out.push(b);
+    }
+  }
+}
+
+/** 十六进制帧头：** ZDLE B + type/数据/CRC16 的十六进制 + CR LF (+XON) */
+function hexHeader(type: number, data: Uint8Array = new Uint8Array(4)): Uint8Array {
+  const raw = new Uint8Array([type, ...data]);
+  const crc = crc16(raw);
+  const hex = [...raw, crc >> 8, crc & 0xFF].map(b => b.toString(16).padStart(2, '0')).join('');
+  const out = [ZPAD, ZPAD, ZDLE, ZHEX, ...Array.from(hex, c => c.charCodeAt(0)), 0x0D, 0x8A];
+  if (type !== ZFIN && type !== ZACK) out.push(XON);
+  return new Uint8Array(out);
+}
+
+/** 二进制帧头（CRC16 或 CRC32） */
+function binHeader(type: number, data: Uint8Array, use32: boolean): Uint8Array {
+  const raw = new Uint8Array([type, ...data]);
+  const out: number[] = [ZPAD, ZDLE, use32 ? ZBIN32 : ZBIN];
+  escapeBytes(raw, out);
+  if (use32) {
+    const crc = crc32(raw);
+    escapeBytes(new Uint8Array([crc & 0xFF, (crc >>> 8) & 0xFF, (crc >>> 16) & 0xFF, crc >>> 24]), out);
+  } else {
+    const crc = crc16(raw);
+    escapeBytes(new Uint8Array([crc >> 8, crc & 0xFF]), out);
+  }
+  return new Uint8Array(out);
+}
+
+/** 数据子包：转义数据 + ZDLE + 结束符 + 转义 CRC（覆盖数据与结束符） */
+function subpacket(data: Uint8Array, end: number, use32: boolean): Uint8Array {
+  const out: number[] = [];
+  escapeBytes(data, out);
+  out.push(ZDLE, end);
+  const withEnd = new Uint8Array(data.length + 1);
+  withEnd.set(data);
+  withEnd[data.length] = end;
+  if (use32) {
+    const crc = crc32(withEnd);
+    escapeBytes(new Uint8Array([crc & 0xFF, (crc >>> 8) & 0xFF, (crc >>> 16) & 0xFF, crc >>> 24]), out);
+  } else {
+    const crc = crc16(withEnd);
+    escapeBytes(new Uint8Array([crc >> 8, crc & 0xFF]), out);
+  }
+  return new Uint8Array(out);
+}
+
+/** 读取一个原始字节，跳过 XON/XOFF 流控字符；超时返回 null */
+async function readRaw(io: ModemIO, timeoutMs: number): Promise<number | null> {
+  while (true) {
+    const b = await io.read(timeoutMs);
+    if (b === null) return null;
+    if ((b & 0x7F) === XON || (b & 0x7F) === XOFF) continue;
+    return b;
+  }
+}
+
+/** 读取一个反转义后的字节；子包结束符以 GOTOR 标记返回；连续 5 个 CAN 视为对端取消 */
+async function readEscaped(io: ModemIO, timeoutMs: number): Promise<number | null> {
+  let c = await readRaw(io, timeoutMs);
+  if (c !== ZDLE) return c;
+  let cans = 1;
+  while (true) {
+    c = await readRaw(io, timeoutMs);
+    if (c === null) return null;
+    if (c !== ZDLE) break;
+    if (++cans >= 5) throw new Error('对端取消了传输');
+  }
+  if (c >= ZCRCE && c <= ZCRCW) return c | GOTOR;
+  if (c === ZRUB0) return 0x7F;
+  if (c === ZRUB1) return 0xFF;
+  if ((c & 0x60) === 0x40) return c ^ 0x40;
+  return -1; // 非法转义
+}
+
+async function readHexByte(io: ModemIO, timeoutMs: number): Promise<number> {
+  const hi = await readRaw(io, timeoutMs);
+  const lo = await readRaw(io, timeoutMs);
+  if (hi === null || lo === null) return -1;
+  const v = parseInt(String.fromCharCode(hi & 0x7F, lo & 0x7F), 16);
+  return isNaN(v) ? -1 : v;
+}
+
+/** 查找并读取下一个帧头：跳过杂散字节（含上一帧残留的 CR LF）；超时或校验失败返回 null */
+async function readHeader(io: ModemIO, timeoutMs: number): Promise<ZHeader | null> {
+  let garbage = 0;
+  let pads = 0;
+  let cans = 0;
+  while (true) {
+    const c = await readRaw(io, timeoutMs);
+    if (c === null) return null;
+    if (c === ZPAD) {
+      pads++;
+      continue;
+    }
+    if (c === ZDLE && pads > 0) break;
+    // 非帧头位置的连续 CAN：对端取消
+    cans = c === CAN ? cans + 1 : 0;
+    if (cans >= 5) throw new Error('对端取消了传输');
+    pads = 0;
+    if (++garbage > MAX_GARBAGE) return null;
+  }
+
+  const format = await readRaw(io, timeoutMs);
+  const raw = new Uint8Array(5);
+  if (format === ZHEX) {
+    for (let i = 0; i < 5; i++) {
+      const v = await readHexByte(io, timeoutMs);
+      if (v < 0) return null;
+      raw[i] = v;
+    }
+    const hi = await readHexByte(io, timeoutMs);
+    const lo = await readHexByte(io, timeoutMs);
+    if (hi < 0 || lo < 0 || crc16(raw) !== ((hi << 8) | lo)) return null;
+    return { type: raw[0], data: raw.slice(1), crc32: false };
+  }
+  if (format === ZBIN || format === ZBIN32) {
+    const use32 = format === ZBIN32;
+    const bytes = new Uint8Array(5 + (use32 ? 4 : 2));
+    for (let i = 0; i < bytes.length; i++) {
+      const v = await readEscaped(io, timeoutMs);
+      if (v === null || v < 0 || v & GOTOR) return null;
+      bytes[i] = v;
+    }
+    raw.set(bytes.subarray(0, 5));
+    const valid = use32
+      ? crc32(raw) === ((bytes[5] | (bytes[6] << 8) | (bytes[7] << 16) | (bytes[8] << 24)) >>> 0)
+      : crc16(raw) === ((bytes[5] << 8) | bytes[6]);
+    return valid ? { type: raw[0], data: raw.slice(1), crc32: use32 } : null;
+  }
+  return null;
+}
+
+/** 读取一个数据子包；校验失败、超长或超时返回 null */
+async function readSubpacket(io: ModemIO, use32: boolean, timeoutMs: number): Promise<{ data: Uint8Array; end: number } | null> {
+  const buf = new Uint8Array(MAX_SUBPACKET + 1);
+  let len = 0;
+  while (true) {
+    const v = await readEscaped(io, timeoutMs);
+    if (v === null || v < 0) return null;
+    if (v & GOTOR) {
+      const end = v & 0xFF;
+      buf[len] = end;
+      const crcBytes = new Uint8Array(use32 ? 4 : 2);
+      for (let i = 0; i < crcBytes.length; i++) {
+        const b = await readEscaped(io, timeoutMs);
+        if (b === null || b < 0 || b & GOTOR) return null;
+        crcBytes[i] = b;
+      }
+      const withEnd = buf.subarray(0, len + 1);
+      const valid = use32
+        ? crc32(withEnd) === ((crcBytes[0] | (crcBytes[1] << 8) | (crcBytes[2] << 16) | (crcBytes[3] << 24)) >>> 0)
+        : crc16(withEnd) === ((crcBytes[0] << 8) | crcBytes[1]);
+      return valid ? { data: buf.slice(0, len), end } : null;
+    }
+    if (len >= MAX_SUBPACKET) return null;
+    buf[len++] = v;
+  }
+}
+
+/** 解析 ZFILE 子包：文件名\0 + 大小（十进制，后面可能跟修改时间等字段） */
+function parseFileInfo(data: Uint8Array): { name: string; size: number } {
+  const nameEnd = data.indexOf(0);
+  const name = new TextDecoder().decode(data.subarray(0, nameEnd < 0 ? data.length : nameEnd));
+  const infoEnd = nameEnd < 0 ? -1 : data.indexOf(0, nameEnd + 1);
+  const info = nameEnd < 0 ? '' : new TextDecoder().decode(data.subarray(nameEnd + 1, infoEnd < 0 ? data.length : infoEnd));
+  const size = parseInt(info.trim().split(' ')[0], 10);
+  return { name, size: isNaN(size) ? -1 : size };
+}
+
+/** ZModem 结束时对端常多发的 "OO"、CR LF 等残留字节，在短时间内读掉，避免落入终端 */
+async function drainTrailer(io: ModemIO): Promise<void> {
+  while ((await io.read(200)) !== null) { /* 丢弃 */ }
+}
+
+/** 向对端发送 ZModem 取消序列 */
+async function zmodemCancel(io: ModemIO): Promise<void> {
+  await sendCancel(io);
+  try {
+    await io.write(new Uint8Array([CAN, CAN, CAN, 0x08, 0x08, 0x08, 0x08, 0x08, 0x08, 0x08, 0x08, 0x08, 0x08]));
+  } catch {
+    // 链路已断开时忽略
+  }
+}
+
+export interface ZModemReceiveOptions extends ModemReceiveOptions {
+  /** 断点续传缓存：键为 "文件名|大小"，中断时保存已收数据，同名同大小文件再次传输时从断点继续 */
+  partials?: Map<string, Uint8Array>;
+}
+
+/**
+ * ZModem 接收（对应设备端 sz）：发送 ZRINIT → ZFILE 回 ZRPOS（有断点时从断点开始）→ ZDATA 子包流 →
+ * ZEOF 后再次 ZRINIT 等待下一个文件 → ZFIN 结束。子包校验失败时回 ZRPOS 让发送方从最后正确位置重发。
+ */
+export async function zmodemReceive(
+  io: ModemIO,
+  options: ZModemReceiveOptions = {}
+): Promise<{ name: string; data: Uint8Array }[]> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  const files: { name: string; data: Uint8Array }[] = [];
+  const zrinit = hexHeader(ZRINIT, new Uint8Array([0, 0, 0, CANFDX | CANOVIO | CANFC32]));
+  let current: { name: string; size: number; chunks: Uint8Array[]; received: number } | null = null;
+  let errors = 0;
+
+  const keyOf = (f: { name: string; size: number }) => `${f.name}|${f.size}`;
+
+  try {
+    await io.write(zrinit);
+    while (true) {
+      const hdr = await readHeader(io, timeoutMs);
+      if (!hdr) {
+        if (++errors > retries) throw new Error(current ? `接收 ${current.name} 超时` : '等待发送方超时');
+        await io.write(current ? hexHeader(ZRPOS, posBytes(current.received)) : zrinit);
+        continue;
+      }
+
+      switch (hdr.type) {
+        case ZRQINIT:
+          await io.write(zrinit);
+          break;
+        case ZSINIT:
+          await readSubpacket(io, hdr.crc32, timeoutMs); // Attn 序列，不使用
+          await io.write(hexHeader(ZACK));
+          break;
+        case ZFILE: {
+          const sub = await readSubpacket(io, hdr.crc32, timeoutMs);
+          if (!sub) {
+            await io.write(hexHeader(ZNAK));
+            break;
+          }
+          const info = parseFileInfo(sub.data);
+          if (current && keyOf(current) === keyOf(info)) {
+            // 发送方重发的 ZFILE（没收到 ZRPOS）：保持当前进度
+            await io.write(hexHeader(ZRPOS, posBytes(current.received)));
+            break;
+          }
+          const partial = options.partials?.get(keyOf(info));
+          current = { ...info, chunks: partial ? [partial] : [], received: partial?.length ?? 0 };
+          options.onLog?.(`接收文件: ${info.name}${info.size >= 0 ? ` (${info.size} 字节)` : ''}`);
+          if (partial) options.onLog?.(`断点续传: 从 ${partial.length} 字节处继续`);
+          options.onProgress?.(info.size > 0 ? Math.round((current.received / info.size) * 100) : 0);
+          await io.write(hexHeader(ZRPOS, posBytes(current.received)));
+          break;
+        }
+        case ZDATA: {
+          if (!current) {
+            await io.write(zrinit);
+            break;
+          }
+          if (headerPos(hdr.data) !== current.received) {
+            await io.write(hexHeader(ZRPOS, posBytes(current.received)));
+            break;
+          }
+          while (true) {
+            const sub = await readSubpacket(io, hdr.crc32, timeoutMs);
+            if (!sub) {
+              if (++errors > retries) throw new Error(`接收 ${current.name} 重试 ${retries} 次仍失败`);
+              options.onLog?.(`位置 ${current.received} 数据校验失败，第 ${errors} 次请求重发 (ZRPOS)`);
+              await io.write(hexHeader(ZRPOS, posBytes(current.received)));
+              break;
+            }
+            current.chunks.push(sub.data);
+            current.received += sub.data.length;
+            errors = 0;
+            options.onReceived?.(current.received);
+            if (current.size > 0) options.onProgress?.(Math.min(100, Math.round((current.received / current.size) * 100)));
+            if (sub.end === ZCRCW || sub.end === ZCRCQ) await io.write(hexHeader(ZACK, posBytes(current.received)));
+            if (sub.end === ZCRCW || sub.end === ZCRCE) break;
+          }
+          break;
+        }
+        case ZEOF: {
+          // 位置不符说明还有数据未到，按协议忽略该 ZEOF
+          if (!current || headerPos(hdr.data) !== current.received) break;
+          const data = concatBytes(current.chunks);
+          files.push({ name: current.name, data: current.size >= 0 ? data.subarray(0, current.size) : data });
+          options.partials?.delete(keyOf(current));
+          current = null;
+          options.onProgress?.(100);
+          await io.write(zrinit);
+          break;
+        }
+        case ZFIN:
+          await io.write(hexHeader(ZFIN));
+          await drainTrailer(io);
+          return files;
+        case ZCAN:
+        case ZABORT:
+        case ZFERR:
+          throw new Error('发送方中止了传输');
+        default:
+          break;
+      }
+    }
+  } catch (err) {
+    // 中断时保存已收数据，供下次同名文件断点续传
+    if (current && current.received > 0) options.partials?.set(keyOf(current), concatBytes(current.chunks));
+    await zmodemCancel(io);
+    throw err;
+  }
+}
+
+/**
+ * ZModem 发送（对应设备端 rz）：ZRQINIT 请求 ZRINIT → ZFILE → 从接收方 ZRPOS 给出的位置开始发送 ZDATA
+ * （支持接收方断点续传）→ ZEOF → ZFIN / "OO"。每个窗口末尾要求 ZACK，收到 ZRPOS 时回退重发。
+ */
+export async function zmodemSend(
+  io: ModemIO,
+  file: { name: string; data: Uint8Array },
+  options: ModemSendOptions = {}
+): Promise<void> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  const { data } = file;
+  const total = data.length;
+
+  /** 等待指定类型之一的帧头，超时按 resend 重发请求 */
+  const expect = async (types: number[], resend: Uint8Array | null): Promise<ZHeader> => {
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      const hdr = await readHeader(io, timeoutMs);
+      if (hdr && types.includes(hdr.type)) return hdr;
+      if (hdr?.type === ZCAN || hdr?.type === ZABORT || hdr?.type === ZFERR) throw new Error('接收方中止了传输');
+      if (hdr?.type === ZCHALLENGE) {
+        await io.write(hexHeader(ZACK, hdr.data));
+        continue;
+      }
+      // 只在超时 / 坏帧时重发；其他帧头（如接收方重复的 ZRINIT）忽略
+      if (!hdr && resend) await io.write(resend);
+    }
+    throw new Error('等待接收方应答超时');
+  };
+
+  try {
+    const zrqinit = hexHeader(ZRQINIT);
+    await io.write(zrqinit);
+    const init = await expect([ZRINIT], zrqinit);
+    const use32 = (init.data[3] & CANFC32) !== 0;
+    options.onLog?.(`接收方已就绪 (ZModem ${use32 ? 'CRC32' : 'CRC16'})，发送文件信息`);
+
+    // ZFILE：文件名 + 大小
+    const info = new TextEncoder().encode(`${file.name}\0${total}\0`);
+    const zfile = new Uint8Array([...binHeader(ZFILE, new Uint8Array(4), use32), ...subpacket(info, ZCRCW, use32)]);
+    await io.write(zfile);
+    const reply = await expect([ZRPOS, ZSKIP], zfile);
+    if (reply.type === ZSKIP) {
+      options.onLog?.('接收方跳过了该文件');
+    } else {
+      let offset = headerPos(reply.data);
+      if (offset > 0) options.onLog?.(`接收方请求从 ${offset} 字节处续传`);
+      options.onProgress?.(total > 0 ? Math.round((offset / total) * 100) : 0);
+
+      let errors = 0;
+      // 每轮：ZDATA(offset) + 子包流 + ZEOF；收到 ZRPOS 时回到指定位置开始新一轮
+      fileLoop: while (true) {
+        await io.write(binHeader(ZDATA, posBytes(offset), use32));
+        let packets = 0;
+        while (offset < total) {
+          const chunk = data.subarray(offset, offset + SUBPACKET_SIZE);
+          const last = offset + chunk.length >= total;
+          const end = last ? ZCRCE : (++packets % WINDOW_PACKETS === 0 ? ZCRCQ : ZCRCG);
+          await io.write(subpacket(chunk, end, use32));
+          offset += chunk.length;
+          options.onProgress?.(Math.round((offset / total) * 100));
+          if (end === ZCRCQ) {
+            const ack = await expect([ZACK, ZRPOS], null);
+            if (ack.type === ZACK) errors = 0;
+            if (ack.type === ZRPOS) {
+              if (++errors > retries) throw new Error(`重发 ${retries} 次仍失败`);
+              offset = headerPos(ack.data);
+              options.onLog?.(`接收方请求从 ${offset} 字节处重发 (ZRPOS)，第 ${errors} 次`);
+              continue fileLoop;
+            }
+          }
+        }
+        if (total === 0) await io.write(subpacket(new Uint8Array(0), ZCRCE, use32));
+
+        const zeof = binHeader(ZEOF, posBytes(total), use32);
+        await io.write(zeof);
+        const eofReply = await expect([ZRINIT, ZRPOS], zeof);
+        if (eofReply.type === ZRINIT) break;
+        if (++errors > retries) throw new Error(`重发 ${retries} 次仍失败`);
+        offset = headerPos(eofReply.data);
+        options.onLog?.(`接收方请求从 ${offset} 字节处重发 (ZRPOS)，第 ${errors} 次`);
+      }
+    }
+
+    // 会话结束：ZFIN 往返后发送 "OO"
+    const zfin = hexHeader(ZFIN);
+    await io.write(zfin);
+    await expect([ZFIN], zfin);
+    await io.write(new Uint8Array([0x4F, 0x4F]));
+    options.onProgress?.(100);
+  } catch (err) {
+    await zmodemCancel(io);
+    throw err;
+  }
+}
+
+/**
+ * ZModem 自动检测：在 RX 流中查找十六进制帧头 "**\x18B0x"。
+ * ZRQINIT（设备执行 sz）→ 'receive'，ZRINIT（设备执行 rz）→ 'send'；状态跨包保留，可识别被拆分的帧头。
+ */
+export function createZModemDetector() {
+  const PATTERN = [ZPAD, ZPAD, ZDLE, ZHEX, 0x30];
+  let matched = 0;
+  return (data: Uint8Array): 'receive' | 'send' | null => {
+    for (const b of data) {
+      if (matched === PATTERN.length) {
+        matched = 0;
+        if (b === 0x30) return 'receive';
+        if (b === 0x31) return 'send';
+      }
+      if (b === PATTERN[matched]) matched++;
+      else if (b === ZPAD) matched = matched === 2 ? 2 : 1; // 多个 '*' 前导
+      else matched = 0;
+    }
+    return null;
+  };
+}